@@ -0,0 +1,6 @@
+module.exports = {
+    skipFiles: ['mocks/'],
+    // The contracts are compiled with viaIR, instrumented code needs the Yul optimizer settings
+    // adjusted to avoid stack too deep errors
+    configureYulOptimizer: true
+}
@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * Deploys contracts with CREATE3: a minimal proxy is created with CREATE2 from the salt and then
+ * deploys the creation code with CREATE. The resulting address depends only on this factory's
+ * address and the salt, not on the creation code, so the ZTLN-P proxy keeps its address when the
+ * implementation or initializer arguments change.
+ */
+contract Create3Factory {
+    // Init code of a proxy whose runtime deploys its calldata with CREATE
+    bytes internal constant PROXY_INITCODE = hex'67363d3d37363d34f03d5260086018f3';
+    bytes32 internal constant PROXY_INITCODE_HASH = keccak256(PROXY_INITCODE);
+
+    event ContractDeployed(
+        address indexed deployer,
+        bytes32 indexed salt,
+        address indexed deployedAddress,
+        bytes creationCode
+    );
+
+    error DeploymentFailed(bytes32 salt);
+
+    function create(
+        bytes32 _salt,
+        bytes calldata _creationCode
+    ) external returns (address deployed) {
+        bytes memory proxyInitCode = PROXY_INITCODE;
+        address proxy;
+        assembly {
+            proxy := create2(0, add(proxyInitCode, 32), mload(proxyInitCode), _salt)
+        }
+        if (proxy == address(0)) revert DeploymentFailed(_salt);
+
+        deployed = addressOf(_salt);
+        (bool success, ) = proxy.call(_creationCode);
+        if (!success || deployed.code.length == 0) revert DeploymentFailed(_salt);
+
+        emit ContractDeployed(msg.sender, _salt, deployed, _creationCode);
+    }
+
+    function addressOf(bytes32 _salt) public view returns (address) {
+        address proxy = address(
+            uint160(
+                uint256(
+                    keccak256(
+                        abi.encodePacked(bytes1(0xff), address(this), _salt, PROXY_INITCODE_HASH)
+                    )
+                )
+            )
+        );
+        // The proxy deploys with nonce 1: RLP of [proxy, 1]
+        return address(uint160(uint256(keccak256(abi.encodePacked(hex'd694', proxy, hex'01')))));
+    }
+}
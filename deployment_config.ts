@@ -1,45 +1,255 @@
-export const deploymentConfig: {
-    [key: number]: {
-        network: string
-        chainId: number
-        kycManager: string
-        ZTLNImplementation: string
-        ZTLNProxy: string
-    }
-} = {
-    '1': {
-        network: 'mainnet',
-        chainId: 1,
-        kycManager: '0xaDB41aEe4c5CD373199F3509298824c473F671F7',
-        ZTLNImplementation: '0x982dAA73B74a9cE2b02bB0f0E7A15592f26dA318',
-        ZTLNProxy: '0xfEd3D6557Dc46A1B25d0A6F666513Cb33835864B'
-    },
-    '169': {
-        network: 'manta',
-        chainId: 169,
-        kycManager: '',
-        ZTLNImplementation: '',
-        ZTLNProxy: ''
-    },
-    '17000': {
-        network: 'holesky',
-        chainId: 17000,
-        kycManager: '',
-        ZTLNImplementation: '',
-        ZTLNProxy: ''
-    },
-    '80002': {
-        network: 'amoy',
-        chainId: 80002,
-        kycManager: '0x6f0e03A7da17Ab95B2C7E6BF1C2e732D33A22341',
-        ZTLNImplementation: '0xbCC57147042F1d116c359eb8Acbb4A9542E7209c',
-        ZTLNProxy: '0x1E4260c81c99b113025bde0B2aEef8DfF329541F'
-    },
-    '80084': {
-        network: 'berachain',
-        chainId: 80084,
-        kycManager: '',
-        ZTLNImplementation: '',
-        ZTLNProxy: ''
+import { isAddress, isHexString } from 'ethers'
+import fs from 'fs'
+import path from 'path'
+
+import { networkForChain } from './network_config'
+import { writeJsonAtomic } from './scripts/utils/files'
+
+// Only fs, path, ethers, the network registry and writeJsonAtomic are imported here: tasks read the
+// registry while the Hardhat config is still loading, before typechain-types exist.
+
+export const REGISTRY_PATH = path.join(__dirname, 'deployment_registry.json')
+
+export interface ContractRecord {
+    address: string
+    txHash?: string
+    blockNumber?: number
+    // keccak256 of the runtime bytecode at deployment
+    bytecodeHash?: string
+    // ISO 8601
+    deployedAt?: string
+}
+
+export type ImplementationStatus = 'active' | 'proposed' | 'retired'
+
+export interface ImplementationRecord extends ContractRecord {
+    // Only the latest activated implementation is active, Safe upgrades stay proposed until signed
+    status: ImplementationStatus
+    activatedTxHash?: string
+    activatedBlockNumber?: number
+    activatedAt?: string
+    // Safe Transaction Builder batch the upgrade was proposed in
+    proposal?: string
+}
+
+export interface ProxyRecord extends ContractRecord {
+    create3Salt?: string
+    create3Factory?: string
+}
+
+export interface ChainDeployment {
+    network: string
+    chainId: number
+    deployer?: string
+    usdc?: ContractRecord
+    kycManager?: ContractRecord
+    // Oldest first
+    implementations: ImplementationRecord[]
+    proxy?: ProxyRecord
+    // Accounts expected to hold each ZTLNPrime role, by role name
+    roles?: Record<string, string[]>
+}
+
+export type DeploymentRegistry = Record<string, ChainDeployment>
+
+const STATUSES: ImplementationStatus[] = ['active', 'proposed', 'retired']
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateContract(record: unknown, where: string, errors: string[]) {
+    if (!isObject(record)) {
+        errors.push(`${where}: expected an object`)
+        return
+    }
+    if (!isAddress(record.address)) errors.push(`${where}.address: invalid address`)
+    for (const field of ['txHash', 'activatedTxHash', 'create3Salt', 'bytecodeHash']) {
+        if (record[field] !== undefined && !isHexString(record[field], 32)) {
+            errors.push(`${where}.${field}: expected a 32 byte hex string`)
+        }
+    }
+    for (const field of ['blockNumber', 'activatedBlockNumber']) {
+        const value = record[field]
+        if (
+            value !== undefined &&
+            (typeof value !== 'number' || !Number.isInteger(value) || value < 0)
+        ) {
+            errors.push(`${where}.${field}: expected a block number`)
+        }
+    }
+    for (const field of ['deployedAt', 'activatedAt']) {
+        const value = record[field]
+        if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+            errors.push(`${where}.${field}: expected an ISO 8601 timestamp`)
+        }
+    }
+    if (record.create3Factory !== undefined && !isAddress(record.create3Factory)) {
+        errors.push(`${where}.create3Factory: invalid address`)
+    }
+}
+
+/**
+ * Checks the registry against the `DeploymentRegistry` schema and returns every problem found,
+ * an empty list when it is valid.
+ */
+export function validateRegistry(registry: unknown): string[] {
+    if (!isObject(registry)) {
+        return ['registry: expected an object keyed by chain ID']
+    }
+
+    const errors: string[] = []
+    for (const [key, deployment] of Object.entries(registry)) {
+        if (!isObject(deployment)) {
+            errors.push(`${key}: expected an object`)
+            continue
+        }
+        if (!/^\d+$/.test(key) || deployment.chainId !== Number(key)) {
+            errors.push(`${key}.chainId: does not match the key`)
+        }
+        const network = networkForChain(
+            typeof deployment.chainId === 'number' ? deployment.chainId : undefined
+        )
+        if (typeof deployment.network !== 'string' || !deployment.network) {
+            errors.push(`${key}.network: expected a network name`)
+        } else if (network && deployment.network !== network.name) {
+            errors.push(`${key}.network: chain ID ${key} is ${network.name} in network_config.ts`)
+        }
+        if (deployment.deployer !== undefined && !isAddress(deployment.deployer)) {
+            errors.push(`${key}.deployer: invalid address`)
+        }
+        for (const field of ['usdc', 'kycManager', 'proxy']) {
+            if (deployment[field] !== undefined) {
+                validateContract(deployment[field], `${key}.${field}`, errors)
+            }
+        }
+
+        if (deployment.roles !== undefined) {
+            if (!isObject(deployment.roles)) {
+                errors.push(`${key}.roles: expected an object keyed by role name`)
+            } else {
+                for (const [role, holders] of Object.entries(deployment.roles)) {
+                    if (!Array.isArray(holders) || !holders.every(holder => isAddress(holder))) {
+                        errors.push(`${key}.roles.${role}: expected a list of addresses`)
+                    }
+                }
+            }
+        }
+
+        const implementations: unknown = deployment.implementations
+        if (!Array.isArray(implementations)) {
+            errors.push(`${key}.implementations: expected a list`)
+            continue
+        }
+        const statuses = implementations.map((implementation: unknown, index) => {
+            const where = `${key}.implementations[${index}]`
+            validateContract(implementation, where, errors)
+            const status = isObject(implementation) ? implementation.status : undefined
+            if (!STATUSES.some(known => known === status)) {
+                errors.push(`${where}.status: expected one of ${STATUSES.join(', ')}`)
+            }
+            return status
+        })
+        if (statuses.filter(status => status === 'active').length > 1) {
+            errors.push(`${key}.implementations: more than one active`)
+        }
+    }
+    return errors
+}
+
+/**
+ * Reads and validates the registry, throwing with every schema error if it is invalid.
+ */
+export function loadRegistry(file = REGISTRY_PATH): DeploymentRegistry {
+    const registry = JSON.parse(fs.readFileSync(file, 'utf8'))
+    const errors = validateRegistry(registry)
+    if (errors.length) {
+        throw new Error(`Invalid deployment registry ${file}:\n  ${errors.join('\n  ')}`)
+    }
+    return registry
+}
+
+export function getDeployment(
+    chainId: number | undefined,
+    file = REGISTRY_PATH
+): ChainDeployment | undefined {
+    return chainId === undefined ? undefined : loadRegistry(file)[chainId]
+}
+
+/**
+ * Deployment for `chainId`, throwing unless a proxy has been recorded for it.
+ */
+export function requireDeployment(
+    chainId: number | undefined,
+    file = REGISTRY_PATH
+): ChainDeployment & { proxy: ProxyRecord } {
+    const deployment = getDeployment(chainId, file)
+    if (!deployment) throw new Error(`Config not found for chain ID ${chainId}`)
+    if (!deployment.proxy) throw new Error(`No ZTLNPrime proxy recorded for chain ID ${chainId}`)
+    return deployment as ChainDeployment & { proxy: ProxyRecord }
+}
+
+export function currentImplementation(
+    deployment: ChainDeployment
+): ImplementationRecord | undefined {
+    return deployment.implementations.find(({ status }) => status === 'active')
+}
+
+/**
+ * Applies `update` to the deployment for `chainId` (a fresh entry if there is none) and writes the
+ * registry back. The result is validated before anything is written.
+ */
+export function updateDeployment(
+    chainId: number,
+    network: string,
+    update: (deployment: ChainDeployment) => ChainDeployment,
+    file = REGISTRY_PATH
+): ChainDeployment {
+    const registry = loadRegistry(file)
+    const deployment = update(registry[chainId] ?? { network, chainId, implementations: [] })
+    const updated = { ...registry, [chainId]: deployment }
+
+    const errors = validateRegistry(updated)
+    if (errors.length) {
+        throw new Error(
+            `Refusing to write an invalid deployment registry:\n  ${errors.join('\n  ')}`
+        )
     }
+
+    writeJsonAtomic(file, updated)
+    return deployment
+}
+
+/**
+ * Appends an implementation to the history for `chainId`. An active implementation retires the
+ * previously active one and takes over the entry for the same address if it was proposed earlier.
+ */
+export function recordImplementation(
+    chainId: number,
+    network: string,
+    implementation: ImplementationRecord,
+    file = REGISTRY_PATH
+): ChainDeployment {
+    return updateDeployment(
+        chainId,
+        network,
+        deployment => {
+            const isProposal = ({ address, status }: ImplementationRecord) =>
+                status === 'proposed' &&
+                address.toLowerCase() === implementation.address.toLowerCase()
+            const proposal = deployment.implementations.find(isProposal)
+            const history = deployment.implementations
+                .filter(record => !isProposal(record))
+                .map(record =>
+                    implementation.status === 'active' && record.status === 'active'
+                        ? { ...record, status: 'retired' as const }
+                        : record
+                )
+            return {
+                ...deployment,
+                implementations: [...history, { ...proposal, ...implementation }]
+            }
+        },
+        file
+    )
 }
@@ -1,63 +1,41 @@
 import '@nomicfoundation/hardhat-ignition-ethers'
 import '@nomicfoundation/hardhat-ledger'
 import '@nomicfoundation/hardhat-toolbox'
+import '@openzeppelin/hardhat-upgrades'
 import dotenv from 'dotenv'
-import { HardhatUserConfig } from 'hardhat/config'
+import { extendEnvironment, HardhatUserConfig } from 'hardhat/config'
+
+import { assertNetworkEnv, etherscanConfig, hardhatNetworks } from './network_config'
+// The tasks import typechain-types, and the scripts built on it, inside their actions with
+// `await import`, so the config still loads before the first compile generates typechain-types
+import './tasks/cap-table'
+import './tasks/deployments'
+import './tasks/incident'
+import './tasks/kyc'
+import './tasks/monitor'
+import './tasks/nav'
+import './tasks/restrictions'
+import './tasks/roles'
+import './tasks/ztln'
 
 dotenv.config()
 
-const DEPLOYER_ACCOUNT_PRIV_KEY = process.env.DEPLOYER_ACCOUNT_PRIV_KEY
-const ACCOUNTS = [DEPLOYER_ACCOUNT_PRIV_KEY].filter(Boolean) as string[]
-const LEDGER_ACCOUNT = process.env.LEDGER_ACCOUNT as string
+// Fails at startup, before any task runs, when the selected network is missing its RPC key or
+// signer account
+extendEnvironment(hre => assertNetworkEnv(hre.network.name))
 
 const config: HardhatUserConfig = {
     networks: {
         hardhat: {
             allowUnlimitedContractSize: true
         },
-        mainnet: {
-            chainId: 1,
-            url: 'https://eth-mainnet.g.alchemy.com/v2/' + process.env.ALCHEMY_API_KEY,
-            // accounts: ACCOUNTS,
-            ledgerAccounts: [LEDGER_ACCOUNT]
-        },
-        amoy: {
-            chainId: 80002,
-            url: 'https://rpc-amoy.polygon.technology',
-            // accounts: ACCOUNTS,
-            ledgerAccounts: [LEDGER_ACCOUNT]
-        },
-        holesky: {
-            chainId: 17000,
-            url: 'https://ethereum-holesky-rpc.publicnode.com',
-            // accounts: ACCOUNTS,
-            ledgerAccounts: [LEDGER_ACCOUNT]
-        }
+        ...hardhatNetworks()
     },
-    etherscan: {
-        apiKey: {
-            polygon: process.env.POLYGONSCAN_API_KEY as string,
-            amoy: process.env.POLYGONSCAN_API_KEY as string,
-            mainnet: process.env.ETHERSCAN_API_KEY as string
-        },
-        customChains: [
-            {
-                network: 'amoy',
-                chainId: 80002,
-                urls: {
-                    apiURL: 'https://api-amoy.polygonscan.com/api',
-                    browserURL: 'https://amoy.polygonscan.com'
-                }
-            },
-            {
-                network: 'holesky',
-                chainId: 17000,
-                urls: {
-                    apiURL: 'https://api-holesky.etherscan.io/api',
-                    browserURL: 'https://holesky.etherscan.io'
-                }
-            }
-        ]
+    etherscan: etherscanConfig(),
+    // REPORT_GAS=true prints gas used per method and deployment after the tests
+    gasReporter: {
+        enabled: process.env.REPORT_GAS === 'true',
+        currency: 'USD'
     },
     solidity: {
         version: '0.8.27',
@@ -0,0 +1,7 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+
+export default buildModule('Create3Factory', m => {
+    const create3Factory = m.contract('Create3Factory')
+
+    return { create3Factory }
+})
@@ -0,0 +1,186 @@
+import { HardhatUserConfig } from 'hardhat/config'
+
+// Nothing from the repo is imported here: the Hardhat config is built from this file before
+// typechain-types exist.
+
+export type SignerType = 'ledger' | 'privateKey'
+
+export interface ExplorerConfig {
+    // Environment variable holding the API key, unset for explorers that do not need one
+    apiKeyEnv?: string
+    // Only for chains hardhat-verify does not know, which are added as custom chains
+    apiUrl?: string
+    browserUrl?: string
+}
+
+export interface NetworkEntry {
+    chainId: number
+    // `{NAME}` placeholders are filled from the environment variable NAME
+    rpcUrl: string
+    explorer: ExplorerConfig
+    // Symbol of the token gas is paid in
+    nativeToken: string
+    // Ledger uses LEDGER_ACCOUNT, a private key DEPLOYER_ACCOUNT_PRIV_KEY
+    signer: SignerType
+    // Confirmations the tasks wait for on each transaction
+    confirmations: number
+    // Production chain: tasks ask before sending their first transaction unless run with --yes
+    mainnet: boolean
+}
+
+export const NETWORKS = {
+    mainnet: {
+        chainId: 1,
+        rpcUrl: 'https://eth-mainnet.g.alchemy.com/v2/{ALCHEMY_API_KEY}',
+        explorer: { apiKeyEnv: 'ETHERSCAN_API_KEY' },
+        nativeToken: 'ETH',
+        signer: 'ledger',
+        confirmations: 2,
+        mainnet: true
+    },
+    holesky: {
+        chainId: 17000,
+        rpcUrl: 'https://ethereum-holesky-rpc.publicnode.com',
+        explorer: {
+            apiKeyEnv: 'ETHERSCAN_API_KEY',
+            apiUrl: 'https://api-holesky.etherscan.io/api',
+            browserUrl: 'https://holesky.etherscan.io'
+        },
+        nativeToken: 'ETH',
+        signer: 'ledger',
+        confirmations: 1,
+        mainnet: false
+    },
+    amoy: {
+        chainId: 80002,
+        rpcUrl: 'https://rpc-amoy.polygon.technology',
+        explorer: {
+            apiKeyEnv: 'POLYGONSCAN_API_KEY',
+            apiUrl: 'https://api-amoy.polygonscan.com/api',
+            browserUrl: 'https://amoy.polygonscan.com'
+        },
+        nativeToken: 'POL',
+        signer: 'ledger',
+        confirmations: 1,
+        mainnet: false
+    },
+    manta: {
+        chainId: 169,
+        rpcUrl: 'https://pacific-rpc.manta.network/http',
+        explorer: {
+            apiUrl: 'https://pacific-explorer.manta.network/api',
+            browserUrl: 'https://pacific-explorer.manta.network'
+        },
+        nativeToken: 'ETH',
+        signer: 'ledger',
+        confirmations: 2,
+        mainnet: true
+    },
+    berachain: {
+        chainId: 80084,
+        rpcUrl: 'https://bartio.rpc.berachain.com',
+        explorer: {
+            apiUrl: 'https://api.routescan.io/v2/network/testnet/evm/80084/etherscan',
+            browserUrl: 'https://bartio.beratrail.io'
+        },
+        nativeToken: 'BERA',
+        signer: 'ledger',
+        confirmations: 1,
+        mainnet: false
+    }
+} satisfies Record<string, NetworkEntry>
+
+export type NetworkName = keyof typeof NETWORKS
+
+type Env = Record<string, string | undefined>
+
+const SIGNER_ENV: Record<SignerType, string> = {
+    ledger: 'LEDGER_ACCOUNT',
+    privateKey: 'DEPLOYER_ACCOUNT_PRIV_KEY'
+}
+
+// Explorers without API keys still need a non-empty value in etherscan.apiKey
+const KEYLESS_EXPLORER = 'none'
+
+// API key variables of explorers hardhat-verify knows for chains without a registry network
+const EXTRA_EXPLORER_KEYS: Record<string, string> = {
+    polygon: 'POLYGONSCAN_API_KEY'
+}
+
+export function networkForChain(
+    chainId: number | bigint | undefined
+): (NetworkEntry & { name: NetworkName }) | undefined {
+    const entry = Object.entries(NETWORKS).find(
+        ([, network]) => network.chainId === Number(chainId)
+    )
+    return entry && { ...entry[1], name: entry[0] as NetworkName }
+}
+
+/**
+ * Environment variables a network needs: those in its RPC URL and its signer's.
+ */
+export function requiredEnv(network: NetworkEntry): string[] {
+    const placeholders = [...network.rpcUrl.matchAll(/\{(\w+)\}/g)].map(([, name]) => name)
+    return [...placeholders, SIGNER_ENV[network.signer]]
+}
+
+/**
+ * Throws naming every missing environment variable when `name` is a registry network. Called
+ * when Hardhat starts, so a misconfigured run stops before anything is sent.
+ */
+export function assertNetworkEnv(name: string, env: Env = process.env) {
+    const network = NETWORKS[name as NetworkName] as NetworkEntry | undefined
+    if (!network) return
+    const missing = requiredEnv(network).filter(variable => !env[variable])
+    if (missing.length) {
+        throw new Error(`Network ${name} needs ${missing.join(', ')}, see .env.example`)
+    }
+}
+
+/**
+ * Builds the Hardhat `networks` entries. Missing environment variables are left empty here and
+ * reported by assertNetworkEnv for the selected network only.
+ */
+export function hardhatNetworks(
+    env: Env = process.env
+): NonNullable<HardhatUserConfig['networks']> {
+    const networks: NonNullable<HardhatUserConfig['networks']> = {}
+    for (const [name, network] of Object.entries(NETWORKS) as [string, NetworkEntry][]) {
+        const url = network.rpcUrl.replace(/\{(\w+)\}/g, (_, variable) => env[variable] ?? '')
+        const account = env[SIGNER_ENV[network.signer]]
+        networks[name] = {
+            chainId: network.chainId,
+            url,
+            ...(network.signer === 'ledger'
+                ? { ledgerAccounts: account ? [account] : [] }
+                : { accounts: account ? [account] : [] })
+        }
+    }
+    return networks
+}
+
+/**
+ * Builds the hardhat-verify `etherscan` config: an API key per network, plus the extra explorers,
+ * and a custom chain for every network with its own explorer URLs.
+ */
+export function etherscanConfig(
+    env: Env = process.env
+): NonNullable<HardhatUserConfig['etherscan']> {
+    const apiKey: Record<string, string> = {}
+    for (const [name, apiKeyEnv] of Object.entries(EXTRA_EXPLORER_KEYS)) {
+        apiKey[name] = env[apiKeyEnv] ?? ''
+    }
+    const customChains = []
+    for (const [name, network] of Object.entries(NETWORKS) as [string, NetworkEntry][]) {
+        const { apiKeyEnv, apiUrl, browserUrl } = network.explorer
+        apiKey[name] = apiKeyEnv ? (env[apiKeyEnv] ?? '') : KEYLESS_EXPLORER
+        if (apiUrl && browserUrl) {
+            customChains.push({
+                network: name,
+                chainId: network.chainId,
+                urls: { apiURL: apiUrl, browserURL: browserUrl }
+            })
+        }
+    }
+    return { apiKey, customChains }
+}
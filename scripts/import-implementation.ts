@@ -0,0 +1,39 @@
+import * as hre from 'hardhat'
+
+import { requireDeployment } from '../deployment_config'
+import { syncActiveImplementation } from './utils/registry'
+import { importDeployedLayout } from './utils/upgrade-flow'
+
+/**
+ * Registers the proxy and its current implementation in the OpenZeppelin network manifest
+ * (.openzeppelin/) so that the ztln:upgrade task has a reference storage layout to compare
+ * against.
+ *
+ * Run this once per network from the source revision the deployed implementation was built
+ * from. The layout recorded is the one of the local ZTLNPrime build, so the import is refused
+ * unless that build matches the code behind the proxy (see importDeployedLayout).
+ */
+async function main() {
+    const chainId = hre.network['config'].chainId
+    const proxyAddress = requireDeployment(chainId).proxy.address
+    const implementationAddress = await hre.upgrades.erc1967.getImplementationAddress(proxyAddress)
+    console.log('Proxy Address:'.padEnd(50), ':', proxyAddress)
+    console.log('Current Implementation Address:'.padEnd(50), ':', implementationAddress)
+
+    // An executed Safe upgrade turns the proposed implementation into the active one
+    if (!syncActiveImplementation(chainId!, hre.network.name, implementationAddress)) {
+        throw new Error(
+            `Proxy points at ${implementationAddress}, which is not in the deployment registry`
+        )
+    }
+
+    await importDeployedLayout(hre, proxyAddress)
+    console.log('\nImplementation storage layout registered in the network manifest')
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error(error)
+        process.exit(1)
+    })
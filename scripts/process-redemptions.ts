@@ -0,0 +1,101 @@
+import * as hre from 'hardhat'
+
+import { getDeployment } from '../deployment_config'
+import {
+    buildProcessCalls,
+    buildRedemptionQueue,
+    printQueue,
+    queueWarnings,
+    writeRedemptionBatch
+} from './utils/redemptions'
+import { buildProposal, encodeCall, writeProposal } from './utils/safe'
+
+/**
+ * Rebuilds the redemption queue of a ZTLNPrime proxy and settles it with `processRedemption`,
+ * paying each investor's outstanding shares at the current price.
+ *
+ * PROXY_ADDRESS            proxy to process, defaults to the deployment registry entry for the network
+ * REDEMPTION_FROM_BLOCK    first block to scan for redemption logs, defaults to the proxy deployment block
+ * REDEMPTION_EXECUTE       set to true to send the calls from the operator account; otherwise the
+ *                          batch is only written to redemption-batches/ for review
+ * SAFE_ADDRESS             write the calls as a Safe Transaction Builder batch instead
+ */
+async function main() {
+    const chainId = hre.network['config'].chainId
+    const proxyAddress = process.env.PROXY_ADDRESS || getDeployment(chainId)?.proxy?.address
+    if (!proxyAddress) {
+        throw new Error(
+            `Set PROXY_ADDRESS or add a proxy for chain ID ${chainId} to the deployment registry`
+        )
+    }
+
+    console.log('Network:'.padEnd(50), ':', hre.network.name)
+    console.log('Proxy Address:'.padEnd(50), ':', proxyAddress)
+
+    const queue = await buildRedemptionQueue(hre.ethers.provider, proxyAddress, {
+        fromBlock: process.env.REDEMPTION_FROM_BLOCK
+            ? Number(process.env.REDEMPTION_FROM_BLOCK)
+            : undefined
+    })
+    console.log('Scanned Blocks:'.padEnd(50), ':', `${queue.fromBlock} - ${queue.blockNumber}`)
+    console.log('Price:'.padEnd(50), ':', queue.price)
+    console.log('Vault ZTLN-P Balance:'.padEnd(50), ':', queue.vaultShares)
+    console.log('Outstanding Shares:'.padEnd(50), ':', queue.outstandingShares)
+    printQueue(queue)
+
+    const warnings = queueWarnings(queue)
+    if (warnings.length) {
+        console.warn(`\n${warnings.length} warning(s), affected entries are left out of the batch:`)
+        warnings.forEach(warning => console.warn(`  WARNING: ${warning}`))
+    }
+
+    const calls = buildProcessCalls(queue)
+    console.log('\nprocessRedemption Calls:'.padEnd(51), ':', calls.length)
+    console.log('Batch written to:'.padEnd(50), ':', writeRedemptionBatch(queue, calls))
+    if (!calls.length) return
+
+    const ztlnPrime = await hre.ethers.getContractAt('ZTLNPrime', proxyAddress)
+
+    if (process.env.SAFE_ADDRESS) {
+        const proposal = await buildProposal(
+            hre.ethers.provider,
+            process.env.SAFE_ADDRESS,
+            'Process redemptions',
+            `Process ${calls.length} redemption(s) on ${proxyAddress} at price ${queue.price}`,
+            calls.map(({ investor, asset, amount, shares }) =>
+                encodeCall(proxyAddress, ztlnPrime.interface, 'processRedemption', [
+                    investor,
+                    asset,
+                    amount,
+                    shares
+                ])
+            )
+        )
+        writeProposal(proposal)
+        return
+    }
+
+    if (process.env.REDEMPTION_EXECUTE !== 'true') {
+        console.log('\nDry run, set REDEMPTION_EXECUTE=true to send the calls')
+        return
+    }
+
+    const [operator] = await hre.ethers.getSigners()
+    console.log('\nOperator Account:'.padEnd(51), ':', await operator.getAddress())
+    for (const { investor, asset, amount, shares } of calls) {
+        const tx = await ztlnPrime
+            .connect(operator)
+            .processRedemption(investor, asset, amount, shares)
+        await tx.wait()
+        console.log(
+            `  Processed ${shares} shares of ${investor} for ${amount} ${asset}: ${tx.hash}`
+        )
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error(error)
+        process.exit(1)
+    })
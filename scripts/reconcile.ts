@@ -0,0 +1,84 @@
+import { formatUnits } from 'ethers'
+import * as hre from 'hardhat'
+
+import { getDeployment } from '../deployment_config'
+import { buildReconciliation } from './utils/reconciliation'
+import { writeReport } from './utils/report'
+
+/**
+ * Reconciles deposits, custody sweeps and redemption payouts of a ZTLNPrime proxy with its asset
+ * balances and share supply, and writes the result to reports/ as JSON and CSV.
+ *
+ * PROXY_ADDRESS          proxy to reconcile, defaults to the deployment registry entry for the network
+ * RECONCILE_FROM_BLOCK   first block to replay, defaults to the proxy deployment block
+ * RECONCILE_BLOCK        block to reconcile at, defaults to the latest block
+ */
+async function main() {
+    const chainId = hre.network['config'].chainId
+    const proxyAddress = process.env.PROXY_ADDRESS || getDeployment(chainId)?.proxy?.address
+    if (!proxyAddress) {
+        throw new Error(
+            `Set PROXY_ADDRESS or add a proxy for chain ID ${chainId} to the deployment registry`
+        )
+    }
+
+    console.log('Network:'.padEnd(50), ':', hre.network.name)
+    console.log('Proxy Address:'.padEnd(50), ':', proxyAddress)
+
+    const report = await buildReconciliation(hre.ethers.provider, proxyAddress, {
+        fromBlock: process.env.RECONCILE_FROM_BLOCK
+            ? Number(process.env.RECONCILE_FROM_BLOCK)
+            : undefined,
+        blockNumber: process.env.RECONCILE_BLOCK ? Number(process.env.RECONCILE_BLOCK) : undefined
+    })
+    console.log('Replayed Blocks:'.padEnd(50), ':', `${report.fromBlock} - ${report.blockNumber}`)
+    console.log('Custodian:'.padEnd(50), ':', report.custodian)
+
+    for (const asset of report.assets) {
+        const format = (value: bigint) => `${formatUnits(value, asset.decimals)} ${asset.symbol}`
+        console.log(`\n${asset.symbol} (${asset.asset})`)
+        console.log('  Deposited:'.padEnd(50), ':', format(asset.deposited))
+        console.log('  Other Inflows:'.padEnd(50), ':', format(asset.otherInflows))
+        console.log('  Swept To Custodian:'.padEnd(50), ':', format(asset.sweptToCustodian))
+        console.log('  Redemption Payouts:'.padEnd(50), ':', format(asset.redemptionPayouts))
+        console.log('  Other Outflows:'.padEnd(50), ':', format(asset.otherOutflows))
+        console.log('  Expected Vault Balance:'.padEnd(50), ':', format(asset.expectedBalance))
+        console.log('  Vault Balance:'.padEnd(50), ':', format(asset.vaultBalance))
+    }
+
+    console.log('\nZTLN-P')
+    console.log('  Minted By Deposit:'.padEnd(50), ':', report.shares.mintedByDeposit)
+    console.log('  Minted Directly:'.padEnd(50), ':', report.shares.mintedDirectly)
+    console.log('  Burned By Redemption:'.padEnd(50), ':', report.shares.burnedByRedemption)
+    console.log('  Burned Directly:'.padEnd(50), ':', report.shares.burnedDirectly)
+    console.log('  Total Supply:'.padEnd(50), ':', report.shares.totalSupply)
+
+    const paths = writeReport(
+        `${report.chainId}-${report.proxy}-${report.blockNumber}-reconciliation`,
+        report,
+        {
+            assets: report.assets,
+            investors: report.investors,
+            discrepancies: report.discrepancies
+        }
+    )
+    console.log('\nReport written to:')
+    paths.forEach(reportPath => console.log(`  ${reportPath}`))
+
+    if (report.discrepancies.length) {
+        console.warn(`\n${report.discrepancies.length} discrepancy(ies):`)
+        for (const { kind, asset, transactionHash, detail } of report.discrepancies) {
+            const context = [asset, transactionHash].filter(Boolean).join(' ')
+            console.warn(`  ${kind.padEnd(20)} ${detail}${context ? ` (${context})` : ''}`)
+        }
+    } else {
+        console.log('\nNo discrepancies')
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error(error)
+        process.exit(1)
+    })
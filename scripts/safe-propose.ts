@@ -0,0 +1,94 @@
+import { id, ZeroHash } from 'ethers'
+import fs from 'fs'
+import * as hre from 'hardhat'
+
+import { requireDeployment } from '../deployment_config'
+import { BatchTransaction, buildProposal, encodeCall, writeProposal } from './utils/safe'
+
+// Admin calls that can be batched into a Safe proposal
+const SUPPORTED_METHODS = [
+    'upgradeToAndCall',
+    'setCustodian',
+    'setKycManager',
+    'grantRole',
+    'revokeRole',
+    'setPrice'
+] as const
+
+interface AdminOperation {
+    method: (typeof SUPPORTED_METHODS)[number]
+    args: string[]
+}
+
+// Role arguments may be given by name instead of as a bytes32 id
+function resolveRole(role: string): string {
+    if (role === 'DEFAULT_ADMIN_ROLE') return ZeroHash
+    return role.startsWith('0x') ? role : id(role)
+}
+
+/**
+ * Writes ZTLNPrime admin operations as a Safe Transaction Builder batch without broadcasting.
+ *
+ * SAFE_ADDRESS     Safe holding DEFAULT_ADMIN_ROLE on the proxy
+ * SAFE_OPERATIONS  JSON file with a list of { "method": "...", "args": [...] } entries
+ * SAFE_NONCE       optional nonce override, defaults to the Safe's current nonce
+ */
+async function main() {
+    const proxyAddress = requireDeployment(hre.network['config'].chainId).proxy.address
+
+    const missingVars = ['SAFE_ADDRESS', 'SAFE_OPERATIONS'].filter(varName => !process.env[varName])
+    if (missingVars.length)
+        throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`)
+
+    const safeAddress = process.env.SAFE_ADDRESS!
+    const ztlnPrime = await hre.ethers.getContractAt('ZTLNPrime', proxyAddress)
+
+    console.log('Network:'.padEnd(50), ':', hre.network.name)
+    console.log('Proxy Address:'.padEnd(50), ':', proxyAddress)
+    console.log('Admin Safe:'.padEnd(50), ':', safeAddress)
+
+    if (!(await ztlnPrime.hasRole(await ztlnPrime.DEFAULT_ADMIN_ROLE(), safeAddress))) {
+        console.warn('WARNING: Safe does not hold DEFAULT_ADMIN_ROLE, the batch will revert')
+    }
+
+    const operations = JSON.parse(
+        fs.readFileSync(process.env.SAFE_OPERATIONS!, 'utf8')
+    ) as AdminOperation[]
+
+    const transactions: BatchTransaction[] = operations.map(({ method, args }) => {
+        if (!SUPPORTED_METHODS.includes(method)) {
+            throw new Error(`Unsupported admin operation: ${method}`)
+        }
+        const callArgs =
+            method === 'grantRole' || method === 'revokeRole'
+                ? [resolveRole(args[0]), ...args.slice(1)]
+                : args
+        console.log(`  ${method}(${args.join(', ')})`)
+        return encodeCall(proxyAddress, ztlnPrime.interface, method, callArgs)
+    })
+
+    // Simulate every call from the Safe so a bad argument fails here rather than after signing
+    for (const [index, { to, data }] of transactions.entries()) {
+        try {
+            await hre.ethers.provider.call({ from: safeAddress, to, data })
+        } catch (error) {
+            throw new Error(`Operation ${index} (${operations[index].method}) reverts: ${error}`)
+        }
+    }
+
+    const proposal = await buildProposal(
+        hre.ethers.provider,
+        safeAddress,
+        'ZTLNPrime admin operations',
+        operations.map(({ method }) => method).join(', '),
+        transactions
+    )
+    writeProposal(proposal)
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error(error)
+        process.exit(1)
+    })
@@ -0,0 +1,53 @@
+import * as hre from 'hardhat'
+
+import { getDeployment } from '../deployment_config'
+import {
+    diffSnapshots,
+    printDiff,
+    readSnapshot,
+    takeSnapshot,
+    writeSnapshot
+} from './utils/snapshot'
+
+/**
+ * Archives the full state of a ZTLNPrime proxy to snapshots/.
+ *
+ * PROXY_ADDRESS         proxy to snapshot, defaults to the deployment registry entry for the network
+ * SNAPSHOT_BLOCK        block to read state at, defaults to the latest block
+ * SNAPSHOT_FROM_BLOCK   first block to scan for holders and role members, defaults to the proxy deployment block
+ * SNAPSHOT_BASELINE     optional snapshot file to diff the new snapshot against
+ */
+async function main() {
+    const chainId = hre.network['config'].chainId
+    const proxyAddress = process.env.PROXY_ADDRESS || getDeployment(chainId)?.proxy?.address
+    if (!proxyAddress) {
+        throw new Error(
+            `Set PROXY_ADDRESS or add a proxy for chain ID ${chainId} to the deployment registry`
+        )
+    }
+
+    console.log('Network:'.padEnd(50), ':', hre.network.name)
+    console.log('Proxy Address:'.padEnd(50), ':', proxyAddress)
+
+    const snapshot = await takeSnapshot(hre.ethers.provider, proxyAddress, {
+        blockNumber: process.env.SNAPSHOT_BLOCK ? Number(process.env.SNAPSHOT_BLOCK) : undefined,
+        fromBlock: process.env.SNAPSHOT_FROM_BLOCK
+            ? Number(process.env.SNAPSHOT_FROM_BLOCK)
+            : undefined
+    })
+    console.log('Block:'.padEnd(50), ':', snapshot.blockNumber)
+    console.log('Holders:'.padEnd(50), ':', Object.keys(snapshot.balances).length)
+    console.log('Snapshot written to:'.padEnd(50), ':', writeSnapshot(snapshot, 'archive'))
+
+    if (process.env.SNAPSHOT_BASELINE) {
+        console.log(`\nDiff against ${process.env.SNAPSHOT_BASELINE}:`)
+        printDiff(diffSnapshots(readSnapshot(process.env.SNAPSHOT_BASELINE), snapshot))
+    }
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch(error => {
+        console.error(error)
+        process.exit(1)
+    })
@@ -0,0 +1,133 @@
+import { getAddress, Provider, ZeroAddress } from 'ethers'
+
+import { KycType } from '../../sdk/constants'
+import { KycManager__factory, ZTLNPrime__factory } from '../../typechain-types'
+import { findDeploymentBlock, queryInChunks } from './logs'
+
+export type Jurisdiction = 'US' | 'NON_US' | 'NONE'
+
+/**
+ * One holder of the cap table. Shares held by the proxy itself are redemptions that have been
+ * requested with `redeem` and not yet burnt by `processRedemption`; they carry no KYC status.
+ */
+export interface CapTableEntry {
+    holder: string
+    category: 'investor' | 'pending-redemption'
+    balance: string
+    kycType?: keyof typeof KycType
+    jurisdiction?: Jurisdiction
+    isBanned?: boolean
+    // False when the KycManager has never seen the holder
+    knownToKycManager?: boolean
+}
+
+export interface CapTable {
+    proxy: string
+    chainId: string
+    blockNumber: number
+    blockTimestamp: string
+    fromBlock: number
+    kycManager: string
+    totalSupply: string
+    investorShares: string
+    pendingRedemptionShares: string
+    // Investors, largest first, then the vault
+    entries: CapTableEntry[]
+}
+
+export interface CapTableOptions {
+    // Block to build the cap table at, defaults to the latest block
+    blockNumber?: number
+    // First block to replay, defaults to the proxy's deployment block
+    fromBlock?: number
+}
+
+const JURISDICTIONS: Record<KycType, Jurisdiction> = {
+    [KycType.NON_KYC]: 'NONE',
+    [KycType.US_KYC]: 'US',
+    [KycType.GENERAL_KYC]: 'NON_US'
+}
+
+/**
+ * Rebuilds every ZTLN-P balance at a block by replaying `Transfer` logs, and joins each holder
+ * with its KycManager status at that block. The KycManager is the one the proxy pointed at
+ * then. Throws if the replayed balances do not sum to `totalSupply`, which happens when
+ * `fromBlock` is after the proxy's deployment block.
+ */
+export async function buildCapTable(
+    provider: Provider,
+    proxyAddress: string,
+    options: CapTableOptions = {}
+): Promise<CapTable> {
+    const blockTag = options.blockNumber ?? (await provider.getBlockNumber())
+    const fromBlock =
+        options.fromBlock ?? (await findDeploymentBlock(provider, proxyAddress, blockTag))
+    const proxy = getAddress(proxyAddress)
+    const ztlnPrime = ZTLNPrime__factory.connect(proxy, provider)
+    const overrides = { blockTag }
+
+    const transfers = await queryInChunks(
+        (from, to) => ztlnPrime.queryFilter(ztlnPrime.filters.Transfer(), from, to),
+        fromBlock,
+        blockTag
+    )
+    const balances = new Map<string, bigint>()
+    for (const { args } of transfers) {
+        const from = getAddress(args.from)
+        const to = getAddress(args.to)
+        if (from !== ZeroAddress) balances.set(from, (balances.get(from) ?? 0n) - args.value)
+        if (to !== ZeroAddress) balances.set(to, (balances.get(to) ?? 0n) + args.value)
+    }
+
+    const totalSupply = await ztlnPrime.totalSupply(overrides)
+    const replayed = [...balances.values()].reduce((sum, balance) => sum + balance, 0n)
+    if (replayed !== totalSupply) {
+        throw new Error(
+            `Replayed balances sum to ${replayed} but totalSupply is ${totalSupply} at block ` +
+                `${blockTag}, replay from the proxy's deployment block`
+        )
+    }
+
+    const kycManagerAddress = getAddress(await ztlnPrime._kycManager(overrides))
+    const kycManager = KycManager__factory.connect(kycManagerAddress, provider)
+
+    const investors: CapTableEntry[] = []
+    for (const [holder, balance] of balances) {
+        if (balance === 0n || holder === proxy) continue
+        const user = await kycManager.getUserInfo(holder, overrides)
+        const kycType = Number(user.kycType) as KycType
+        investors.push({
+            holder,
+            category: 'investor',
+            balance: balance.toString(),
+            kycType: KycType[kycType] as keyof typeof KycType,
+            jurisdiction: JURISDICTIONS[kycType],
+            isBanned: user.isBanned,
+            knownToKycManager: user.exists
+        })
+    }
+    investors.sort((a, b) => {
+        const difference = BigInt(b.balance) - BigInt(a.balance)
+        return difference !== 0n ? (difference > 0n ? 1 : -1) : a.holder.localeCompare(b.holder)
+    })
+
+    const pending = balances.get(proxy) ?? 0n
+    const entries = [...investors]
+    if (pending > 0n) {
+        entries.push({ holder: proxy, category: 'pending-redemption', balance: pending.toString() })
+    }
+
+    const block = await provider.getBlock(blockTag)
+    return {
+        proxy,
+        chainId: (await provider.getNetwork()).chainId.toString(),
+        blockNumber: blockTag,
+        blockTimestamp: new Date(Number(block!.timestamp) * 1000).toISOString(),
+        fromBlock,
+        kycManager: kycManagerAddress,
+        totalSupply: totalSupply.toString(),
+        investorShares: (totalSupply - pending).toString(),
+        pendingRedemptionShares: pending.toString(),
+        entries
+    }
+}
@@ -0,0 +1,222 @@
+import { concat, ContractTransactionResponse, formatUnits, parseUnits, Provider } from 'ethers'
+import fs from 'fs'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+
+import { networkForChain } from '../../network_config'
+import { ZTLN_SALT } from './deploy'
+
+// Priority fee assumed when the RPC cannot suggest one
+const DEFAULT_PRIORITY_FEE = parseUnits('1', 'gwei')
+
+/**
+ * Gas used by each step of a ZTLN-P deployment and of a later upgrade, measured by running them
+ * on the in-process Hardhat network. The proxy is measured with the real `create(salt, bytecode)`
+ * calldata, i.e. the ERC1967Proxy creation code with the encoded `initialize` call.
+ */
+export interface DeploymentGas {
+    kycManager: bigint
+    implementation: bigint
+    proxy: bigint
+    // Deploying a new implementation plus `upgradeToAndCall`
+    upgrade: bigint
+    // KycManager, implementation and proxy
+    deployment: bigint
+}
+
+export interface GasSimulationOptions {
+    // initialize arguments, default to the local signer; only their encoding affects the gas
+    owner?: string
+    operator?: string
+    custodian?: string
+    salt?: string
+}
+
+/**
+ * EIP-1559 fees of a network: the expected price is the latest base fee plus the suggested
+ * priority fee, the maximum is what a wallet sets as maxFeePerGas (twice the base fee plus the
+ * priority fee). Chains without a base fee are priced at their legacy gas price.
+ */
+export interface FeeQuote {
+    blockNumber: number
+    eip1559: boolean
+    baseFeePerGas?: bigint
+    priorityFeePerGas?: bigint
+    expectedGasPrice: bigint
+    maxGasPrice: bigint
+}
+
+export interface CostLine {
+    gas: bigint
+    expected: bigint
+    max: bigint
+    expectedUsd?: number
+    maxUsd?: number
+}
+
+export interface NetworkCost {
+    network: string
+    chainId: number
+    token: string
+    // USD price of the native token, when known
+    tokenUsd?: number
+    fees: FeeQuote
+    costs: Record<keyof DeploymentGas, CostLine>
+}
+
+/**
+ * Reads native token USD prices from a JSON file keyed by token symbol, e.g.
+ * `{ "ETH": 3500, "POL": 0.45, "BERA": 6.1 }`.
+ */
+export function loadTokenPrices(file?: string): Record<string, number> {
+    if (!file) return {}
+    const prices = JSON.parse(fs.readFileSync(file, 'utf8'))
+    if (typeof prices !== 'object' || prices === null || Array.isArray(prices)) {
+        throw new Error(`${file} must map token symbols to USD prices`)
+    }
+    const errors = Object.entries(prices)
+        .filter(([, price]) => typeof price !== 'number' || !(price > 0))
+        .map(([token]) => `${token}: expected a positive USD price`)
+    if (errors.length) throw new Error(`Invalid token prices ${file}:\n${errors.join('\n')}`)
+    return prices
+}
+
+/**
+ * Runs the deployment and an upgrade on the in-process Hardhat network and returns the gas each
+ * step used, which is the same on every EVM chain; the L1 data fee that rollups charge on top
+ * is not included. The network is reverted afterwards.
+ */
+export async function simulateDeploymentGas(
+    hre: HardhatRuntimeEnvironment,
+    options: GasSimulationOptions = {}
+): Promise<DeploymentGas> {
+    if (hre.network.name !== 'hardhat') {
+        throw new Error('Gas is simulated on the in-process hardhat network, use --network hardhat')
+    }
+    const { ethers } = hre
+    const [signer] = await ethers.getSigners()
+    const snapshot = await hre.network.provider.request({ method: 'evm_snapshot' })
+    try {
+        const gasUsed = async (tx: ContractTransactionResponse | null) =>
+            (await tx!.wait())!.gasUsed
+
+        const factory = await ethers.deployContract('Create3Factory')
+        const kycManager = await ethers.deployContract('KycManager', [true])
+        const implementation = await ethers.deployContract('ZTLNPrime')
+
+        const ZTLNPrimeFactory = await ethers.getContractFactory('ZTLNPrime')
+        const ERC1967ProxyFactory = await ethers.getContractFactory('ERC1967Proxy')
+        const initData = ZTLNPrimeFactory.interface.encodeFunctionData('initialize', [
+            options.owner ?? signer.address,
+            options.operator ?? signer.address,
+            options.custodian ?? signer.address,
+            await kycManager.getAddress()
+        ])
+        const creationCode = concat([
+            ERC1967ProxyFactory.bytecode,
+            ERC1967ProxyFactory.interface.encodeDeploy([
+                await implementation.getAddress(),
+                initData
+            ])
+        ])
+        const salt = options.salt ?? ZTLN_SALT
+        const proxyAddress = await factory.addressOf(salt)
+        const proxy = await gasUsed(await factory.create(salt, creationCode))
+
+        // The upgrade is sent by the owner, who is impersonated when it is not the local signer
+        const owner = options.owner ?? signer.address
+        if (owner !== signer.address) {
+            await hre.network.provider.request({
+                method: 'hardhat_impersonateAccount',
+                params: [owner]
+            })
+            await signer.sendTransaction({ to: owner, value: parseUnits('1', 'ether') })
+        }
+        const newImplementation = await ethers.deployContract('ZTLNPrime')
+        const ztlnPrime = await ethers.getContractAt(
+            'ZTLNPrime',
+            proxyAddress,
+            await ethers.getSigner(owner)
+        )
+        const upgradeCall = await gasUsed(
+            await ztlnPrime.upgradeToAndCall(await newImplementation.getAddress(), '0x')
+        )
+
+        const gas = {
+            kycManager: await gasUsed(kycManager.deploymentTransaction()),
+            implementation: await gasUsed(implementation.deploymentTransaction()),
+            proxy,
+            upgrade: (await gasUsed(newImplementation.deploymentTransaction())) + upgradeCall
+        }
+        return { ...gas, deployment: gas.kycManager + gas.implementation + gas.proxy }
+    } finally {
+        await hre.network.provider.request({ method: 'evm_revert', params: [snapshot] })
+    }
+}
+
+/**
+ * Reads the current fees of the network behind `provider`.
+ */
+export async function fetchFeeQuote(provider: Provider): Promise<FeeQuote> {
+    const block = await provider.getBlock('latest')
+    const feeData = await provider.getFeeData()
+    const baseFeePerGas = block?.baseFeePerGas ?? undefined
+    if (baseFeePerGas === undefined) {
+        if (feeData.gasPrice === null)
+            throw new Error('RPC returned neither a base fee nor a gas price')
+        return {
+            blockNumber: block!.number,
+            eip1559: false,
+            expectedGasPrice: feeData.gasPrice,
+            maxGasPrice: feeData.gasPrice
+        }
+    }
+    const priorityFeePerGas = feeData.maxPriorityFeePerGas ?? DEFAULT_PRIORITY_FEE
+    return {
+        blockNumber: block!.number,
+        eip1559: true,
+        baseFeePerGas,
+        priorityFeePerGas,
+        expectedGasPrice: baseFeePerGas + priorityFeePerGas,
+        maxGasPrice: 2n * baseFeePerGas + priorityFeePerGas
+    }
+}
+
+// Converts an amount of native token in wei to USD
+function toUsd(wei: bigint, tokenUsd: number): number {
+    return Number((Number(formatUnits(wei, 'ether')) * tokenUsd).toFixed(2))
+}
+
+/**
+ * Prices the simulated gas at a network's fees and native token price.
+ */
+export function priceDeployment(
+    network: { name: string; chainId: number },
+    gas: DeploymentGas,
+    fees: FeeQuote,
+    prices: Record<string, number>
+): NetworkCost {
+    // Chains outside the network registry, such as hardhat, are assumed to pay in ETH
+    const token = networkForChain(network.chainId)?.nativeToken ?? 'ETH'
+    const tokenUsd = prices[token]
+    const costs = {} as NetworkCost['costs']
+    for (const [step, amount] of Object.entries(gas) as [keyof DeploymentGas, bigint][]) {
+        const expected = amount * fees.expectedGasPrice
+        const max = amount * fees.maxGasPrice
+        costs[step] = {
+            gas: amount,
+            expected,
+            max,
+            ...(tokenUsd !== undefined && {
+                expectedUsd: toUsd(expected, tokenUsd),
+                maxUsd: toUsd(max, tokenUsd)
+            })
+        }
+    }
+    return { network: network.name, chainId: network.chainId, token, tokenUsd, fees, costs }
+}
+
+// Formats a cost in wei as `<amount> <token> ($<USD>)`, leaving out the USD value when unknown
+export function formatCost(wei: bigint, token: string, tokenUsd?: number): string {
+    const amount = `${formatUnits(wei, 'ether')} ${token}`
+    return tokenUsd === undefined ? amount : `${amount} ($${toUsd(wei, tokenUsd).toFixed(2)})`
+}
@@ -0,0 +1,152 @@
+import { Provider } from 'ethers'
+import fs from 'fs'
+import path from 'path'
+
+import { writeJsonAtomic } from './files'
+
+export const DEPLOY_JOURNAL_DIR = path.join(__dirname, '../../deploy-journals')
+
+// In the order ztln:deploy runs them
+export type DeployStepName =
+    | 'create3Factory'
+    | 'usdc'
+    | 'kycManager'
+    | 'implementation'
+    | 'proxy'
+    | 'assertions'
+    | 'registry'
+    | 'verify'
+
+export interface JournalStep {
+    status: 'done' | 'failed'
+    // Contract the step deployed or used
+    address?: string
+    txHash?: string
+    // Constructor or call arguments
+    args?: unknown[]
+    attempts: number
+    // ISO 8601
+    updatedAt: string
+    // Error of the last failed attempt
+    error?: string
+}
+
+export type StepOutput = Pick<JournalStep, 'address' | 'txHash' | 'args'>
+
+/**
+ * Checkpoints of one deployment, written after every step so a rerun with the same parameters
+ * skips what is done and picks up at the step that failed.
+ */
+export interface DeployJournal {
+    chainId: number
+    network: string
+    // Parameters the deployment was started with, a rerun with others is refused
+    params: Record<string, string | boolean | undefined>
+    startedAt: string
+    // Set once every step is done, the next deployment starts a new journal
+    completedAt?: string
+    steps: Partial<Record<DeployStepName, JournalStep>>
+}
+
+// Steps whose address must still hold code when they are skipped
+const CONTRACT_STEPS: DeployStepName[] = [
+    'create3Factory',
+    'usdc',
+    'kycManager',
+    'implementation',
+    'proxy'
+]
+
+// Journal ztln:deploy keeps for a chain unless given another
+export function defaultJournalPath(chainId: number) {
+    return path.join(DEPLOY_JOURNAL_DIR, `chain-${chainId}.json`)
+}
+
+export function loadJournal(file: string): DeployJournal | undefined {
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : undefined
+}
+
+/**
+ * Loads the journal in `file`, or starts a new one when there is none, no file is given or the
+ * last deployment in it completed. Throws if an unfinished journal was started on another chain
+ * or with other parameters.
+ */
+export function openJournal(
+    file: string | undefined,
+    chainId: number,
+    network: string,
+    params: DeployJournal['params']
+): DeployJournal {
+    const fresh = { chainId, network, params, startedAt: new Date().toISOString(), steps: {} }
+    const journal = file ? loadJournal(file) : undefined
+    if (!journal || journal.completedAt) return fresh
+    if (journal.chainId !== chainId) {
+        throw new Error(`${file} is a journal for chain ID ${journal.chainId}, not ${chainId}`)
+    }
+    const changed = Object.keys({ ...journal.params, ...params }).filter(
+        key => journal.params[key] !== params[key]
+    )
+    if (changed.length) {
+        throw new Error(
+            `${file} was started with different ${changed.join(', ')}. ` +
+                'Pass the same parameters to resume it, or another --journal to start over.'
+        )
+    }
+    return journal
+}
+
+export function saveJournal(file: string | undefined, journal: DeployJournal) {
+    if (!file) return
+    writeJsonAtomic(file, journal)
+}
+
+/**
+ * Runs `run` unless the journal has the step done, and checkpoints its outcome. A failure is
+ * recorded with its error and rethrown, so the next run retries from this step.
+ */
+export async function runStep(
+    provider: Provider,
+    file: string | undefined,
+    journal: DeployJournal,
+    name: DeployStepName,
+    run: () => Promise<StepOutput>
+): Promise<JournalStep> {
+    const previous = journal.steps[name]
+    if (previous?.status === 'done') {
+        if (
+            previous.address &&
+            CONTRACT_STEPS.includes(name) &&
+            (await provider.getCode(previous.address)) === '0x'
+        ) {
+            throw new Error(
+                `${file} records ${name} at ${previous.address}, which has no code on ` +
+                    `${journal.network}. Pass another --journal to start over.`
+            )
+        }
+        console.log(`Step ${name} already done, skipping`)
+        return previous
+    }
+
+    const attempts = (previous?.attempts ?? 0) + 1
+    try {
+        const output = await run()
+        const step: JournalStep = {
+            ...output,
+            status: 'done',
+            attempts,
+            updatedAt: new Date().toISOString()
+        }
+        journal.steps[name] = step
+        saveJournal(file, journal)
+        return step
+    } catch (error) {
+        journal.steps[name] = {
+            status: 'failed',
+            attempts,
+            updatedAt: new Date().toISOString(),
+            error: error instanceof Error ? error.message : String(error)
+        }
+        saveJournal(file, journal)
+        throw error
+    }
+}
@@ -0,0 +1,472 @@
+import { concat, id, isAddress } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+
+import { ContractRecord, recordImplementation, updateDeployment } from '../../deployment_config'
+import Create3FactoryModule from '../../ignition/modules/create3_factory'
+import implementation from '../../ignition/modules/implementation'
+import KycManagerModule from '../../ignition/modules/kyc_manager'
+import USDCModule from '../../ignition/modules/usdc'
+import { DeployStepName, openJournal, runStep, saveJournal, StepOutput } from './deploy-journal'
+import { contractRecord, ignitionDeploymentTx } from './registry'
+
+// Salt the ZTLN-P proxy is created with, which fixes its address for a given CREATE3 factory
+export const ZTLN_SALT = id('ZTLN-P')
+
+// What ZTLNPrime.initialize sets the token name and symbol to
+export const ZTLN_NAME = 'Zoth Tokenized Liquid Notes Prime'
+export const ZTLN_SYMBOL = 'ZTLN-P'
+
+// Networks where a missing CREATE3 factory is deployed and contracts are not verified
+export const LOCAL_NETWORKS = ['hardhat', 'localhost']
+
+const CREATE3_FACTORY_ABI = [
+    'function create(bytes32 _salt, bytes calldata _creationCode) external returns (address)',
+    'function addressOf(bytes32 _salt) external view returns (address)',
+    'event ContractDeployed(address indexed deployer, bytes32 indexed salt, address indexed deployedAddress, bytes creationCode)'
+]
+
+export interface DeployOptions {
+    // Receives DEFAULT_ADMIN_ROLE: the Ledger account, or a Safe
+    owner: string
+    operator: string
+    custodian: string
+    // Existing factory, required outside local networks where the bundled one is deployed instead
+    create3Factory?: string
+    // Existing KycManager to use instead of deploying a new one
+    kycManager?: string
+    // Deploy the USDC mock, otherwise `usdc` is recorded if given
+    deployUsdc?: boolean
+    usdc?: string
+    salt?: string
+    verify?: boolean
+    // Confirmations to wait for on each deployment transaction
+    confirmations?: number
+    // Registry file to record the deployment in, nothing is recorded when unset
+    registry?: string
+    // Journal file to checkpoint each step in and resume from, nothing is kept when unset
+    journal?: string
+}
+
+export interface ProxyExpectations {
+    owner: string
+    operator: string
+    custodian: string
+    kycManager: string
+    implementation: string
+}
+
+export interface DeployedContracts {
+    create3Factory: string
+    usdc?: string
+    kycManager: string
+    implementation: string
+    ZTLN_Prime: string
+}
+
+/**
+ * Address the ZTLN-P proxy gets when created through `factory` with `salt`.
+ */
+export async function predictProxyAddress(
+    hre: HardhatRuntimeEnvironment,
+    factory: string,
+    salt: string = ZTLN_SALT
+): Promise<string> {
+    const create3Contract = new hre.ethers.Contract(
+        factory,
+        CREATE3_FACTORY_ABI,
+        hre.ethers.provider
+    )
+    return create3Contract.addressOf(salt)
+}
+
+// Throws so that a failed verification fails the verify step, which a rerun retries
+async function verifyContract(
+    hre: HardhatRuntimeEnvironment,
+    address: string,
+    contract: string,
+    constructorArguments: any[] = []
+) {
+    await hre.run('verify:verify', {
+        address,
+        contract,
+        constructorArguments
+    })
+    console.log(`Verified ${contract} at ${address}`)
+}
+
+/**
+ * Checks a freshly initialized proxy against what it was initialized with: roles, custodian,
+ * KycManager, name, symbol and the implementation it points at. Returns the failed checks.
+ */
+export async function assertProxyInitialized(
+    hre: HardhatRuntimeEnvironment,
+    proxy: string,
+    expected: ProxyExpectations
+): Promise<string[]> {
+    const ztlnPrime = await hre.ethers.getContractAt('ZTLNPrime', proxy)
+    const failures: string[] = []
+    const check = (label: string, actual: string, wanted: string) => {
+        if (actual.toLowerCase() !== wanted.toLowerCase()) {
+            failures.push(`${label} is ${actual}, expected ${wanted}`)
+        }
+    }
+
+    const roles = [
+        ['DEFAULT_ADMIN_ROLE', await ztlnPrime.DEFAULT_ADMIN_ROLE(), expected.owner],
+        ['OPERATOR_ROLE', await ztlnPrime.OPERATOR_ROLE(), expected.operator]
+    ] as const
+    for (const [name, role, account] of roles) {
+        if (!(await ztlnPrime.hasRole(role, account))) failures.push(`${account} lacks ${name}`)
+    }
+    check('_custodian', await ztlnPrime._custodian(), expected.custodian)
+    check('_kycManager', await ztlnPrime._kycManager(), expected.kycManager)
+    check('name', await ztlnPrime.name(), ZTLN_NAME)
+    check('symbol', await ztlnPrime.symbol(), ZTLN_SYMBOL)
+    check(
+        'Implementation',
+        await hre.upgrades.erc1967.getImplementationAddress(proxy),
+        expected.implementation
+    )
+    return failures
+}
+
+/**
+ * Deploys the KycManager and ZTLNPrime implementation with Ignition, then creates the
+ * ERC1967Proxy through the CREATE3 factory with the ZTLN-P salt, so the proxy address only
+ * depends on the factory. On local networks the bundled Create3Factory is deployed first when no
+ * factory is given, which keeps local addresses deterministic on a fresh chain.
+ *
+ * Each step is checkpointed in `options.journal` (see deploy-journal.ts). Run again with the same
+ * options after a failure, the deployment resumes at the failed step and reuses the contracts
+ * already deployed.
+ */
+export async function deployZtln(
+    hre: HardhatRuntimeEnvironment,
+    options: DeployOptions
+): Promise<DeployedContracts> {
+    const { ethers } = hre
+    const NETWORK = hre.network.name
+    const isLocal = LOCAL_NETWORKS.includes(NETWORK)
+    const ignitionOptions = options.confirmations
+        ? { config: { requiredConfirmations: options.confirmations } }
+        : {}
+    // localhost has no chain ID configured, so it is read from the node
+    const chainId =
+        hre.network.config.chainId ??
+        (isLocal ? Number((await ethers.provider.getNetwork()).chainId) : undefined)
+    if (!chainId) {
+        throw new Error('Chain ID not found in network config')
+    }
+    // The in-process network keeps no journal, and one left by a localhost node shares its chain ID
+    const deploymentTx = (futureId: string) =>
+        NETWORK === 'hardhat' ? undefined : ignitionDeploymentTx(chainId, futureId)
+
+    const [deployer] = await ethers.getSigners()
+    const deployerAddress = await deployer.getAddress()
+    const salt = options.salt ?? ZTLN_SALT
+
+    console.log('--------Deploying Contracts--------')
+    console.log('Network:', NETWORK)
+    console.log('Chain ID:', chainId)
+    console.log('Deployer Address:', deployerAddress)
+    console.log(
+        'Deployer Account balance:',
+        (await deployer.provider.getBalance(deployerAddress)).toString()
+    )
+
+    const journal = openJournal(options.journal, chainId, NETWORK, {
+        owner: options.owner,
+        operator: options.operator,
+        custodian: options.custodian,
+        create3Factory: options.create3Factory,
+        kycManager: options.kycManager,
+        deployUsdc: options.deployUsdc,
+        usdc: options.usdc,
+        salt
+    })
+    if (options.journal) console.log('Deployment Journal:', options.journal)
+    const step = (name: DeployStepName, run: () => Promise<StepOutput>) =>
+        runStep(ethers.provider, options.journal, journal, name, run)
+
+    const { address: create3FactoryAddress } = await step('create3Factory', async () => {
+        if (options.create3Factory) {
+            console.log('\n\n Verifying Create3Factory...')
+            const create3Code = await ethers.provider.getCode(options.create3Factory)
+            if (create3Code === '0x') {
+                throw new Error('Create3Factory not deployed at specified address')
+            }
+            return { address: options.create3Factory }
+        }
+        if (!isLocal) throw new Error(`A CREATE3 factory address is required on ${NETWORK}`)
+        console.log('\nDeploying bundled Create3Factory...')
+        const { create3Factory } = await hre.ignition.deploy(Create3FactoryModule, ignitionOptions)
+        return {
+            address: await create3Factory.getAddress(),
+            txHash: deploymentTx('Create3Factory#create3Factory')
+        }
+    })
+    console.log('Create3Factory Address:', create3FactoryAddress)
+
+    let usdc = options.usdc
+    if (options.deployUsdc) {
+        const usdcStep = await step('usdc', async () => {
+            console.log('\nDeploying USDC mock...')
+            const usdcDeployment = await hre.ignition.deploy(USDCModule, ignitionOptions)
+            return {
+                address: await usdcDeployment.usdc.getAddress(),
+                txHash: deploymentTx('USDC#usdc')
+            }
+        })
+        usdc = usdcStep.address
+        console.log('USDC deployed to:', usdc)
+    }
+
+    // Deploy KycManager if needed
+    let kycManager = options.kycManager
+    if (!kycManager) {
+        const kycStep = await step('kycManager', async () => {
+            console.log('\nDeploying KYC Manager...')
+            const kycDeployment = await hre.ignition.deploy(KycManagerModule, ignitionOptions)
+            return {
+                address: await kycDeployment.kyc_manager.getAddress(),
+                txHash: deploymentTx('KYCManager#kyc_manager'),
+                args: [true]
+            }
+        })
+        kycManager = kycStep.address!
+        console.log('KycManager deployed to:', kycManager)
+    } else {
+        console.log('Using existing KycManager at:', kycManager)
+    }
+
+    // Deploy ZTLN Implementation
+    const implementationStep = await step('implementation', async () => {
+        console.log('\nDeploying ZTLN Implementation...')
+        const ztlnDeployment = await hre.ignition.deploy(implementation, ignitionOptions)
+        return {
+            address: await ztlnDeployment.implementation.getAddress(),
+            txHash: deploymentTx('Implementation#implementation')
+        }
+    })
+    const implementationAddress = implementationStep.address!
+    console.log('ZTLNPrime Implementation deployed to:', implementationAddress)
+
+    // Create ZTLNPrime initialization data. With a Safe as owner later admin calls go through
+    // Safe proposals
+    console.log('\nZTLNPrime admin:', options.owner)
+    const ZTLNPrimeFactory = await ethers.getContractFactory('ZTLNPrime')
+    const initData = ZTLNPrimeFactory.interface.encodeFunctionData('initialize', [
+        options.owner,
+        options.operator,
+        options.custodian,
+        kycManager
+    ])
+
+    // For UUPS, deploy the implementation and create ERC1967Proxy
+    const ERC1967ProxyFactory = await ethers.getContractFactory('ERC1967Proxy')
+    const proxyConstructorArgs = [implementationAddress, initData]
+    const fullBytecode = concat([
+        ERC1967ProxyFactory.bytecode,
+        ERC1967ProxyFactory.interface.encodeDeploy(proxyConstructorArgs)
+    ])
+
+    // Get Create3 factory instance
+    const create3Contract = new ethers.Contract(
+        create3FactoryAddress!,
+        CREATE3_FACTORY_ABI,
+        deployer
+    )
+
+    const proxyStep = await step('proxy', async () => {
+        console.log('Getting deterministic address...')
+        const deterministicAddress: string = await create3Contract.addressOf(salt)
+        console.log('Calculated ZTLN Prime address:', deterministicAddress)
+
+        // Check if already deployed
+        const existingCode = await ethers.provider.getCode(deterministicAddress)
+        if (existingCode !== '0x') {
+            console.log('Contract already deployed at deterministic address')
+            return { address: deterministicAddress }
+        }
+        console.log('Deploying proxy via Create3...')
+        const tx = await create3Contract.create(salt, fullBytecode)
+        console.log('Create3 deployment transaction sent:', tx.hash)
+
+        await tx.wait(options.confirmations)
+        console.log('Create3 deployment transaction confirmed')
+        console.log('ZTLNPrime Proxy deployed to:', deterministicAddress)
+
+        const deployedCode = await ethers.provider.getCode(deterministicAddress)
+        if (deployedCode === '0x') {
+            throw new Error('Proxy deployment verification failed')
+        }
+        return { address: deterministicAddress, txHash: tx.hash, args: proxyConstructorArgs }
+    })
+    const deterministicAddress = proxyStep.address!
+    // Unset when the proxy already existed
+    const proxyTxHash = proxyStep.txHash
+    // A proxy behind this deployment's implementation was created by it, also when an earlier run
+    // stopped after sending the proxy transaction but before journaling it. One behind another
+    // implementation was initialized by an earlier deployment.
+    const proxyImplementation =
+        await hre.upgrades.erc1967.getImplementationAddress(deterministicAddress)
+    const createdHere =
+        proxyTxHash !== undefined ||
+        proxyImplementation.toLowerCase() === implementationAddress.toLowerCase()
+
+    if (createdHere) {
+        await step('assertions', async () => {
+            console.log('\nChecking the initialized proxy...')
+            const failures = await assertProxyInitialized(hre, deterministicAddress, {
+                owner: options.owner,
+                operator: options.operator,
+                custodian: options.custodian,
+                kycManager: kycManager!,
+                implementation: implementationAddress
+            })
+            if (failures.length) {
+                throw new Error(
+                    `Post-deploy assertions failed on ${deterministicAddress}:\n` +
+                        failures.map(failure => `  ${failure}`).join('\n')
+                )
+            }
+            console.log('Roles, custodian, KycManager, name, symbol and implementation are set')
+            return {}
+        })
+    } else {
+        console.log('Proxy existed before this deployment, skipping post-deploy assertions')
+    }
+
+    const deployedContracts: DeployedContracts = {
+        create3Factory: create3FactoryAddress!,
+        usdc,
+        kycManager,
+        implementation: implementationAddress,
+        ZTLN_Prime: deterministicAddress
+    }
+
+    if (options.registry) {
+        const registry = options.registry
+        await step('registry', async () => {
+            // Record everything deployed in the deployment registry
+            const provider = ethers.provider
+            const kycManagerRecord: ContractRecord = options.kycManager
+                ? { address: kycManager }
+                : await contractRecord(provider, kycManager, journal.steps.kycManager?.txHash)
+            const usdcRecord =
+                usdc && isAddress(usdc)
+                    ? await contractRecord(provider, usdc, journal.steps.usdc?.txHash)
+                    : undefined
+            const implementationRecord = await contractRecord(
+                provider,
+                implementationAddress,
+                implementationStep.txHash
+            )
+            const proxyRecord = await contractRecord(provider, deterministicAddress, proxyTxHash)
+            // A proxy that already existed may point at an earlier implementation
+            const activeImplementation =
+                await hre.upgrades.erc1967.getImplementationAddress(deterministicAddress)
+
+            updateDeployment(
+                chainId,
+                NETWORK,
+                deployment => ({
+                    ...deployment,
+                    deployer: deployerAddress,
+                    usdc: usdcRecord ?? deployment.usdc,
+                    kycManager: options.kycManager
+                        ? (deployment.kycManager ?? kycManagerRecord)
+                        : kycManagerRecord,
+                    roles: createdHere
+                        ? {
+                              DEFAULT_ADMIN_ROLE: [options.owner],
+                              OPERATOR_ROLE: [options.operator]
+                          }
+                        : deployment.roles,
+                    // Keep the original record when the proxy was already deployed
+                    proxy:
+                        createdHere || deployment.proxy?.address !== deterministicAddress
+                            ? {
+                                  ...proxyRecord,
+                                  create3Salt: salt,
+                                  create3Factory: create3FactoryAddress
+                              }
+                            : deployment.proxy
+                }),
+                registry
+            )
+            recordImplementation(
+                chainId,
+                NETWORK,
+                {
+                    ...implementationRecord,
+                    ...(activeImplementation.toLowerCase() ===
+                    implementationRecord.address.toLowerCase()
+                        ? {
+                              status: 'active',
+                              activatedTxHash: proxyRecord.txHash,
+                              activatedBlockNumber: proxyRecord.blockNumber,
+                              activatedAt: proxyRecord.deployedAt
+                          }
+                        : { status: 'proposed' })
+                },
+                registry
+            )
+            console.log(`Updated deployment registry for chain ${chainId}`)
+            return { args: [registry] }
+        })
+    }
+
+    // Log deployment summary
+    console.log('\nDeployed Contracts Summary:')
+    console.log('==========================')
+    Object.entries(deployedContracts).forEach(([name, address]) => {
+        if (address) {
+            console.log(`${name}: ${address}`)
+        }
+    })
+
+    // Verify contracts if not on a local network. Last, so that a failure leaves only this step
+    // to retry
+    if (options.verify && !isLocal) {
+        await step('verify', async () => {
+            console.log('\nVerifying contracts...')
+            const contracts: [string, string, unknown[]][] = [
+                [implementationAddress, 'contracts/v3/ZTLNPrime.sol:ZTLNPrime', []]
+            ]
+            if (journal.steps.kycManager) {
+                contracts.unshift([kycManager, 'contracts/KycManager.sol:KycManager', [true]])
+            }
+            // A proxy created by an earlier deployment was verified with its own arguments
+            if (proxyStep.args) {
+                contracts.push([
+                    deterministicAddress,
+                    '@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol:ERC1967Proxy',
+                    proxyStep.args
+                ])
+            }
+
+            const failed: string[] = []
+            for (const [address, contract, args] of contracts) {
+                try {
+                    await verifyContract(hre, address, contract, args)
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error)
+                    console.error(`Error verifying ${contract} at ${address}:`, message)
+                    failed.push(contract)
+                }
+            }
+            if (failed.length) {
+                throw new Error(
+                    `Verification of ${failed.join(', ')} failed, the deployment is complete ` +
+                        'otherwise. Run it again with the same journal to retry verification.'
+                )
+            }
+            return { args: contracts.map(([address]) => address) }
+        })
+    }
+
+    journal.completedAt = new Date().toISOString()
+    saveJournal(options.journal, journal)
+    return deployedContracts
+}
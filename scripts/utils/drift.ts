@@ -0,0 +1,189 @@
+import { getAddress, keccak256, Provider } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+
+import { ChainDeployment, ContractRecord, currentImplementation } from '../../deployment_config'
+import { ZTLNPrime__factory } from '../../typechain-types'
+import { findDeploymentBlock } from './logs'
+import { findRoleMembers, IMPLEMENTATION_SLOT, RoleName } from './snapshot'
+
+export interface DriftCheck {
+    name: string
+    passed: boolean
+    detail: string
+}
+
+// Outcome of deployments:verify for one chain in the registry
+export interface ChainDriftResult {
+    chainId: number
+    network: string
+    result: 'PASS' | 'FAIL' | 'SKIP'
+    checks: DriftCheck[]
+}
+
+/**
+ * Runtime bytecode of a locally compiled contract, with the byte ranges of its immutables, which
+ * are only filled in at deployment.
+ */
+export interface LocalBytecode {
+    bytecode: string
+    immutables: { start: number; length: number }[]
+}
+
+export interface DeploymentArtifacts {
+    ZTLNPrime: LocalBytecode
+    KycManager: LocalBytecode
+}
+
+export async function localBytecode(
+    hre: HardhatRuntimeEnvironment,
+    fullyQualifiedName: string
+): Promise<LocalBytecode> {
+    const { sourceName, contractName, deployedBytecode } =
+        await hre.artifacts.readArtifact(fullyQualifiedName)
+    const buildInfo = await hre.artifacts.getBuildInfo(fullyQualifiedName)
+    const references =
+        buildInfo?.output.contracts[sourceName][contractName].evm.deployedBytecode
+            .immutableReferences ?? {}
+    return { bytecode: deployedBytecode, immutables: Object.values(references).flat() }
+}
+
+/**
+ * Drops the CBOR metadata solc appends to runtime code. Its last two bytes give the metadata
+ * length, and the IPFS hash in it changes with source paths and comments.
+ */
+export function stripMetadata(code: string): string {
+    const hex = code.toLowerCase()
+    const end = hex.length - (parseInt(hex.slice(-4), 16) + 2) * 2
+    // A CBOR map starts with 0xa0 to 0xbf
+    return end >= 2 && hex[end] === 'a' ? hex.slice(0, end) : hex
+}
+
+/**
+ * Compares on-chain runtime code with the local build, ignoring the immutable ranges and the
+ * compiler metadata.
+ */
+export function bytecodeMatches(onChain: string, local: LocalBytecode): boolean {
+    const mask = (code: string) => {
+        let masked = code.toLowerCase()
+        for (const { start, length } of local.immutables) {
+            // Two hex characters per byte, after the 0x prefix
+            const from = 2 + start * 2
+            masked =
+                masked.slice(0, from) + '0'.repeat(length * 2) + masked.slice(from + length * 2)
+        }
+        return stripMetadata(masked)
+    }
+    return mask(onChain) === mask(local.bytecode)
+}
+
+/**
+ * Checks a chain's live state against its registry entry: the recorded contracts exist, the
+ * EIP-1967 slot points at the active implementation, the implementation and KycManager match the
+ * local build, `_kycManager` is the recorded KycManager and the role members are the expected ones.
+ * A registry entry without roles fails the roles check, since role drift would go unnoticed.
+ */
+export async function checkDeployment(
+    provider: Provider,
+    deployment: ChainDeployment,
+    artifacts: DeploymentArtifacts
+): Promise<DriftCheck[]> {
+    const checks: DriftCheck[] = []
+    const check = (name: string, passed: boolean, detail: string) =>
+        checks.push({ name, passed, detail })
+
+    const chainId = Number((await provider.getNetwork()).chainId)
+    check('chain id', chainId === deployment.chainId, `RPC reports chain ${chainId}`)
+    if (chainId !== deployment.chainId || !deployment.proxy) return checks
+
+    const code: Record<string, string> = {}
+    const codeExists = async (name: string, record: ContractRecord) => {
+        code[name] = await provider.getCode(record.address)
+        check(
+            `${name} code`,
+            code[name] !== '0x',
+            code[name] === '0x' ? `no code at ${record.address}` : record.address
+        )
+        if (code[name] !== '0x' && record.bytecodeHash) {
+            const hash = keccak256(code[name])
+            check(
+                `${name} bytecode hash`,
+                hash === record.bytecodeHash,
+                hash === record.bytecodeHash ? hash : `${hash}, recorded ${record.bytecodeHash}`
+            )
+        }
+        return code[name] !== '0x'
+    }
+
+    const { proxy } = deployment
+    if (!(await codeExists('proxy', proxy))) return checks
+
+    const slot = await provider.getStorage(proxy.address, IMPLEMENTATION_SLOT)
+    const liveImplementation = getAddress('0x' + slot.slice(-40))
+    const recorded = currentImplementation(deployment)
+    const recordedImplementation = recorded ? getAddress(recorded.address) : 'none'
+    check(
+        'implementation slot',
+        liveImplementation === recordedImplementation,
+        liveImplementation === recordedImplementation
+            ? liveImplementation
+            : `${liveImplementation}, recorded ${recordedImplementation}`
+    )
+    if (recorded && (await codeExists('implementation', recorded))) {
+        const matches = bytecodeMatches(code.implementation, artifacts.ZTLNPrime)
+        check(
+            'implementation bytecode',
+            matches,
+            `${matches ? 'matches' : 'differs from'} the local ZTLNPrime build`
+        )
+    }
+
+    const ztlnPrime = ZTLNPrime__factory.connect(proxy.address, provider)
+    const liveKycManager = getAddress(await ztlnPrime._kycManager())
+    const recordedKycManager = deployment.kycManager
+        ? getAddress(deployment.kycManager.address)
+        : 'none'
+    check(
+        '_kycManager',
+        liveKycManager === recordedKycManager,
+        liveKycManager === recordedKycManager
+            ? liveKycManager
+            : `${liveKycManager}, recorded ${recordedKycManager}`
+    )
+    if (deployment.kycManager && (await codeExists('kycManager', deployment.kycManager))) {
+        const matches = bytecodeMatches(code.kycManager, artifacts.KycManager)
+        check(
+            'kycManager bytecode',
+            matches,
+            `${matches ? 'matches' : 'differs from'} the local KycManager build`
+        )
+    }
+
+    if (deployment.roles) {
+        const blockTag = await provider.getBlockNumber()
+        const fromBlock =
+            proxy.blockNumber ?? (await findDeploymentBlock(provider, proxy.address, blockTag))
+        const members = await findRoleMembers(provider, proxy.address, fromBlock, blockTag)
+        for (const [role, expected] of Object.entries(deployment.roles)) {
+            const live = members[role as RoleName]
+            if (!live) {
+                check(`roles.${role}`, false, 'not a ZTLNPrime role')
+                continue
+            }
+            const want = new Set(expected.map(address => getAddress(address)))
+            const missing = [...want].filter(address => !live.includes(address))
+            const extra = live.filter(address => !want.has(address))
+            check(
+                `roles.${role}`,
+                !missing.length && !extra.length,
+                [
+                    ...missing.map(address => `missing ${address}`),
+                    ...extra.map(address => `unexpected ${address}`)
+                ].join(', ') || live.join(', ')
+            )
+        }
+    } else {
+        check('roles', false, 'not recorded in the registry, so role members cannot be compared')
+    }
+
+    return checks
+}
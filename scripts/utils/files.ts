@@ -0,0 +1,15 @@
+import fs from 'fs'
+import path from 'path'
+
+// Only fs and path are imported here: deployment_config.ts uses this while the Hardhat config loads.
+
+/**
+ * Writes `value` as JSON to `file`, creating its directory. The JSON goes to a temporary file that
+ * is renamed over `file`, so an interrupted write never leaves a truncated file behind.
+ */
+export function writeJsonAtomic(file: string, value: unknown) {
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    const tmp = `${file}.${process.pid}.tmp`
+    fs.writeFileSync(tmp, JSON.stringify(value, null, 4) + '\n')
+    fs.renameSync(tmp, file)
+}
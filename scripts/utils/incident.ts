@@ -0,0 +1,326 @@
+import { getAddress, isAddress, Provider, Signer } from 'ethers'
+import fs from 'fs'
+import path from 'path'
+
+import { IERC20__factory, KycManager__factory, ZTLNPrime__factory } from '../../typechain-types'
+import { BatchTransaction, encodeCall } from './safe'
+
+export const INCIDENT_DIR = path.join(__dirname, '../../incidents')
+
+/**
+ * Emergency actions against a ZTLNPrime proxy, read from JSON. A response playbook pauses,
+ * sweeps, revokes and bans; the recovery playbook written after it unpauses, grants and unbans.
+ */
+export interface Playbook {
+    name: string
+    pause?: boolean
+    unpause?: boolean
+    // Assets to move to the custodian with transferAllToCustodian
+    sweep?: string[]
+    // Accounts losing OPERATOR_ROLE on ZTLNPrime and the KycManager
+    revokeOperators?: string[]
+    // Accounts given OPERATOR_ROLE on ZTLNPrime and on the KycManager respectively
+    grantOperators?: string[]
+    grantKycOperators?: string[]
+    ban?: string[]
+    unban?: string[]
+}
+
+export type IncidentAction =
+    | 'pause'
+    | 'revokeOperator'
+    | 'sweep'
+    | 'ban'
+    | 'grantOperator'
+    | 'unban'
+    | 'unpause'
+
+export type IncidentContract = 'ztlnPrime' | 'kycManager'
+
+export interface IncidentStep {
+    action: IncidentAction
+    contract: IncidentContract
+    // Asset swept or accounts whose role or ban changes, empty for pause and unpause
+    targets: string[]
+    description: string
+    transaction: BatchTransaction
+}
+
+export interface IncidentPlan {
+    proxy: string
+    kycManager: string
+    steps: IncidentStep[]
+    // Actions the chain already reflects
+    skipped: {
+        action: IncidentAction
+        contract: IncidentContract
+        target?: string
+        reason: string
+    }[]
+}
+
+export type IncidentStatus = 'sent' | 'simulated' | 'proposed' | 'failed' | 'skipped'
+
+export interface IncidentLogEntry {
+    // ISO 8601
+    time: string
+    playbook: string
+    network: string
+    chainId: number
+    action: IncidentAction
+    contract: IncidentContract
+    targets: string[]
+    status: IncidentStatus
+    txHash?: string
+    blockNumber?: number
+    detail?: string
+}
+
+export interface ExecuteOptions {
+    logFile: string
+    network: string
+    chainId: number
+    confirmations?: number
+    // Steps run on a local fork are logged as simulated
+    simulated?: boolean
+}
+
+const LIST_KEYS = [
+    'sweep',
+    'revokeOperators',
+    'grantOperators',
+    'grantKycOperators',
+    'ban',
+    'unban'
+] as const
+const FLAG_KEYS = ['pause', 'unpause'] as const
+
+/**
+ * Reads and validates a playbook, e.g. `{ "name": "operator-key-leak", "pause": true,
+ * "sweep": ["0x..."], "revokeOperators": ["0x..."] }`. The name defaults to the file name.
+ */
+export function loadPlaybook(file: string): Playbook {
+    const raw = JSON.parse(fs.readFileSync(file, 'utf8'))
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new Error(`${file} must be a JSON object of playbook steps`)
+    }
+
+    const errors: string[] = []
+    const playbook: Playbook = { name: path.basename(file, '.json') }
+    for (const [key, value] of Object.entries<unknown>(raw)) {
+        if (key === 'name') {
+            if (typeof value === 'string' && /^[\w-]+$/.test(value)) playbook.name = value
+            else errors.push(`${key}: expected letters, digits, - or _`)
+        } else if (FLAG_KEYS.includes(key as (typeof FLAG_KEYS)[number])) {
+            if (typeof value === 'boolean') playbook[key as (typeof FLAG_KEYS)[number]] = value
+            else errors.push(`${key}: expected true or false`)
+        } else if (LIST_KEYS.includes(key as (typeof LIST_KEYS)[number])) {
+            if (!Array.isArray(value)) {
+                errors.push(`${key}: expected a list of addresses`)
+                continue
+            }
+            value.forEach((address, index) => {
+                if (typeof address !== 'string' || !isAddress(address)) {
+                    errors.push(`${key}[${index}]: invalid address`)
+                }
+            })
+            playbook[key as (typeof LIST_KEYS)[number]] = value.filter(isAddress).map(getAddress)
+        } else {
+            errors.push(`${key}: unknown step`)
+        }
+    }
+    if (playbook.pause && playbook.unpause) errors.push('pause: cannot be combined with unpause')
+    if (errors.length) throw new Error(`Invalid playbook ${file}:\n${errors.join('\n')}`)
+    return playbook
+}
+
+/**
+ * Turns a playbook into the calls it takes against the proxy and its KycManager, in the order
+ * that contains an incident fastest: pause, revoke operators, sweep, ban, then the recovery
+ * steps grant operators, unban and unpause last. Steps the chain already reflects are skipped,
+ * so a playbook can be run again after a partial failure.
+ */
+export async function planPlaybook(
+    provider: Provider,
+    proxyAddress: string,
+    playbook: Playbook
+): Promise<IncidentPlan> {
+    const proxy = getAddress(proxyAddress)
+    const ztlnPrime = ZTLNPrime__factory.connect(proxy, provider)
+    const kycManagerAddress = getAddress(await ztlnPrime._kycManager())
+    const kycManager = KycManager__factory.connect(kycManagerAddress, provider)
+    const contracts = { ztlnPrime, kycManager }
+    const addresses = { ztlnPrime: proxy, kycManager: kycManagerAddress }
+    const plan: IncidentPlan = { proxy, kycManager: kycManagerAddress, steps: [], skipped: [] }
+
+    const step = (
+        action: IncidentAction,
+        contract: IncidentContract,
+        targets: string[],
+        description: string,
+        method: string,
+        args: unknown[]
+    ) =>
+        plan.steps.push({
+            action,
+            contract,
+            targets,
+            description,
+            transaction: encodeCall(
+                addresses[contract],
+                contracts[contract].interface,
+                method,
+                args
+            )
+        })
+    const skip = (
+        action: IncidentAction,
+        contract: IncidentContract,
+        reason: string,
+        target?: string
+    ) => plan.skipped.push({ action, contract, target, reason })
+
+    const paused = await ztlnPrime.paused()
+    if (playbook.pause) {
+        if (paused) skip('pause', 'ztlnPrime', 'already paused')
+        else step('pause', 'ztlnPrime', [], 'Pause ZTLNPrime', 'pause', [])
+    }
+
+    const operatorRole = await ztlnPrime.OPERATOR_ROLE()
+    for (const account of playbook.revokeOperators ?? []) {
+        for (const contract of ['ztlnPrime', 'kycManager'] as const) {
+            if (await contracts[contract].hasRole(operatorRole, account)) {
+                step(
+                    'revokeOperator',
+                    contract,
+                    [account],
+                    `Revoke OPERATOR_ROLE of ${account} on ${contract}`,
+                    'revokeRole',
+                    [operatorRole, account]
+                )
+            } else skip('revokeOperator', contract, 'does not hold OPERATOR_ROLE', account)
+        }
+    }
+
+    for (const asset of playbook.sweep ?? []) {
+        const balance = await IERC20__factory.connect(asset, provider).balanceOf(proxy)
+        if (balance === 0n) skip('sweep', 'ztlnPrime', 'nothing to sweep', asset)
+        else {
+            step(
+                'sweep',
+                'ztlnPrime',
+                [asset],
+                `Sweep ${balance} of ${asset} to the custodian`,
+                'transferAllToCustodian',
+                [asset]
+            )
+        }
+    }
+
+    const ban: string[] = []
+    for (const account of playbook.ban ?? []) {
+        if (await kycManager.isBanned(account)) skip('ban', 'kycManager', 'already banned', account)
+        else ban.push(account)
+    }
+    if (ban.length) {
+        step('ban', 'kycManager', ban, `Ban ${ban.length} account(s)`, 'bulkBan', [ban])
+    }
+
+    for (const [contract, accounts] of [
+        ['ztlnPrime', playbook.grantOperators],
+        ['kycManager', playbook.grantKycOperators]
+    ] as const) {
+        for (const account of accounts ?? []) {
+            if (await contracts[contract].hasRole(operatorRole, account)) {
+                skip('grantOperator', contract, 'already holds OPERATOR_ROLE', account)
+            } else {
+                step(
+                    'grantOperator',
+                    contract,
+                    [account],
+                    `Grant OPERATOR_ROLE to ${account} on ${contract}`,
+                    'grantRole',
+                    [operatorRole, account]
+                )
+            }
+        }
+    }
+
+    const unban: string[] = []
+    for (const account of playbook.unban ?? []) {
+        if (await kycManager.isBanned(account)) unban.push(account)
+        else skip('unban', 'kycManager', 'not banned', account)
+    }
+    if (unban.length) {
+        step('unban', 'kycManager', unban, `Unban ${unban.length} account(s)`, 'bulkUnBan', [unban])
+    }
+
+    if (playbook.unpause) {
+        if (!paused) skip('unpause', 'ztlnPrime', 'not paused')
+        else step('unpause', 'ztlnPrime', [], 'Unpause ZTLNPrime', 'unpause', [])
+    }
+    return plan
+}
+
+/**
+ * Appends an entry to an incident log (JSON lines).
+ */
+export function appendIncidentLog(file: string, entry: IncidentLogEntry) {
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.appendFileSync(file, JSON.stringify(entry) + '\n')
+}
+
+/**
+ * Sends every step from `signer` in order and logs each one with its transaction hash. A failed
+ * step is logged and the rest still run, so one revert does not leave the others undone.
+ */
+export async function executePlan(
+    signer: Signer,
+    playbook: Playbook,
+    plan: IncidentPlan,
+    options: ExecuteOptions
+): Promise<IncidentLogEntry[]> {
+    const entries: IncidentLogEntry[] = []
+    for (const { action, contract, targets, transaction } of plan.steps) {
+        const entry: IncidentLogEntry = {
+            time: new Date().toISOString(),
+            playbook: playbook.name,
+            network: options.network,
+            chainId: options.chainId,
+            action,
+            contract,
+            targets,
+            status: options.simulated ? 'simulated' : 'sent'
+        }
+        try {
+            const tx = await signer.sendTransaction({ to: transaction.to, data: transaction.data })
+            entry.txHash = tx.hash
+            entry.blockNumber = (await tx.wait(options.confirmations))!.blockNumber
+        } catch (error) {
+            entry.status = 'failed'
+            entry.detail = error instanceof Error ? error.message : String(error)
+        }
+        appendIncidentLog(options.logFile, entry)
+        entries.push(entry)
+    }
+    return entries
+}
+
+/**
+ * Playbook undoing the response steps that were carried out: unpause after a pause, grant the
+ * revoked operators back and unban the banned accounts. Review it before running, a compromised
+ * operator usually comes back as a new account.
+ */
+export function recoveryPlaybook(playbook: Playbook, steps: IncidentStep[]): Playbook {
+    const recovery: Playbook = { name: `${playbook.name}-recovery` }
+    const add = (key: 'grantOperators' | 'grantKycOperators' | 'unban', targets: string[]) =>
+        (recovery[key] = [...new Set([...(recovery[key] ?? []), ...targets])])
+    for (const { action, contract, targets } of steps) {
+        if (action === 'pause') recovery.unpause = true
+        else if (action === 'ban') add('unban', targets)
+        else if (action === 'revokeOperator') {
+            add(contract === 'ztlnPrime' ? 'grantOperators' : 'grantKycOperators', targets)
+        }
+    }
+    return recovery
+}
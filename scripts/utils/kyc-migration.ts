@@ -0,0 +1,330 @@
+import { getAddress, Provider, Signer } from 'ethers'
+import fs from 'fs'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import path from 'path'
+
+import { KycType } from '../../sdk/constants'
+import { KycManager, KycManager__factory, ZTLNPrime__factory } from '../../typechain-types'
+import { buildCapTable } from './cap-table'
+import { writeJsonAtomic } from './files'
+import { batchKycChanges, KycAction, KycInstruction, planKycChanges } from './kyc'
+import { findDeploymentBlock, queryInChunks } from './logs'
+import { buildProposal, encodeCall, writeProposal } from './safe'
+
+export const KYC_MIGRATION_DIR = path.join(__dirname, '../../kyc-migrations')
+
+export interface KycRecord {
+    address: string
+    kycType: KycType
+    isBanned: boolean
+    // In the old KycManager's user list; banned-only addresses are not
+    listed: boolean
+    // Holds ZTLN-P
+    holder: boolean
+}
+
+/**
+ * Everything a KycManager knows at a block: its users, the addresses it banned without granting
+ * KYC (which `getAllUserInfo` leaves out and are read from `Banned` logs instead), and every
+ * ZTLN-P holder, known to it or not.
+ */
+export interface KycSnapshot {
+    kycManager: string
+    blockNumber: number
+    isStrict: boolean
+    records: KycRecord[]
+}
+
+export interface MigrationBatch {
+    action: KycAction
+    investors: number
+    txHash: string
+    blockNumber: number
+}
+
+/**
+ * Progress of a migration, kept in kyc-migrations/chain-<chainId>.json so a run that stops on a
+ * failed batch picks up with the same new KycManager.
+ */
+export interface KycMigrationState {
+    chainId: number
+    proxy: string
+    oldKycManager: string
+    newKycManager?: string
+    deployTxHash?: string
+    // Batches sent so far, across runs
+    batches: MigrationBatch[]
+    // Error of the batch the last run stopped on, cleared once the copy completes
+    failed?: string
+    switchTxHash?: string
+    // Safe proposal of the setKycManager call
+    proposal?: string
+}
+
+export interface KycMismatch {
+    address?: string
+    field: 'kycType' | 'isBanned' | 'isStrict'
+    expected: string
+    actual: string
+}
+
+export interface KycMigrationOptions {
+    stateFile: string
+    // First block to replay transfers and bans from, defaults to each contract's deployment block
+    fromBlock?: number
+    // Limits per bulk transaction, as in kyc:bulk
+    maxGas: bigint
+    maxBatchSize: number
+    confirmations?: number
+    // Admin Safe: write setKycManager as a Safe proposal instead of sending it from the signer
+    safeAddress?: string
+}
+
+export interface KycMigrationResult {
+    state: KycMigrationState
+    snapshot?: KycSnapshot
+    // Batches sent by this run
+    sent: MigrationBatch[]
+    // Checked once every batch went through, empty when the new KycManager matches
+    mismatches: KycMismatch[]
+    // The proxy points at the new KycManager
+    switched: boolean
+}
+
+export function loadMigrationState(file: string): KycMigrationState | undefined {
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : undefined
+}
+
+export function saveMigrationState(file: string, state: KycMigrationState) {
+    writeJsonAtomic(file, state)
+}
+
+/**
+ * Reads the KYC state of every user, banned address and ZTLN-P holder of `kycManagerAddress` at
+ * `blockNumber`. Throws like buildCapTable when `fromBlock` is after the proxy's deployment.
+ */
+export async function readKycSnapshot(
+    provider: Provider,
+    kycManagerAddress: string,
+    proxyAddress: string,
+    options: { blockNumber?: number; fromBlock?: number } = {}
+): Promise<KycSnapshot> {
+    const blockTag = options.blockNumber ?? (await provider.getBlockNumber())
+    const overrides = { blockTag }
+    const kycManager = KycManager__factory.connect(kycManagerAddress, provider)
+
+    const records = new Map<string, KycRecord>()
+    for (const { user, kycType, isBanned } of await kycManager.getAllUserInfo(overrides)) {
+        const address = getAddress(user)
+        records.set(address, {
+            address,
+            kycType: Number(kycType) as KycType,
+            isBanned,
+            listed: true,
+            holder: false
+        })
+    }
+
+    const bans = await queryInChunks(
+        (from, to) => kycManager.queryFilter(kycManager.filters.Banned(), from, to),
+        options.fromBlock ?? (await findDeploymentBlock(provider, kycManagerAddress, blockTag)),
+        blockTag
+    )
+    const capTable = await buildCapTable(provider, proxyAddress, {
+        blockNumber: blockTag,
+        fromBlock: options.fromBlock
+    })
+    const holders = capTable.entries
+        .filter(({ category }) => category === 'investor')
+        .map(({ holder }) => holder)
+
+    for (const address of [...bans.map(({ args }) => getAddress(args[0])), ...holders]) {
+        if (records.has(address)) continue
+        const { kycType, isBanned } = await kycManager.getUserInfo(address, overrides)
+        records.set(address, {
+            address,
+            kycType: Number(kycType) as KycType,
+            isBanned,
+            listed: false,
+            holder: false
+        })
+    }
+    holders.forEach(holder => (records.get(holder)!.holder = true))
+
+    return {
+        kycManager: getAddress(kycManagerAddress),
+        blockNumber: blockTag,
+        isStrict: await kycManager.isStrict(overrides),
+        records: [...records.values()]
+    }
+}
+
+/**
+ * Instructions that bring another KycManager to the snapshot's state: a grant or revoke and a
+ * ban or unban per address. planKycChanges drops those the target already matches, which is what
+ * makes a migration resumable.
+ */
+export function migrationInstructions(snapshot: KycSnapshot): KycInstruction[] {
+    return snapshot.records.flatMap(({ address, kycType, isBanned }, index) => {
+        // Position in the snapshot, standing in for the CSV line kyc:bulk reports
+        const line = index + 1
+        return [
+            kycType === KycType.NON_KYC
+                ? { line, investor: address, action: 'revoke' as const }
+                : { line, investor: address, action: 'grant' as const, kycType },
+            { line, investor: address, action: isBanned ? ('ban' as const) : ('unban' as const) }
+        ]
+    })
+}
+
+/**
+ * Compares the KYC type and ban status of every snapshot address, and the strict mode, between
+ * the old and the new KycManager as they are now.
+ */
+export async function verifyKycParity(
+    oldKycManager: KycManager,
+    newKycManager: KycManager,
+    snapshot: KycSnapshot
+): Promise<KycMismatch[]> {
+    const mismatches: KycMismatch[] = []
+    const [expectedStrict, actualStrict] = [
+        await oldKycManager.isStrict(),
+        await newKycManager.isStrict()
+    ]
+    if (expectedStrict !== actualStrict) {
+        mismatches.push({
+            field: 'isStrict',
+            expected: String(expectedStrict),
+            actual: String(actualStrict)
+        })
+    }
+    for (const { address } of snapshot.records) {
+        const expected = await oldKycManager.getUserInfo(address)
+        const actual = await newKycManager.getUserInfo(address)
+        if (expected.kycType !== actual.kycType) {
+            mismatches.push({
+                address,
+                field: 'kycType',
+                expected: KycType[Number(expected.kycType)],
+                actual: KycType[Number(actual.kycType)]
+            })
+        }
+        if (expected.isBanned !== actual.isBanned) {
+            mismatches.push({
+                address,
+                field: 'isBanned',
+                expected: String(expected.isBanned),
+                actual: String(actual.isBanned)
+            })
+        }
+    }
+    return mismatches
+}
+
+/**
+ * Moves a ZTLNPrime proxy to a freshly deployed KycManager without locking anyone out: deploys
+ * it with the old strict mode, copies every user, ban and holder in gas-bounded bulk batches,
+ * checks parity for every address and only then calls `setKycManager` (or proposes it to the
+ * Safe). Progress is saved after every step; a run that stops on a failed batch returns with
+ * `state.failed` set and the next run continues with the same KycManager, copying only what it
+ * does not match yet.
+ */
+export async function runKycMigration(
+    hre: HardhatRuntimeEnvironment,
+    signer: Signer,
+    proxyAddress: string,
+    options: KycMigrationOptions
+): Promise<KycMigrationResult> {
+    const { stateFile, confirmations } = options
+    const provider = signer.provider!
+    const proxy = getAddress(proxyAddress)
+    const ztlnPrime = ZTLNPrime__factory.connect(proxy, signer)
+    const current = getAddress(await ztlnPrime._kycManager())
+    const chainId = Number((await provider.getNetwork()).chainId)
+
+    const state: KycMigrationState = loadMigrationState(stateFile) ?? {
+        chainId,
+        proxy,
+        oldKycManager: current,
+        batches: []
+    }
+    if (state.proxy !== proxy) throw new Error(`${stateFile} is for proxy ${state.proxy}`)
+    const result: KycMigrationResult = { state, sent: [], mismatches: [], switched: false }
+    if (current === state.newKycManager) return { ...result, switched: true }
+    if (current !== state.oldKycManager) {
+        throw new Error(
+            `The proxy now uses KycManager ${current}, not ${state.oldKycManager}. ` +
+                `Remove ${stateFile} to migrate from it.`
+        )
+    }
+
+    const snapshot = await readKycSnapshot(provider, current, proxy, {
+        fromBlock: options.fromBlock
+    })
+    result.snapshot = snapshot
+    const oldKycManager = KycManager__factory.connect(current, provider)
+
+    let newKycManager: KycManager
+    if (state.newKycManager) {
+        newKycManager = KycManager__factory.connect(state.newKycManager, signer)
+    } else {
+        const deployed = await hre.ethers.deployContract('KycManager', [snapshot.isStrict], signer)
+        await deployed.deploymentTransaction()!.wait(confirmations)
+        newKycManager = KycManager__factory.connect(await deployed.getAddress(), signer)
+        state.newKycManager = await newKycManager.getAddress()
+        state.deployTxHash = deployed.deploymentTransaction()!.hash
+        saveMigrationState(stateFile, state)
+    }
+
+    try {
+        if ((await newKycManager.isStrict()) !== snapshot.isStrict) {
+            await (await newKycManager.setStrict(snapshot.isStrict)).wait(confirmations)
+        }
+        const { changes } = await planKycChanges(newKycManager, migrationInstructions(snapshot))
+        const batches = await batchKycChanges(newKycManager, changes, {
+            maxGas: options.maxGas,
+            maxBatchSize: options.maxBatchSize,
+            from: await signer.getAddress()
+        })
+        for (const { action, investors, data } of batches) {
+            const tx = await signer.sendTransaction({ to: state.newKycManager, data })
+            const receipt = await tx.wait(confirmations)
+            const batch = {
+                action,
+                investors: investors.length,
+                txHash: tx.hash,
+                blockNumber: receipt!.blockNumber
+            }
+            state.batches.push(batch)
+            result.sent.push(batch)
+            saveMigrationState(stateFile, state)
+        }
+    } catch (error) {
+        state.failed = error instanceof Error ? error.message : String(error)
+        saveMigrationState(stateFile, state)
+        return result
+    }
+    delete state.failed
+    saveMigrationState(stateFile, state)
+
+    result.mismatches = await verifyKycParity(oldKycManager, newKycManager, snapshot)
+    if (result.mismatches.length) return result
+
+    if (options.safeAddress) {
+        const proposal = await buildProposal(
+            provider,
+            options.safeAddress,
+            `kyc-migration-${chainId}`,
+            `Switch ZTLNPrime from KycManager ${current} to ${state.newKycManager}`,
+            [encodeCall(proxy, ztlnPrime.interface, 'setKycManager', [state.newKycManager])]
+        )
+        state.proposal = writeProposal(proposal)
+    } else {
+        const tx = await ztlnPrime.setKycManager(state.newKycManager)
+        await tx.wait(confirmations)
+        state.switchTxHash = tx.hash
+        result.switched = true
+    }
+    saveMigrationState(stateFile, state)
+    return result
+}
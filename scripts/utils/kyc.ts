@@ -0,0 +1,234 @@
+import { getAddress, isAddress, ZeroAddress } from 'ethers'
+
+import { KycType } from '../../sdk/constants'
+import type { KycManager } from '../../typechain-types'
+
+export type KycAction = 'grant' | 'revoke' | 'ban' | 'unban'
+
+// Order batches are sent in, access given before access taken away. A CSV file names each investor
+// once; only migrationInstructions gives an investor two actions, a KYC one and a ban one.
+const ACTIONS: KycAction[] = ['grant', 'unban', 'revoke', 'ban']
+
+const KYC_TYPES: Record<string, KycType> = {
+    US: KycType.US_KYC,
+    US_KYC: KycType.US_KYC,
+    NON_US: KycType.GENERAL_KYC,
+    'NON-US': KycType.GENERAL_KYC,
+    GENERAL: KycType.GENERAL_KYC,
+    GENERAL_KYC: KycType.GENERAL_KYC,
+    NONE: KycType.NON_KYC,
+    NON_KYC: KycType.NON_KYC
+}
+
+/**
+ * Reads a KYC type written as US, NON_US or NONE (or the enum names), case-insensitively.
+ */
+export function parseKycType(value: string): KycType | undefined {
+    return KYC_TYPES[value.trim().toUpperCase()]
+}
+
+export interface KycInstruction {
+    // Line of the CSV file, for error messages
+    line: number
+    investor: string
+    action: KycAction
+    // Only set for grants
+    kycType?: KycType
+}
+
+export interface ParsedKycFile {
+    instructions: KycInstruction[]
+    errors: string[]
+    warnings: string[]
+}
+
+export interface KycPlan {
+    changes: KycInstruction[]
+    skipped: { instruction: KycInstruction; reason: string }[]
+}
+
+export interface KycBatch {
+    action: KycAction
+    investors: string[]
+    kycTypes?: KycType[]
+    data: string
+    gas: bigint
+}
+
+export interface BatchOptions {
+    // Gas limit a single batch transaction must stay under
+    maxGas: bigint
+    // Upper bound on the number of investors per batch
+    maxBatchSize: number
+    // Account the batches are estimated from, must hold the operator or admin role
+    from: string
+}
+
+/**
+ * Parses a CSV of `address,kycType,action` rows. The header row is optional, `kycType` is US or
+ * NON_US and only required for grants, and action is grant, revoke, ban or unban. Every row is
+ * validated so one run reports all problems in the file.
+ */
+export function parseKycCsv(content: string): ParsedKycFile {
+    const parsed: ParsedKycFile = { instructions: [], errors: [], warnings: [] }
+    const seen = new Map<string, number>()
+
+    content.split(/\r?\n/).forEach((raw, index) => {
+        const line = index + 1
+        const text = raw.trim()
+        if (!text || text.startsWith('#')) return
+
+        const [address = '', kycTypeField = '', actionField = ''] = text
+            .split(',')
+            .map(field => field.trim())
+        if (line === 1 && address.toLowerCase() === 'address') return
+
+        const error = (message: string) => parsed.errors.push(`Line ${line}: ${message}`)
+
+        if (!isAddress(address)) {
+            // getAddress rejects mixed-case addresses with a bad checksum as well as malformed ones
+            error(`invalid address or checksum "${address}"`)
+            return
+        }
+        const investor = getAddress(address)
+        if (investor === ZeroAddress) {
+            error('zero address')
+            return
+        }
+        if (address !== investor) {
+            parsed.warnings.push(`Line ${line}: ${address} is not checksummed, using ${investor}`)
+        }
+
+        const action = actionField.toLowerCase() as KycAction
+        if (!ACTIONS.includes(action)) {
+            error(`unknown action "${actionField}", expected one of ${ACTIONS.join(', ')}`)
+            return
+        }
+
+        let kycType: KycType | undefined
+        if (action === 'grant') {
+            kycType = parseKycType(kycTypeField)
+            if (kycType === undefined || kycType === KycType.NON_KYC) {
+                error(`unknown KYC type "${kycTypeField}", expected US or NON_US`)
+                return
+            }
+        }
+
+        if (seen.has(investor)) {
+            error(`${investor} already appears on line ${seen.get(investor)}`)
+            return
+        }
+        seen.set(investor, line)
+        parsed.instructions.push({ line, investor, action, kycType })
+    })
+
+    return parsed
+}
+
+// Why an instruction would leave the investor's state unchanged, if it would
+function noOpReason(
+    { action, kycType }: KycInstruction,
+    current: { kycType: KycType; isBanned: boolean }
+): string | undefined {
+    if (action === 'grant' && current.kycType === kycType) return `already ${KycType[kycType]}`
+    if (action === 'revoke' && current.kycType === KycType.NON_KYC) return 'not KYCed'
+    if (action === 'ban' && current.isBanned) return 'already banned'
+    if (action === 'unban' && !current.isBanned) return 'not banned'
+    return undefined
+}
+
+/**
+ * Compares the instructions with the KycManager's current state and drops those that would not
+ * change anything. Users are read with `getAllUserInfo`; banned-only addresses are not in that
+ * list, so anything missing is read with `getUserInfo`.
+ */
+export async function planKycChanges(
+    kycManager: KycManager,
+    instructions: KycInstruction[]
+): Promise<KycPlan> {
+    const state = new Map<string, { kycType: KycType; isBanned: boolean }>()
+    for (const { user, kycType, isBanned } of await kycManager.getAllUserInfo()) {
+        state.set(getAddress(user), { kycType: Number(kycType) as KycType, isBanned })
+    }
+
+    const plan: KycPlan = { changes: [], skipped: [] }
+    for (const instruction of instructions) {
+        let current = state.get(instruction.investor)
+        if (!current) {
+            const { kycType, isBanned } = await kycManager.getUserInfo(instruction.investor)
+            current = { kycType: Number(kycType) as KycType, isBanned }
+        }
+
+        const reason = noOpReason(instruction, current)
+        if (reason) plan.skipped.push({ instruction, reason })
+        else plan.changes.push(instruction)
+    }
+    return plan
+}
+
+function encodeBatch(kycManager: KycManager, action: KycAction, changes: KycInstruction[]) {
+    const investors = changes.map(({ investor }) => investor)
+    switch (action) {
+        case 'grant': {
+            const kycTypes = changes.map(({ kycType }) => kycType!)
+            return {
+                investors,
+                kycTypes,
+                data: kycManager.interface.encodeFunctionData('bulkGrantKyc', [investors, kycTypes])
+            }
+        }
+        case 'revoke':
+            return {
+                investors,
+                data: kycManager.interface.encodeFunctionData('bulkRevokeKyc', [investors])
+            }
+        case 'ban':
+            return {
+                investors,
+                data: kycManager.interface.encodeFunctionData('bulkBan', [investors])
+            }
+        case 'unban':
+            return {
+                investors,
+                data: kycManager.interface.encodeFunctionData('bulkUnBan', [investors])
+            }
+    }
+}
+
+/**
+ * Groups the changes by action and splits each group into batches whose estimated gas stays
+ * under `maxGas`, halving a batch until it fits.
+ */
+export async function batchKycChanges(
+    kycManager: KycManager,
+    changes: KycInstruction[],
+    options: BatchOptions
+): Promise<KycBatch[]> {
+    const provider = kycManager.runner?.provider
+    if (!provider) throw new Error('KycManager must be connected to a provider')
+    const to = await kycManager.getAddress()
+
+    const batches: KycBatch[] = []
+    for (const action of ACTIONS) {
+        let pending = changes.filter(change => change.action === action)
+        while (pending.length) {
+            let size = Math.min(pending.length, options.maxBatchSize)
+            for (;;) {
+                const batch = encodeBatch(kycManager, action, pending.slice(0, size))
+                const gas = await provider.estimateGas({ from: options.from, to, data: batch.data })
+                if (gas <= options.maxGas) {
+                    batches.push({ action, ...batch, gas })
+                    break
+                }
+                if (size === 1) {
+                    throw new Error(
+                        `A single ${action} needs ${gas} gas, above the ${options.maxGas} limit`
+                    )
+                }
+                size = Math.ceil(size / 2)
+            }
+            pending = pending.slice(size)
+        }
+    }
+    return batches
+}
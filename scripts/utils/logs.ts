@@ -0,0 +1,55 @@
+import { Provider } from 'ethers'
+
+// Most RPC providers cap eth_getLogs by block range, so logs are fetched in windows of this size
+const DEFAULT_BLOCK_RANGE = Number(process.env.LOG_BLOCK_RANGE || 10000)
+
+/**
+ * Runs a log query over [fromBlock, toBlock] in block windows, halving the window whenever the
+ * provider rejects a query (range or result-size limits) and concatenating results in order.
+ */
+export async function queryInChunks<T>(
+    query: (fromBlock: number, toBlock: number) => Promise<T[]>,
+    fromBlock: number,
+    toBlock: number,
+    blockRange: number = DEFAULT_BLOCK_RANGE
+): Promise<T[]> {
+    const results: T[] = []
+    let start = fromBlock
+    let range = blockRange
+
+    while (start <= toBlock) {
+        const end = Math.min(start + range - 1, toBlock)
+        try {
+            results.push(...(await query(start, end)))
+            start = end + 1
+        } catch (error) {
+            if (range === 1) throw error
+            range = Math.max(1, Math.floor(range / 2))
+        }
+    }
+
+    return results
+}
+
+/**
+ * Finds the block a contract was deployed in by binary searching for the first block with code
+ * at the address. Requires an archive node for historical `eth_getCode` lookups.
+ */
+export async function findDeploymentBlock(
+    provider: Provider,
+    address: string,
+    toBlock?: number
+): Promise<number> {
+    let high = toBlock ?? (await provider.getBlockNumber())
+    if ((await provider.getCode(address, high)) === '0x') {
+        throw new Error(`No code at ${address} as of block ${high}`)
+    }
+
+    let low = 0
+    while (low < high) {
+        const mid = Math.floor((low + high) / 2)
+        if ((await provider.getCode(address, mid)) === '0x') low = mid + 1
+        else high = mid
+    }
+    return low
+}
@@ -0,0 +1,511 @@
+import {
+    FetchRequest,
+    formatUnits,
+    getAddress,
+    Log,
+    parseUnits,
+    Provider,
+    ZeroAddress
+} from 'ethers'
+import fs from 'fs'
+import path from 'path'
+import { setTimeout as sleep } from 'timers/promises'
+
+import { PRICE_DECIMALS, SHARE_DECIMALS } from '../../sdk/constants'
+import { KycManager__factory, ZTLNPrime__factory } from '../../typechain-types'
+import { writeJsonAtomic } from './files'
+import { queryInChunks } from './logs'
+
+export const MONITOR_STATE_DIR = path.join(__dirname, '../../monitor-state')
+
+// Processed block hashes kept to detect reorgs; a reorg deeper than this stops the monitor
+const REORG_WINDOW = 64
+
+export type AlertRule =
+    | 'pause'
+    | 'admin'
+    | 'upgrade'
+    | 'price'
+    | 'flow'
+    | 'kyc'
+    | 'supply'
+    | 'reorg'
+
+export type AlertSeverity = 'info' | 'warning' | 'critical'
+
+export interface Alert {
+    rule: AlertRule
+    severity: AlertSeverity
+    message: string
+    chainId: string
+    // Contract that emitted the event
+    address?: string
+    event?: string
+    blockNumber: number
+    txHash?: string
+    logIndex?: number
+}
+
+/**
+ * Which events raise alerts. Price moves and deposits or redemptions only alert beyond their
+ * limits, and not at all when the limit is unset.
+ */
+export interface MonitorRules {
+    // Paused and Unpaused
+    pause: boolean
+    // SetCustodian and SetKycManager
+    admin: boolean
+    // Upgraded
+    upgrade: boolean
+    // Largest SetPrice move from the previous price, in basis points
+    maxPriceChangeBps?: bigint
+    // Largest Deposit or RequestRedemption, in share units
+    maxShares?: bigint
+    // Banned and SetStrict on the KycManager
+    kyc: boolean
+    // Mints and burns outside deposit and processRedemption, i.e. mint and burnFrom calls
+    supply: boolean
+}
+
+export const DEFAULT_RULES: MonitorRules = {
+    pause: true,
+    admin: true,
+    upgrade: true,
+    kyc: true,
+    supply: true
+}
+
+export interface AlertSink {
+    name: string
+    send(alert: Alert): Promise<void>
+}
+
+export interface MonitorState {
+    chainId: string
+    proxy: string
+    // KycManager the proxy points at as of lastBlock
+    kycManager: string
+    // Price as of lastBlock, to measure the next SetPrice against
+    price: string
+    lastBlock: number
+    // Hashes of the last processed blocks, oldest first
+    blocks: { number: number; hash: string }[]
+}
+
+const RULE_KEYS = ['pause', 'admin', 'upgrade', 'kyc', 'supply'] as const
+
+/**
+ * Reads monitor rules from a JSON file, e.g.
+ *
+ *   { "pause": true, "kyc": false, "maxPriceChange": "2", "maxShares": "1000000" }
+ *
+ * where `maxPriceChange` is in percent and `maxShares` in ZTLN-P. Rules left out keep their
+ * defaults: every event alerts, price moves and flow sizes do not.
+ */
+export function loadMonitorRules(file?: string): MonitorRules {
+    const rules = { ...DEFAULT_RULES }
+    if (!file) return rules
+
+    const raw = JSON.parse(fs.readFileSync(file, 'utf8'))
+    const errors: string[] = []
+    for (const [key, value] of Object.entries(raw)) {
+        if (RULE_KEYS.includes(key as (typeof RULE_KEYS)[number])) {
+            if (typeof value === 'boolean') rules[key as (typeof RULE_KEYS)[number]] = value
+            else errors.push(`${key}: expected true or false`)
+        } else if (key === 'maxPriceChange') {
+            if (typeof value === 'string' && /^\d+(\.\d{1,2})?$/.test(value)) {
+                rules.maxPriceChangeBps = parseUnits(value, 2)
+            } else errors.push(`${key}: expected a percentage with up to 2 decimals`)
+        } else if (key === 'maxShares') {
+            if (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value)) {
+                rules.maxShares = parseUnits(value, SHARE_DECIMALS)
+            } else errors.push(`${key}: expected a decimal string of ZTLN-P`)
+        } else {
+            errors.push(`${key}: unknown rule`)
+        }
+    }
+    if (errors.length) throw new Error(`Invalid monitor rules ${file}:\n${errors.join('\n')}`)
+    return rules
+}
+
+export function stdoutSink(): AlertSink {
+    return {
+        name: 'stdout',
+        async send({ severity, message, blockNumber, txHash }) {
+            const where = txHash ? `block ${blockNumber}, ${txHash}` : `block ${blockNumber}`
+            console.log(`[${severity.toUpperCase()}] ${message} (${where})`)
+        }
+    }
+}
+
+/**
+ * Appends each alert to a JSON lines file.
+ */
+export function fileSink(file: string): AlertSink {
+    return {
+        name: file,
+        async send(alert) {
+            fs.mkdirSync(path.dirname(file), { recursive: true })
+            fs.appendFileSync(file, JSON.stringify(alert) + '\n')
+        }
+    }
+}
+
+/**
+ * POSTs each alert as JSON to `url`, throwing on anything but a 2xx answer.
+ */
+export function webhookSink(url: string, timeout = 30_000): AlertSink {
+    return {
+        name: url,
+        async send(alert) {
+            const request = new FetchRequest(url)
+            request.method = 'POST'
+            request.timeout = timeout
+            request.setHeader('Content-Type', 'application/json')
+            request.body = JSON.stringify(alert)
+            const response = await request.send()
+            if (!response.ok()) {
+                throw new Error(`${url} answered ${response.statusCode} ${response.statusMessage}`)
+            }
+        }
+    }
+}
+
+export function loadMonitorState(file: string): MonitorState | undefined {
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : undefined
+}
+
+export function saveMonitorState(file: string, state: MonitorState) {
+    writeJsonAtomic(file, state)
+}
+
+// Reads what the monitor tracks between events as of `blockNumber`
+async function readTrackedState(provider: Provider, proxy: string, blockNumber: number) {
+    const ztlnPrime = ZTLNPrime__factory.connect(proxy, provider)
+    const overrides = { blockTag: blockNumber }
+    const block = await provider.getBlock(blockNumber)
+    return {
+        kycManager: getAddress(await ztlnPrime._kycManager(overrides)),
+        price: (await ztlnPrime.price(overrides)).toString(),
+        hash: block!.hash!
+    }
+}
+
+/**
+ * Starts monitoring `proxy` with the first block processed being `fromBlock`.
+ */
+export async function initMonitorState(
+    provider: Provider,
+    proxy: string,
+    fromBlock: number
+): Promise<MonitorState> {
+    const lastBlock = fromBlock - 1
+    const { kycManager, price, hash } = await readTrackedState(provider, proxy, lastBlock)
+    return {
+        chainId: (await provider.getNetwork()).chainId.toString(),
+        proxy: getAddress(proxy),
+        kycManager,
+        price,
+        lastBlock,
+        blocks: [{ number: lastBlock, hash }]
+    }
+}
+
+/**
+ * Compares the recorded block hashes with the chain and, after a reorg, rewinds `state` to the
+ * newest block that is still canonical so that the replaced blocks are processed again.
+ * Returns the alert to send, or nothing when there was no reorg.
+ */
+export async function rewindReorg(
+    provider: Provider,
+    state: MonitorState
+): Promise<Alert | undefined> {
+    for (let index = state.blocks.length - 1; index >= 0; index--) {
+        const { number, hash } = state.blocks[index]
+        if ((await provider.getBlock(number))?.hash !== hash) continue
+        if (number === state.lastBlock) return
+
+        const replaced = state.lastBlock - number
+        const { kycManager, price } = await readTrackedState(provider, state.proxy, number)
+        Object.assign(state, {
+            kycManager,
+            price,
+            lastBlock: number,
+            blocks: state.blocks.slice(0, index + 1)
+        })
+        return {
+            rule: 'reorg',
+            severity: 'warning',
+            message:
+                `Reorg replaced ${replaced} processed block(s) after ${number}, ` +
+                'alerts from those blocks may repeat',
+            chainId: state.chainId,
+            blockNumber: number
+        }
+    }
+    throw new Error(
+        `Reorg deeper than the ${state.blocks.length} recorded blocks, ` +
+            'restart the monitor from an earlier block'
+    )
+}
+
+// Logs in chain order
+function byPosition(a: Log, b: Log) {
+    return a.blockNumber - b.blockNumber || a.index - b.index
+}
+
+/**
+ * Fetches the proxy and KycManager logs of [fromBlock, toBlock] in order. When the proxy switches
+ * KycManager within the range, each KycManager's logs are only kept while it is in use.
+ */
+async function fetchLogs(
+    provider: Provider,
+    state: MonitorState,
+    fromBlock: number,
+    toBlock: number
+): Promise<Log[]> {
+    const ztlnPrime = ZTLNPrime__factory.createInterface()
+    const proxyLogs = await queryInChunks(
+        (from, to) => provider.getLogs({ address: state.proxy, fromBlock: from, toBlock: to }),
+        fromBlock,
+        toBlock
+    )
+    const switches = proxyLogs
+        .map(log => ({ log, event: ztlnPrime.parseLog(log) }))
+        .filter(({ event }) => event?.name === 'SetKycManager')
+        .map(({ log, event }) => ({ log, kycManager: getAddress(event!.args.kycManager) }))
+    const kycManagers = [
+        ...new Set([state.kycManager, ...switches.map(({ kycManager }) => kycManager)])
+    ]
+
+    const kycLogs = await queryInChunks(
+        (from, to) => provider.getLogs({ address: kycManagers, fromBlock: from, toBlock: to }),
+        fromBlock,
+        toBlock
+    )
+    const inUse = kycLogs.filter(log => {
+        const current = switches.filter(({ log: switched }) => byPosition(switched, log) < 0).pop()
+        return getAddress(log.address) === (current?.kycManager ?? state.kycManager)
+    })
+    return [...proxyLogs, ...inUse].sort(byPosition)
+}
+
+/**
+ * Turns logs into alerts according to `rules`, updating the price and KycManager in `state` as
+ * it goes. Mints and burns are matched with the Deposit or ProcessRedemption of the same
+ * transaction; any that are left were made with `mint` or `burnFrom`.
+ */
+export function evaluateLogs(logs: Log[], state: MonitorState, rules: MonitorRules): Alert[] {
+    const ztlnPrime = ZTLNPrime__factory.createInterface()
+    const kycManager = KycManager__factory.createInterface()
+    const parsed = logs.map(log => ({
+        log,
+        event:
+            getAddress(log.address) === state.proxy
+                ? ztlnPrime.parseLog(log)
+                : kycManager.parseLog(log)
+    }))
+    const shares = (amount: bigint) => `${formatUnits(amount, SHARE_DECIMALS)} ZTLN-P`
+
+    const alerts: Alert[] = []
+    for (const { log, event } of parsed) {
+        if (!event) continue
+        const { name, args } = event
+        const alert = (rule: AlertRule, severity: AlertSeverity, message: string) =>
+            alerts.push({
+                rule,
+                severity,
+                message,
+                chainId: state.chainId,
+                address: getAddress(log.address),
+                event: name,
+                blockNumber: log.blockNumber,
+                txHash: log.transactionHash,
+                logIndex: log.index
+            })
+        const sameTransaction = (eventName: string) =>
+            parsed
+                .filter(({ log: other }) => other.transactionHash === log.transactionHash)
+                .filter(({ event: other }) => other?.name === eventName)
+                .map(({ event: other }) => other!.args)
+
+        switch (name) {
+            case 'Paused':
+            case 'Unpaused':
+                if (rules.pause)
+                    alert('pause', 'critical', `ZTLNPrime ${name.toLowerCase()} by ${args.account}`)
+                break
+            case 'SetCustodian':
+                if (rules.admin) alert('admin', 'critical', `Custodian set to ${args.newAddress}`)
+                break
+            case 'SetKycManager':
+                state.kycManager = getAddress(args.kycManager)
+                if (rules.admin) alert('admin', 'critical', `KycManager set to ${args.kycManager}`)
+                break
+            case 'Upgraded':
+                if (rules.upgrade)
+                    alert('upgrade', 'critical', `Proxy upgraded to ${args.implementation}`)
+                break
+            case 'SetPrice': {
+                const previous = BigInt(state.price)
+                state.price = args.newPrice.toString()
+                if (rules.maxPriceChangeBps === undefined || previous === 0n) break
+                const changeBps = ((args.newPrice - previous) * 10_000n) / previous
+                const size = changeBps < 0n ? -changeBps : changeBps
+                if (size > rules.maxPriceChangeBps) {
+                    alert(
+                        'price',
+                        'warning',
+                        `Price moved ${formatUnits(changeBps, 2)}% from ` +
+                            `${formatUnits(previous, PRICE_DECIMALS)} to ` +
+                            `${formatUnits(args.newPrice, PRICE_DECIMALS)}`
+                    )
+                }
+                break
+            }
+            case 'Deposit':
+            case 'RequestRedemption':
+                if (rules.maxShares !== undefined && args.shares > rules.maxShares) {
+                    const action = name === 'Deposit' ? 'Deposit of' : 'Redemption request for'
+                    alert(
+                        'flow',
+                        'warning',
+                        `${action} ${shares(args.shares)} by ${args.investor}, ` +
+                            `the limit is ${shares(rules.maxShares)}`
+                    )
+                }
+                break
+            case 'Transfer': {
+                if (!rules.supply) break
+                if (args.from === ZeroAddress) {
+                    const deposited = sameTransaction('Deposit').some(
+                        deposit => deposit.investor === args.to && deposit.shares === args.value
+                    )
+                    if (!deposited) {
+                        alert(
+                            'supply',
+                            'critical',
+                            `Direct mint of ${shares(args.value)} to ${args.to}`
+                        )
+                    }
+                } else if (args.to === ZeroAddress) {
+                    const redeemed = sameTransaction('ProcessRedemption').some(
+                        redemption => args.from === state.proxy && redemption.shares === args.value
+                    )
+                    if (!redeemed) {
+                        alert(
+                            'supply',
+                            'critical',
+                            `Direct burn of ${shares(args.value)} from ${args.from}`
+                        )
+                    }
+                }
+                break
+            }
+            case 'Banned':
+                if (rules.kyc) {
+                    const action = args._status ? 'banned' : 'unbanned'
+                    alert('kyc', 'warning', `${args._investor} ${action} on the KycManager`)
+                }
+                break
+            case 'SetStrict':
+                if (rules.kyc) {
+                    alert(
+                        'kyc',
+                        'warning',
+                        `KycManager strict mode turned ${args._status ? 'on' : 'off'}`
+                    )
+                }
+                break
+        }
+    }
+    return alerts
+}
+
+export interface PollOptions {
+    // Blocks to stay behind the head, fewer means earlier alerts and more reorgs
+    confirmations?: number
+}
+
+/**
+ * Processes every block since `state.lastBlock` up to the head less `confirmations`, rewinding
+ * first if the chain reorganised. Updates `state`, which the caller should only save once the
+ * alerts have been delivered so that they are sent at least once.
+ */
+export async function pollOnce(
+    provider: Provider,
+    state: MonitorState,
+    rules: MonitorRules,
+    options: PollOptions = {}
+): Promise<Alert[]> {
+    const alerts: Alert[] = []
+    const reorg = await rewindReorg(provider, state)
+    if (reorg) alerts.push(reorg)
+
+    const head = (await provider.getBlockNumber()) - (options.confirmations ?? 0)
+    if (head <= state.lastBlock) return alerts
+
+    const logs = await fetchLogs(provider, state, state.lastBlock + 1, head)
+    alerts.push(...evaluateLogs(logs, state, rules))
+
+    const block = await provider.getBlock(head)
+    state.lastBlock = head
+    state.blocks = [...state.blocks, { number: head, hash: block!.hash! }].slice(-REORG_WINDOW)
+    return alerts
+}
+
+/**
+ * Delivers an alert to every sink. A failing sink does not stop the others; the error is
+ * rethrown once all have been tried.
+ */
+export async function dispatchAlert(alert: Alert, sinks: AlertSink[]) {
+    const failures: string[] = []
+    for (const sink of sinks) {
+        try {
+            await sink.send(alert)
+        } catch (error) {
+            failures.push(`${sink.name}: ${(error as Error).message}`)
+        }
+    }
+    if (failures.length) throw new Error(`Alert delivery failed:\n${failures.join('\n')}`)
+}
+
+export interface MonitorOptions extends PollOptions {
+    stateFile: string
+    sinks: AlertSink[]
+    rules: MonitorRules
+    // Seconds between polls
+    interval: number
+    // Stops the loop, checked between polls
+    signal?: AbortSignal
+    // Process up to the head once and return
+    once?: boolean
+}
+
+/**
+ * Polls until `signal` aborts, saving the state after each poll whose alerts were all
+ * delivered. Errors are logged and the poll is retried after the interval.
+ */
+export async function runMonitor(
+    provider: Provider,
+    state: MonitorState,
+    options: MonitorOptions
+): Promise<void> {
+    while (!options.signal?.aborted) {
+        const next = structuredClone(state)
+        try {
+            for (const alert of await pollOnce(provider, next, options.rules, options)) {
+                await dispatchAlert(alert, options.sinks)
+            }
+            Object.assign(state, next)
+            saveMonitorState(options.stateFile, state)
+        } catch (error) {
+            if (options.once) throw error
+            console.error(`Poll failed, retrying: ${(error as Error).message}`)
+        }
+        if (options.once) return
+
+        // Rejects when the signal aborts, which ends the loop
+        await sleep(options.interval * 1000, undefined, { signal: options.signal }).catch(() => {})
+    }
+}
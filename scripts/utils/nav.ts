@@ -0,0 +1,329 @@
+import {
+    FetchRequest,
+    formatUnits,
+    getAddress,
+    keccak256,
+    parseUnits,
+    Signer,
+    toUtf8Bytes,
+    verifyMessage
+} from 'ethers'
+import fs from 'fs'
+import path from 'path'
+
+import { PRICE_DECIMALS } from '../../sdk/constants'
+import { ZTLNPrime } from '../../typechain-types'
+
+export const NAV_HISTORY_DIR = path.join(__dirname, '../../nav-history')
+
+// Largest clock difference tolerated for a NAV dated in the future
+const MAX_CLOCK_SKEW = 300
+
+/**
+ * A NAV per share as published by the fund administrator. `nav` is a decimal string ("1.0234")
+ * and `asOf` an ISO 8601 date, both kept exactly as received so the signature can be checked.
+ */
+export interface NavQuote {
+    nav: string
+    asOf: string
+    // Where the quote came from: a file path or URL
+    source: string
+    // Hash of the raw payload, so the history can be matched against the source
+    payloadHash: string
+    // Set when the quote is signed, the recovered signer
+    signer?: string
+    signature?: string
+}
+
+// The fund a NAV is signed for, so a signature cannot be replayed on another chain or proxy
+export interface NavTarget {
+    chainId: number
+    proxy: string
+}
+
+export interface NavSource {
+    readonly name: string
+    fetch(): Promise<NavQuote>
+}
+
+export interface NavBounds {
+    // Largest allowed move from the current price, in basis points
+    maxChangeBps: bigint
+    // Oldest allowed quote, in seconds
+    maxAge: number
+    // asOf of the last NAV published for the proxy; a quote must be struck after it
+    lastAsOf?: string
+}
+
+export interface NavUpdate {
+    quote: NavQuote
+    previousPrice: bigint
+    price: bigint
+    // Signed move from the previous price in basis points, unset for the first price
+    changeBps?: bigint
+    // Age of the quote in seconds when it was checked
+    age: number
+    // Reasons the update must not be sent, empty if it is within bounds
+    violations: string[]
+}
+
+export interface NavHistoryEntry {
+    publishedAt: string
+    chainId: number
+    network: string
+    proxy: string
+    nav: string
+    price: string
+    previousPrice: string
+    changeBps?: string
+    asOf: string
+    source: string
+    payloadHash: string
+    signer?: string
+    signature?: string
+    sender: string
+    // The SetPrice event the update emitted
+    txHash: string
+    blockNumber: number
+    logIndex: number
+}
+
+/**
+ * Message a NAV signer signs with `personal_sign` (EIP-191), bound to the proxy and chain.
+ */
+export function navMessage(nav: string, asOf: string, { chainId, proxy }: NavTarget): string {
+    return `ZTLN-P NAV ${nav} as of ${asOf} for ${getAddress(proxy)} on chain ${chainId}`
+}
+
+/**
+ * Builds the signed JSON payload that `fileSource` and `httpSource` accept for `target`.
+ */
+export async function signNav(signer: Signer, nav: string, asOf: string, target: NavTarget) {
+    toPrice(nav)
+    if (Number.isNaN(Date.parse(asOf))) throw new Error(`Invalid NAV date ${asOf}`)
+    return { nav, asOf, signature: await signer.signMessage(navMessage(nav, asOf, target)) }
+}
+
+/**
+ * Converts a NAV per share to the contract's 1e8 price precision, rejecting values that would be
+ * truncated.
+ */
+export function toPrice(nav: string): bigint {
+    if (!/^\d+(\.\d+)?$/.test(nav)) throw new Error(`NAV must be a positive decimal, got "${nav}"`)
+    const decimals = nav.split('.')[1]?.length ?? 0
+    if (decimals > PRICE_DECIMALS) {
+        throw new Error(`NAV ${nav} has more than ${PRICE_DECIMALS} decimals`)
+    }
+    const price = parseUnits(nav, PRICE_DECIMALS)
+    if (price === 0n) throw new Error('NAV must be greater than zero')
+    return price
+}
+
+/**
+ * Parses a `{ nav, asOf, signature? }` payload. With `trustedSigners` the signature is required
+ * and must recover to one of them for `target`.
+ */
+export function parseNavPayload(
+    raw: string,
+    source: string,
+    target: NavTarget,
+    trustedSigners?: string[]
+): NavQuote {
+    let payload: Record<string, unknown>
+    try {
+        payload = JSON.parse(raw)
+    } catch {
+        throw new Error(`${source} is not valid JSON`)
+    }
+    const { nav, asOf, signature } = payload ?? {}
+    if (typeof nav !== 'string') throw new Error(`${source}: nav must be a decimal string`)
+    if (typeof asOf !== 'string' || Number.isNaN(Date.parse(asOf))) {
+        throw new Error(`${source}: asOf must be an ISO 8601 date`)
+    }
+    const quote: NavQuote = { nav, asOf, source, payloadHash: keccak256(toUtf8Bytes(raw)) }
+
+    if (signature !== undefined) {
+        if (typeof signature !== 'string') throw new Error(`${source}: invalid signature`)
+        quote.signature = signature
+        quote.signer = verifyMessage(navMessage(nav, asOf, target), signature)
+    }
+    if (trustedSigners?.length) {
+        if (!quote.signer) throw new Error(`${source}: NAV is not signed`)
+        const trusted = trustedSigners.map(signer => getAddress(signer))
+        if (!trusted.includes(quote.signer)) {
+            throw new Error(
+                `${source}: NAV signed by ${quote.signer}, not a trusted signer ` +
+                    `for ${getAddress(target.proxy)} on chain ${target.chainId}`
+            )
+        }
+    }
+    return quote
+}
+
+/**
+ * Signed JSON file, e.g. as dropped by the fund administrator. The signature is mandatory.
+ */
+export function fileSource(file: string, target: NavTarget, trustedSigners: string[]): NavSource {
+    if (!trustedSigners.length) throw new Error('A signed NAV file needs trusted signers')
+    return {
+        name: file,
+        async fetch() {
+            return parseNavPayload(fs.readFileSync(file, 'utf8'), file, target, trustedSigners)
+        }
+    }
+}
+
+/**
+ * HTTP endpoint returning the same JSON payload. The signature is checked when trusted signers
+ * are given.
+ */
+export function httpSource(
+    url: string,
+    target: NavTarget,
+    trustedSigners?: string[],
+    timeout = 30_000
+): NavSource {
+    return {
+        name: url,
+        async fetch() {
+            const request = new FetchRequest(url)
+            request.timeout = timeout
+            const response = await request.send()
+            if (!response.ok()) {
+                throw new Error(`${url} answered ${response.statusCode} ${response.statusMessage}`)
+            }
+            return parseNavPayload(response.bodyText, url, target, trustedSigners)
+        }
+    }
+}
+
+/**
+ * Picks the source for `location`: an http(s) URL or a file path.
+ */
+export function navSource(
+    location: string,
+    target: NavTarget,
+    trustedSigners: string[] = []
+): NavSource {
+    return /^https?:\/\//.test(location)
+        ? httpSource(location, target, trustedSigners)
+        : fileSource(location, target, trustedSigners)
+}
+
+/**
+ * Checks a quote against the current on-chain price. The first price (while `price` is 0) is
+ * only checked for its date.
+ */
+export async function planNavUpdate(
+    ztlnPrime: ZTLNPrime,
+    quote: NavQuote,
+    bounds: NavBounds,
+    now = Date.now()
+): Promise<NavUpdate> {
+    const price = toPrice(quote.nav)
+    const previousPrice = await ztlnPrime.price()
+    const age = Math.floor((now - Date.parse(quote.asOf)) / 1000)
+
+    const violations: string[] = []
+    if (age > bounds.maxAge) {
+        violations.push(`NAV as of ${quote.asOf} is ${age}s old, the limit is ${bounds.maxAge}s`)
+    }
+    if (age < -MAX_CLOCK_SKEW) violations.push(`NAV is dated in the future (${quote.asOf})`)
+    if (bounds.lastAsOf && Date.parse(quote.asOf) <= Date.parse(bounds.lastAsOf)) {
+        violations.push(
+            `NAV as of ${quote.asOf} is not later than the last published NAV, ` +
+                `as of ${bounds.lastAsOf}`
+        )
+    }
+
+    let changeBps: bigint | undefined
+    if (previousPrice > 0n) {
+        changeBps = ((price - previousPrice) * 10_000n) / previousPrice
+        const change = price > previousPrice ? price - previousPrice : previousPrice - price
+        if (change * 10_000n > bounds.maxChangeBps * previousPrice) {
+            violations.push(
+                `NAV moves ${formatUnits(changeBps, 2)}% from ` +
+                    `${formatUnits(previousPrice, PRICE_DECIMALS)}, ` +
+                    `the limit is ${formatUnits(bounds.maxChangeBps, 2)}%`
+            )
+        }
+    }
+    return { quote, previousPrice, price, changeBps, age, violations }
+}
+
+/**
+ * Sends `setPrice` for a checked update and appends it, with the SetPrice event it emitted, to
+ * the chain's history log under nav-history/. Throws without sending if the update has
+ * violations or the price moved since it was checked.
+ */
+export async function publishNav(
+    ztlnPrime: ZTLNPrime,
+    update: NavUpdate,
+    options: { chainId: number; network: string; confirmations?: number; dir?: string }
+): Promise<NavHistoryEntry> {
+    const { quote, price, previousPrice, changeBps } = update
+    if (update.violations.length) {
+        throw new Error(`NAV update rejected: ${update.violations.join('; ')}`)
+    }
+    if ((await ztlnPrime.price()) !== previousPrice) {
+        throw new Error('The price changed since the NAV update was checked')
+    }
+
+    const tx = await ztlnPrime.setPrice(price)
+    const receipt = await tx.wait(options.confirmations)
+    const event = receipt!.logs
+        .map(log => ({ log, parsed: ztlnPrime.interface.parseLog(log) }))
+        .find(({ parsed }) => parsed?.name === 'SetPrice')
+    if (!event) throw new Error(`No SetPrice event in ${tx.hash}`)
+
+    const entry: NavHistoryEntry = {
+        publishedAt: new Date().toISOString(),
+        chainId: options.chainId,
+        network: options.network,
+        proxy: await ztlnPrime.getAddress(),
+        nav: quote.nav,
+        price: price.toString(),
+        previousPrice: previousPrice.toString(),
+        changeBps: changeBps?.toString(),
+        asOf: quote.asOf,
+        source: quote.source,
+        payloadHash: quote.payloadHash,
+        signer: quote.signer,
+        signature: quote.signature,
+        sender: tx.from,
+        txHash: tx.hash,
+        blockNumber: receipt!.blockNumber,
+        logIndex: event.log.index
+    }
+    appendNavHistory(entry, options.dir)
+    return entry
+}
+
+/**
+ * Appends an entry to `<dir>/chain-<chainId>.jsonl` and returns the file path.
+ */
+export function appendNavHistory(entry: NavHistoryEntry, dir = NAV_HISTORY_DIR): string {
+    fs.mkdirSync(dir, { recursive: true })
+    const file = path.join(dir, `chain-${entry.chainId}.jsonl`)
+    fs.appendFileSync(file, JSON.stringify(entry) + '\n')
+    return file
+}
+
+/**
+ * Returns the last entry of `<dir>/chain-<chainId>.jsonl` for `proxy`, if it has one.
+ */
+export function lastPublishedNav(
+    chainId: number,
+    proxy: string,
+    dir = NAV_HISTORY_DIR
+): NavHistoryEntry | undefined {
+    const file = path.join(dir, `chain-${chainId}.jsonl`)
+    if (!fs.existsSync(file)) return undefined
+    return fs
+        .readFileSync(file, 'utf8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as NavHistoryEntry)
+        .filter(entry => getAddress(entry.proxy) === getAddress(proxy))
+        .pop()
+}
@@ -0,0 +1,289 @@
+import { getAddress, Provider, ZeroAddress } from 'ethers'
+
+import { IERC20Metadata__factory, ZTLNPrime__factory } from '../../typechain-types'
+import { findDeploymentBlock, queryInChunks } from './logs'
+
+/**
+ * Flows of one asset through the vault. `expectedBalance` is what the vault should hold given
+ * the events; any difference from `vaultBalance` is reported as a discrepancy.
+ */
+export interface AssetReconciliation {
+    asset: string
+    symbol: string
+    decimals: number
+    deposits: number
+    deposited: bigint
+    // Asset sent to the vault outside `deposit`, e.g. the custodian funding redemptions
+    otherInflows: bigint
+    sweptToCustodian: bigint
+    redemptionPayouts: bigint
+    // Asset that left the vault without a `TransferToCustodian` or `ProcessRedemption` event
+    otherOutflows: bigint
+    expectedBalance: bigint
+    vaultBalance: bigint
+}
+
+export interface InvestorSubtotal {
+    investor: string
+    asset: string
+    deposits: number
+    deposited: bigint
+    sharesIssued: bigint
+    redemptions: number
+    paidOut: bigint
+    sharesRedeemed: bigint
+}
+
+export interface ShareReconciliation {
+    mintedByDeposit: bigint
+    // Minted with `mint` by an admin or operator
+    mintedDirectly: bigint
+    burnedByRedemption: bigint
+    // Burned with `burnFrom` by an admin or operator
+    burnedDirectly: bigint
+    totalSupply: bigint
+}
+
+export interface Discrepancy {
+    kind: 'asset-balance' | 'unexplained-outflow' | 'deposit-mint' | 'total-supply'
+    asset?: string
+    transactionHash?: string
+    detail: string
+}
+
+export interface Reconciliation {
+    proxy: string
+    chainId: string
+    custodian: string
+    fromBlock: number
+    blockNumber: number
+    assets: AssetReconciliation[]
+    investors: InvestorSubtotal[]
+    shares: ShareReconciliation
+    shareBalances: Record<string, bigint>
+    discrepancies: Discrepancy[]
+}
+
+export interface ReconciliationOptions {
+    // First block to replay, defaults to the proxy's deployment block
+    fromBlock?: number
+    // Block to reconcile at, defaults to the latest block
+    blockNumber?: number
+}
+
+/**
+ * Replays the `Deposit`, `TransferToCustodian`, `ProcessRedemption` and `Transfer` events of a
+ * ZTLNPrime proxy and reconciles them against the vault's asset balances and the share supply.
+ * Asset `Transfer` logs to and from the vault pick up flows that bypass the vault's own events.
+ *
+ * Balances only reconcile when `fromBlock` is at or before the proxy's deployment block.
+ */
+export async function buildReconciliation(
+    provider: Provider,
+    proxyAddress: string,
+    options: ReconciliationOptions = {}
+): Promise<Reconciliation> {
+    const blockTag = options.blockNumber ?? (await provider.getBlockNumber())
+    const fromBlock =
+        options.fromBlock ?? (await findDeploymentBlock(provider, proxyAddress, blockTag))
+    const ztlnPrime = ZTLNPrime__factory.connect(proxyAddress, provider)
+    const overrides = { blockTag }
+    const vault = getAddress(proxyAddress)
+
+    const replay = <T>(query: (from: number, to: number) => Promise<T[]>) =>
+        queryInChunks(query, fromBlock, blockTag)
+    const deposits = await replay((from, to) =>
+        ztlnPrime.queryFilter(ztlnPrime.filters.Deposit(), from, to)
+    )
+    const sweeps = await replay((from, to) =>
+        ztlnPrime.queryFilter(ztlnPrime.filters.TransferToCustodian(), from, to)
+    )
+    const payouts = await replay((from, to) =>
+        ztlnPrime.queryFilter(ztlnPrime.filters.ProcessRedemption(), from, to)
+    )
+    const shareTransfers = await replay((from, to) =>
+        ztlnPrime.queryFilter(ztlnPrime.filters.Transfer(), from, to)
+    )
+
+    const discrepancies: Discrepancy[] = []
+    const assetAddresses = new Set<string>([
+        ...deposits.map(({ args }) => getAddress(args.asset)),
+        ...sweeps.map(({ args }) => getAddress(args.asset)),
+        ...payouts.map(({ args }) => getAddress(args.asset))
+    ])
+
+    // Asset flows
+    const assets: AssetReconciliation[] = []
+    for (const asset of [...assetAddresses].sort()) {
+        const token = IERC20Metadata__factory.connect(asset, provider)
+        const assetDeposits = deposits.filter(({ args }) => getAddress(args.asset) === asset)
+        const assetSweeps = sweeps.filter(({ args }) => getAddress(args.asset) === asset)
+        const assetPayouts = payouts.filter(({ args }) => getAddress(args.asset) === asset)
+
+        const inflows = await replay((from, to) =>
+            token.queryFilter(token.filters.Transfer(undefined, vault), from, to)
+        )
+        const outflows = await replay((from, to) =>
+            token.queryFilter(token.filters.Transfer(vault, undefined), from, to)
+        )
+
+        const depositTxs = new Set(assetDeposits.map(({ transactionHash }) => transactionHash))
+        const explainedOutTxs = new Set(
+            [...assetSweeps, ...assetPayouts].map(({ transactionHash }) => transactionHash)
+        )
+        const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n)
+
+        const deposited = sum(assetDeposits.map(({ args }) => args.amount))
+        const otherInflows = sum(
+            inflows
+                .filter(({ transactionHash, args }) => {
+                    return !depositTxs.has(transactionHash) && getAddress(args.from) !== vault
+                })
+                .map(({ args }) => args.value)
+        )
+        const sweptToCustodian = sum(assetSweeps.map(({ args }) => args.amount))
+        const redemptionPayouts = sum(assetPayouts.map(({ args }) => args.amount))
+
+        let otherOutflows = 0n
+        for (const { transactionHash, args } of outflows) {
+            if (explainedOutTxs.has(transactionHash) || getAddress(args.to) === vault) continue
+            otherOutflows += args.value
+            discrepancies.push({
+                kind: 'unexplained-outflow',
+                asset,
+                transactionHash,
+                detail: `${args.value} sent to ${getAddress(args.to)} without a vault event`
+            })
+        }
+
+        const expectedBalance =
+            deposited + otherInflows - sweptToCustodian - redemptionPayouts - otherOutflows
+        const vaultBalance = await token.balanceOf(vault, overrides)
+        if (expectedBalance !== vaultBalance) {
+            discrepancies.push({
+                kind: 'asset-balance',
+                asset,
+                detail: `Vault holds ${vaultBalance}, events account for ${expectedBalance}`
+            })
+        }
+
+        assets.push({
+            asset,
+            symbol: await token.symbol(overrides),
+            decimals: Number(await token.decimals(overrides)),
+            deposits: assetDeposits.length,
+            deposited,
+            otherInflows,
+            sweptToCustodian,
+            redemptionPayouts,
+            otherOutflows,
+            expectedBalance,
+            vaultBalance
+        })
+    }
+
+    // Share supply
+    const mintsByTx = new Map<string, bigint>()
+    const shareBalances: Record<string, bigint> = {}
+    const shares: ShareReconciliation = {
+        mintedByDeposit: 0n,
+        mintedDirectly: 0n,
+        burnedByRedemption: 0n,
+        burnedDirectly: 0n,
+        totalSupply: await ztlnPrime.totalSupply(overrides)
+    }
+    const depositTxs = new Set(deposits.map(({ transactionHash }) => transactionHash))
+    const payoutTxs = new Set(payouts.map(({ transactionHash }) => transactionHash))
+
+    for (const { transactionHash, args } of shareTransfers) {
+        const from = getAddress(args.from)
+        const to = getAddress(args.to)
+        if (from === ZeroAddress) {
+            mintsByTx.set(transactionHash, (mintsByTx.get(transactionHash) ?? 0n) + args.value)
+            if (depositTxs.has(transactionHash)) shares.mintedByDeposit += args.value
+            else shares.mintedDirectly += args.value
+        } else {
+            shareBalances[from] = (shareBalances[from] ?? 0n) - args.value
+        }
+        if (to === ZeroAddress) {
+            if (payoutTxs.has(transactionHash)) shares.burnedByRedemption += args.value
+            else shares.burnedDirectly += args.value
+        } else {
+            shareBalances[to] = (shareBalances[to] ?? 0n) + args.value
+        }
+    }
+
+    for (const { transactionHash, args } of deposits) {
+        const minted = mintsByTx.get(transactionHash) ?? 0n
+        if (minted !== args.shares) {
+            discrepancies.push({
+                kind: 'deposit-mint',
+                asset: getAddress(args.asset),
+                transactionHash,
+                detail: `Deposit reports ${args.shares} shares, ${minted} were minted`
+            })
+        }
+    }
+
+    const replayedSupply =
+        shares.mintedByDeposit +
+        shares.mintedDirectly -
+        shares.burnedByRedemption -
+        shares.burnedDirectly
+    if (replayedSupply !== shares.totalSupply) {
+        discrepancies.push({
+            kind: 'total-supply',
+            detail: `totalSupply is ${shares.totalSupply}, replayed mints and burns give ${replayedSupply}`
+        })
+    }
+
+    // Per-investor subtotals
+    const subtotals = new Map<string, InvestorSubtotal>()
+    const subtotalFor = (investor: string, asset: string) => {
+        const key = `${getAddress(investor)}:${getAddress(asset)}`
+        if (!subtotals.has(key)) {
+            subtotals.set(key, {
+                investor: getAddress(investor),
+                asset: getAddress(asset),
+                deposits: 0,
+                deposited: 0n,
+                sharesIssued: 0n,
+                redemptions: 0,
+                paidOut: 0n,
+                sharesRedeemed: 0n
+            })
+        }
+        return subtotals.get(key)!
+    }
+    for (const { args } of deposits) {
+        const subtotal = subtotalFor(args.investor, args.asset)
+        subtotal.deposits++
+        subtotal.deposited += args.amount
+        subtotal.sharesIssued += args.shares
+    }
+    for (const { args } of payouts) {
+        const subtotal = subtotalFor(args.investor, args.asset)
+        subtotal.redemptions++
+        subtotal.paidOut += args.amount
+        subtotal.sharesRedeemed += args.shares
+    }
+
+    for (const holder of Object.keys(shareBalances)) {
+        if (shareBalances[holder] === 0n) delete shareBalances[holder]
+    }
+
+    return {
+        proxy: vault,
+        chainId: (await provider.getNetwork()).chainId.toString(),
+        custodian: getAddress(await ztlnPrime._custodian(overrides)),
+        fromBlock,
+        blockNumber: blockTag,
+        assets,
+        investors: [...subtotals.values()].sort(
+            (a, b) => a.investor.localeCompare(b.investor) || a.asset.localeCompare(b.asset)
+        ),
+        shares,
+        shareBalances,
+        discrepancies
+    }
+}
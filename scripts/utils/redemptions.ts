@@ -0,0 +1,260 @@
+import { getAddress, Provider } from 'ethers'
+import fs from 'fs'
+import path from 'path'
+
+import { quoteRedemption } from '../../sdk/math'
+import { IERC20Metadata__factory, ZTLNPrime__factory } from '../../typechain-types'
+import { findDeploymentBlock, queryInChunks } from './logs'
+
+export const REDEMPTION_DIR = path.join(__dirname, '../../redemption-batches')
+
+/**
+ * Requested and processed redemptions of one investor in one asset. Integers are decimal strings
+ * so the queue round-trips through JSON.
+ */
+export interface RedemptionEntry {
+    investor: string
+    asset: string
+    requests: number
+    requestedShares: string
+    processedShares: string
+    paidAmount: string
+    outstandingShares: string
+    // Payout for the outstanding shares at the current price, in asset units
+    payout: string
+    // Processed shares exceed requested shares
+    overProcessed: boolean
+}
+
+export interface AssetLiquidity {
+    asset: string
+    symbol: string
+    decimals: number
+    vaultBalance: string
+    payoutDue: string
+    shortfall: string
+}
+
+export interface RedemptionQueue {
+    proxy: string
+    chainId: string
+    fromBlock: number
+    blockNumber: number
+    price: string
+    // ZTLN-P held by the vault, which must cover every outstanding share to be burnt
+    vaultShares: string
+    outstandingShares: string
+    entries: RedemptionEntry[]
+    assets: AssetLiquidity[]
+}
+
+export interface ProcessRedemptionCall {
+    investor: string
+    asset: string
+    amount: string
+    shares: string
+}
+
+export interface QueueOptions {
+    // First block to scan, defaults to the proxy's deployment block
+    fromBlock?: number
+    // Block to read the queue at, defaults to the latest block
+    blockNumber?: number
+}
+
+/**
+ * Rebuilds the outstanding redemption queue from `RequestRedemption` and `ProcessRedemption`
+ * logs, prices each investor's outstanding shares at the current `price` and compares what is
+ * due per asset with the vault's balance.
+ */
+export async function buildRedemptionQueue(
+    provider: Provider,
+    proxyAddress: string,
+    options: QueueOptions = {}
+): Promise<RedemptionQueue> {
+    const blockTag = options.blockNumber ?? (await provider.getBlockNumber())
+    const fromBlock =
+        options.fromBlock ?? (await findDeploymentBlock(provider, proxyAddress, blockTag))
+    const ztlnPrime = ZTLNPrime__factory.connect(proxyAddress, provider)
+    const overrides = { blockTag }
+
+    const requests = await queryInChunks(
+        (from, to) => ztlnPrime.queryFilter(ztlnPrime.filters.RequestRedemption(), from, to),
+        fromBlock,
+        blockTag
+    )
+    const processed = await queryInChunks(
+        (from, to) => ztlnPrime.queryFilter(ztlnPrime.filters.ProcessRedemption(), from, to),
+        fromBlock,
+        blockTag
+    )
+
+    const totals = new Map<
+        string,
+        {
+            investor: string
+            asset: string
+            requests: number
+            requested: bigint
+            processed: bigint
+            paid: bigint
+        }
+    >()
+    const entryFor = (investor: string, asset: string) => {
+        const key = `${getAddress(investor)}:${getAddress(asset)}`
+        if (!totals.has(key)) {
+            totals.set(key, {
+                investor: getAddress(investor),
+                asset: getAddress(asset),
+                requests: 0,
+                requested: 0n,
+                processed: 0n,
+                paid: 0n
+            })
+        }
+        return totals.get(key)!
+    }
+    for (const { args } of requests) {
+        const entry = entryFor(args.investor, args.asset)
+        entry.requests++
+        entry.requested += args.shares
+    }
+    for (const { args } of processed) {
+        const entry = entryFor(args.investor, args.asset)
+        entry.processed += args.shares
+        entry.paid += args.amount
+    }
+
+    const price = await ztlnPrime.price(overrides)
+    const assetDecimals = new Map<string, number>()
+    const payoutDue = new Map<string, bigint>()
+    const entries: RedemptionEntry[] = []
+
+    const sorted = [...totals.values()].sort(
+        (a, b) => a.investor.localeCompare(b.investor) || a.asset.localeCompare(b.asset)
+    )
+    for (const { investor, asset, requests, requested, processed, paid } of sorted) {
+        if (!assetDecimals.has(asset)) {
+            const token = IERC20Metadata__factory.connect(asset, provider)
+            assetDecimals.set(asset, Number(await token.decimals(overrides)))
+        }
+        const outstanding = requested > processed ? requested - processed : 0n
+        const payout = quoteRedemption(outstanding, assetDecimals.get(asset)!, price).amount
+        payoutDue.set(asset, (payoutDue.get(asset) ?? 0n) + payout)
+
+        entries.push({
+            investor,
+            asset,
+            requests,
+            requestedShares: requested.toString(),
+            processedShares: processed.toString(),
+            paidAmount: paid.toString(),
+            outstandingShares: outstanding.toString(),
+            payout: payout.toString(),
+            overProcessed: processed > requested
+        })
+    }
+
+    const assets: AssetLiquidity[] = []
+    for (const [asset, due] of payoutDue) {
+        const token = IERC20Metadata__factory.connect(asset, provider)
+        const balance = await token.balanceOf(proxyAddress, overrides)
+        assets.push({
+            asset,
+            symbol: await token.symbol(overrides),
+            decimals: assetDecimals.get(asset)!,
+            vaultBalance: balance.toString(),
+            payoutDue: due.toString(),
+            shortfall: (due > balance ? due - balance : 0n).toString()
+        })
+    }
+
+    return {
+        proxy: getAddress(proxyAddress),
+        chainId: (await provider.getNetwork()).chainId.toString(),
+        fromBlock,
+        blockNumber: blockTag,
+        price: price.toString(),
+        vaultShares: (await ztlnPrime.balanceOf(proxyAddress, overrides)).toString(),
+        outstandingShares: entries
+            .reduce((sum, { outstandingShares }) => sum + BigInt(outstandingShares), 0n)
+            .toString(),
+        entries,
+        assets
+    }
+}
+
+/**
+ * Returns the `processRedemption` calls that settle the queue. Over-processed entries and
+ * assets the vault cannot fully pay out are left out, as are entries with nothing outstanding.
+ */
+export function buildProcessCalls(queue: RedemptionQueue): ProcessRedemptionCall[] {
+    const shortAssets = new Set(
+        queue.assets.filter(({ shortfall }) => shortfall !== '0').map(({ asset }) => asset)
+    )
+    return queue.entries
+        .filter(
+            ({ asset, overProcessed, outstandingShares, payout }) =>
+                !overProcessed &&
+                !shortAssets.has(asset) &&
+                outstandingShares !== '0' &&
+                payout !== '0'
+        )
+        .map(({ investor, asset, payout, outstandingShares }) => ({
+            investor,
+            asset,
+            amount: payout,
+            shares: outstandingShares
+        }))
+}
+
+/**
+ * Lists the problems that block part of the queue from being processed.
+ */
+export function queueWarnings(queue: RedemptionQueue): string[] {
+    const warnings: string[] = []
+    for (const entry of queue.entries) {
+        if (entry.overProcessed) {
+            warnings.push(
+                `Over-processed: ${entry.investor} in ${entry.asset}, ` +
+                    `${entry.processedShares} shares processed of ${entry.requestedShares} requested`
+            )
+        }
+    }
+    for (const { asset, symbol, vaultBalance, payoutDue, shortfall } of queue.assets) {
+        if (shortfall !== '0') {
+            warnings.push(
+                `Insufficient ${symbol} (${asset}) in vault: ${vaultBalance} held, ` +
+                    `${payoutDue} due, ${shortfall} short`
+            )
+        }
+    }
+    if (BigInt(queue.vaultShares) < BigInt(queue.outstandingShares)) {
+        warnings.push(
+            `Vault holds ${queue.vaultShares} ZTLN-P but ${queue.outstandingShares} are outstanding`
+        )
+    }
+    return warnings
+}
+
+export function printQueue(queue: RedemptionQueue) {
+    const outstanding = queue.entries.filter(({ outstandingShares }) => outstandingShares !== '0')
+    console.log(`\n${outstanding.length} outstanding redemption(s) at price ${queue.price}:`)
+    for (const { investor, asset, outstandingShares, payout } of outstanding) {
+        console.log(`  ${investor} ${asset} ${outstandingShares.padStart(20)} -> ${payout}`)
+    }
+}
+
+export function writeRedemptionBatch(
+    queue: RedemptionQueue,
+    calls: ProcessRedemptionCall[],
+    dir = REDEMPTION_DIR
+): string {
+    fs.mkdirSync(dir, { recursive: true })
+    const filePath = path.join(dir, `${queue.chainId}-${queue.proxy}-${queue.blockNumber}.json`)
+    fs.writeFileSync(
+        filePath,
+        JSON.stringify({ queue, warnings: queueWarnings(queue), calls }, null, 4) + '\n'
+    )
+    return filePath
+}
@@ -0,0 +1,83 @@
+import { keccak256, Provider } from 'ethers'
+import fs from 'fs'
+import path from 'path'
+
+import {
+    ContractRecord,
+    currentImplementation,
+    getDeployment,
+    ImplementationRecord,
+    recordImplementation
+} from '../../deployment_config'
+
+/**
+ * Builds the registry record for a deployed contract: the hash of its runtime bytecode and, when
+ * the deployment transaction is known, its hash, block and block timestamp.
+ */
+export async function contractRecord(
+    provider: Provider,
+    address: string,
+    txHash?: string
+): Promise<ContractRecord> {
+    const code = await provider.getCode(address)
+    if (code === '0x') throw new Error(`No contract deployed at ${address}`)
+    const record: ContractRecord = { address, bytecodeHash: keccak256(code) }
+    if (!txHash) return { ...record, deployedAt: new Date().toISOString() }
+
+    const receipt = await provider.getTransactionReceipt(txHash)
+    if (!receipt) throw new Error(`Deployment transaction ${txHash} not found`)
+    const block = await provider.getBlock(receipt.blockNumber)
+    return {
+        ...record,
+        txHash,
+        blockNumber: receipt.blockNumber,
+        deployedAt: new Date(Number(block!.timestamp) * 1000).toISOString()
+    }
+}
+
+/**
+ * Hash of the transaction that deployed an Ignition future (for example `KYCManager#kyc_manager`),
+ * read from the deployment journal. Deployments to the in-process hardhat network keep no journal.
+ */
+export function ignitionDeploymentTx(chainId: number, futureId: string): string | undefined {
+    const journal = path.join(
+        __dirname,
+        `../../ignition/deployments/chain-${chainId}/journal.jsonl`
+    )
+    if (!fs.existsSync(journal)) return undefined
+
+    let txHash: string | undefined
+    for (const line of fs.readFileSync(journal, 'utf8').split('\n')) {
+        if (!line.trim()) continue
+        const message = JSON.parse(line)
+        if (message.type === 'TRANSACTION_CONFIRM' && message.futureId === futureId) {
+            txHash = message.hash
+        }
+    }
+    return txHash
+}
+
+/**
+ * Marks `implementationAddress` active if the proxy has been found pointing at an implementation
+ * the registry only has as proposed, which is the case once a Safe upgrade has been executed.
+ * Returns the active implementation record, or undefined if the registry does not know it.
+ */
+export function syncActiveImplementation(
+    chainId: number,
+    network: string,
+    implementationAddress: string
+): ImplementationRecord | undefined {
+    const deployment = getDeployment(chainId)
+    const matches = ({ address }: ImplementationRecord) =>
+        address.toLowerCase() === implementationAddress.toLowerCase()
+
+    const active = deployment && currentImplementation(deployment)
+    if (active && matches(active)) return active
+
+    const proposed = deployment?.implementations.find(
+        record => record.status === 'proposed' && matches(record)
+    )
+    if (!proposed) return undefined
+    const updated = recordImplementation(chainId, network, { ...proposed, status: 'active' })
+    return currentImplementation(updated)
+}
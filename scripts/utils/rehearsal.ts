@@ -0,0 +1,328 @@
+import { HardhatEthersSigner } from '@nomicfoundation/hardhat-ethers/signers'
+import { Manifest, ManifestData, networkNames } from '@openzeppelin/upgrades-core'
+import { toBeHex } from 'ethers'
+import fs from 'fs'
+import { HardhatRuntimeEnvironment, HttpNetworkConfig } from 'hardhat/types'
+import path from 'path'
+
+import { currentImplementation, requireDeployment } from '../../deployment_config'
+import { KycManager__factory, ZTLNPrime__factory } from '../../typechain-types'
+import { runUpgrade } from './upgrade-flow'
+
+// Account states as written by `anvil --dump-state`
+export interface StateDump {
+    accounts: {
+        [address: string]: {
+            nonce?: number | string
+            balance?: string
+            code?: string
+            storage?: { [slot: string]: string }
+        }
+    }
+}
+
+export interface SmokeTestResult {
+    name: string
+    passed: boolean
+    detail: string
+}
+
+const US_KYC = 1
+
+// Where the OpenZeppelin upgrades plugin keeps the manifests of live networks
+export const MANIFEST_DIR = path.join(__dirname, '../../.openzeppelin')
+
+function assertLocalNetwork(hre: HardhatRuntimeEnvironment) {
+    if (hre.network.name !== 'hardhat') {
+        throw new Error('Rehearsals run on the in-process hardhat network, use --network hardhat')
+    }
+}
+
+/**
+ * Resets the in-process Hardhat network to a fork of `jsonRpcUrl` at the latest block, or at
+ * `blockNumber` when given. The URL can be a remote node or a local one for offline runs.
+ */
+export async function startFork(
+    hre: HardhatRuntimeEnvironment,
+    jsonRpcUrl: string,
+    blockNumber?: number
+) {
+    assertLocalNetwork(hre)
+    await hre.network.provider.request({
+        method: 'hardhat_reset',
+        params: [{ forking: { jsonRpcUrl, blockNumber } }]
+    })
+}
+
+/**
+ * Reads the OpenZeppelin manifest of a live network from `dir`, under either file name the
+ * upgrades plugin gives it.
+ */
+export function readManifest(chainId: number, dir = MANIFEST_DIR): ManifestData {
+    const file = [networkNames[chainId], `unknown-${chainId}`]
+        .map(name => name && path.join(dir, `${name}.json`))
+        .find(file => file && fs.existsSync(file))
+    if (!file) throw new Error(`No OpenZeppelin manifest for chain ${chainId} in ${dir}`)
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as ManifestData
+}
+
+/**
+ * Loads a saved state dump into the in-process Hardhat network. Fork mode inherits the source
+ * chain's OpenZeppelin manifest automatically; a dump does not, so the reference storage
+ * layout of `implementationAddress` is copied over from the manifest of `sourceChainId` in
+ * `manifestDir`.
+ */
+export async function loadStateDump(
+    hre: HardhatRuntimeEnvironment,
+    dumpPath: string,
+    sourceChainId: number,
+    implementationAddress: string,
+    manifestDir = MANIFEST_DIR
+) {
+    assertLocalNetwork(hre)
+    const dump = JSON.parse(fs.readFileSync(dumpPath, 'utf8')) as StateDump
+    const provider = hre.network.provider
+
+    for (const [address, account] of Object.entries(dump.accounts)) {
+        if (account.code) {
+            await provider.request({ method: 'hardhat_setCode', params: [address, account.code] })
+        }
+        if (account.balance !== undefined) {
+            await provider.request({
+                method: 'hardhat_setBalance',
+                params: [address, toBeHex(BigInt(account.balance))]
+            })
+        }
+        if (account.nonce !== undefined) {
+            await provider.request({
+                method: 'hardhat_setNonce',
+                params: [address, toBeHex(BigInt(account.nonce))]
+            })
+        }
+        for (const [slot, value] of Object.entries(account.storage ?? {})) {
+            await provider.request({
+                method: 'hardhat_setStorageAt',
+                params: [address, toBeHex(BigInt(slot), 32), toBeHex(BigInt(value), 32)]
+            })
+        }
+    }
+
+    const source = readManifest(sourceChainId, manifestDir)
+    const reference = Object.entries(source.impls).find(
+        ([, impl]) => impl?.address.toLowerCase() === implementationAddress.toLowerCase()
+    )
+    if (!reference) {
+        throw new Error(
+            `Implementation ${implementationAddress} is not registered in the manifest for chain ${sourceChainId}`
+        )
+    }
+    const manifest = await Manifest.forNetwork(provider)
+    await manifest.lockedRun(async () => {
+        const data = await manifest.read()
+        data.impls[reference[0]] = reference[1]
+        await manifest.write(data)
+    })
+}
+
+/**
+ * Returns the JSON-RPC URL configured for a network in hardhat.config.ts.
+ */
+export function getNetworkUrl(hre: HardhatRuntimeEnvironment, networkName: string): string {
+    const network = hre.config.networks[networkName] as HttpNetworkConfig | undefined
+    if (!network?.url) throw new Error(`No RPC URL configured for network ${networkName}`)
+    return network.url
+}
+
+/**
+ * Impersonates `address` (an EOA, a Ledger account or a Safe) and funds it for gas.
+ */
+export async function impersonate(
+    hre: HardhatRuntimeEnvironment,
+    address: string
+): Promise<HardhatEthersSigner> {
+    await hre.network.provider.request({
+        method: 'hardhat_setBalance',
+        params: [address, toBeHex(hre.ethers.parseEther('100'))]
+    })
+    return hre.ethers.getImpersonatedSigner(address)
+}
+
+/**
+ * Runs deposit, redeem, processRedemption, a restricted transfer and setPrice against an
+ * upgraded proxy, using fresh local accounts as investors and a freshly deployed USDC mock as
+ * the asset. `kycOperator` must be able to grant KYC on the proxy's KycManager.
+ */
+export async function runSmokeTests(
+    hre: HardhatRuntimeEnvironment,
+    proxyAddress: string,
+    admin: HardhatEthersSigner,
+    kycOperator: HardhatEthersSigner
+): Promise<SmokeTestResult[]> {
+    const [, investor, outsider] = await hre.ethers.getSigners()
+    const ztlnPrime = ZTLNPrime__factory.connect(proxyAddress, admin)
+    const kycManager = KycManager__factory.connect(await ztlnPrime._kycManager(), kycOperator)
+
+    const results: SmokeTestResult[] = []
+    const step = async (name: string, run: () => Promise<string>) => {
+        try {
+            results.push({ name, passed: true, detail: await run() })
+        } catch (error) {
+            const detail = error instanceof Error ? error.message : String(error)
+            results.push({ name, passed: false, detail })
+        }
+    }
+
+    // US KYC makes any transfer to a non-KYC address restricted, whether or not strict mode is on
+    await (await kycManager.bulkGrantKyc([investor.address], [US_KYC])).wait()
+    const usdc = await hre.ethers.deployContract('USDC', investor)
+    const originalPrice = await ztlnPrime.price()
+    if (originalPrice === 0n) await (await ztlnPrime.setPrice(100_000_000n)).wait()
+    const price = await ztlnPrime.price()
+
+    const depositAmount = 1_000n * 10n ** 6n
+    let shares = 0n
+
+    await step('deposit', async () => {
+        await (await usdc.approve(proxyAddress, depositAmount)).wait()
+        const before = await ztlnPrime.balanceOf(investor.address)
+        await (
+            await ztlnPrime.connect(investor).deposit(await usdc.getAddress(), depositAmount)
+        ).wait()
+        shares = (await ztlnPrime.balanceOf(investor.address)) - before
+        const expected = (depositAmount * 100_000_000n) / price
+        if (shares !== expected) throw new Error(`minted ${shares} shares, expected ${expected}`)
+        return `${depositAmount} USDC -> ${shares} shares at price ${price}`
+    })
+
+    const redeemShares = shares / 2n
+    await step('redeem', async () => {
+        // redeem pulls the shares with transferFrom, so the vault needs an allowance
+        await (await ztlnPrime.connect(investor).approve(proxyAddress, redeemShares)).wait()
+        await (
+            await ztlnPrime.connect(investor).redeem(redeemShares, await usdc.getAddress())
+        ).wait()
+        const held = await ztlnPrime.balanceOf(proxyAddress)
+        if (held < redeemShares)
+            throw new Error(`vault holds ${held} shares, expected ${redeemShares}`)
+        return `${redeemShares} shares held by the vault`
+    })
+
+    await step('processRedemption', async () => {
+        const payout = (redeemShares * price) / 100_000_000n
+        const supplyBefore = await ztlnPrime.totalSupply()
+        const assetBefore = await usdc.balanceOf(investor.address)
+        await (
+            await ztlnPrime.processRedemption(
+                investor.address,
+                await usdc.getAddress(),
+                payout,
+                redeemShares
+            )
+        ).wait()
+        if ((await ztlnPrime.totalSupply()) !== supplyBefore - redeemShares)
+            throw new Error('shares were not burned')
+        if ((await usdc.balanceOf(investor.address)) !== assetBefore + payout)
+            throw new Error('investor was not paid')
+        return `${redeemShares} shares burned, ${payout} USDC paid out`
+    })
+
+    await step('restricted transfer', async () => {
+        const code = await ztlnPrime.detectTransferRestriction(
+            investor.address,
+            outsider.address,
+            0
+        )
+        try {
+            await ztlnPrime.connect(investor).transfer.staticCall(outsider.address, 1n)
+        } catch {
+            return `transfer to non-KYC address reverted with code ${code}`
+        }
+        throw new Error('transfer to a non-KYC address was not restricted')
+    })
+
+    await step('setPrice', async () => {
+        await (await ztlnPrime.setPrice(price + 1n)).wait()
+        if ((await ztlnPrime.price()) !== price + 1n) throw new Error('price was not updated')
+        // A fund forked without a price keeps the one set for the smoke transactions
+        if (originalPrice === 0n) return `price moved to ${price + 1n}, the fund had no price`
+        await (await ztlnPrime.setPrice(originalPrice)).wait()
+        return `price moved to ${price + 1n} and restored to ${originalPrice}`
+    })
+
+    return results
+}
+
+export interface RehearsalOptions {
+    // Network whose proxy is upgraded, as configured in hardhat.config.ts
+    targetNetwork: string
+    // Admin to impersonate (Ledger account or Safe)
+    admin: string
+    // Account allowed to grant KYC on the KycManager, defaults to the admin
+    kycOperator?: string
+    // RPC to fork, defaults to the target network's RPC URL
+    forkUrl?: string
+    forkBlock?: number
+    // anvil state dump to load instead of forking, for offline rehearsals
+    stateDump?: string
+    fromBlock?: number
+    // Registry to read the target's proxy from, defaults to deployment_registry.json
+    registry?: string
+    // Directory holding the target's OpenZeppelin manifest, defaults to .openzeppelin/
+    manifestDir?: string
+    // Directory to write the pre- and post-upgrade snapshots to, defaults to snapshots/
+    snapshotDir?: string
+}
+
+/**
+ * Rehearses the upgrade of the target network's proxy on the in-process hardhat network: forks
+ * the chain (or loads a state dump), runs the upgrade as the impersonated admin and sends the
+ * smoke transactions. Throws if any of them fails.
+ */
+export async function rehearseUpgrade(hre: HardhatRuntimeEnvironment, options: RehearsalOptions) {
+    const { targetNetwork, admin: adminAddress } = options
+    const chainId = hre.config.networks[targetNetwork]?.chainId
+    const deployment = requireDeployment(chainId, options.registry)
+    const currentProxyAddress = deployment.proxy.address
+
+    console.log('--------Rehearsing Upgrade--------')
+    console.log('Target Network:'.padEnd(50), ':', targetNetwork)
+    console.log('Current Proxy Address:'.padEnd(50), ':', currentProxyAddress)
+    console.log('Impersonated Admin:'.padEnd(50), ':', adminAddress)
+
+    if (options.stateDump) {
+        console.log('State Dump:'.padEnd(50), ':', options.stateDump)
+        const implementation = currentImplementation(deployment)
+        if (!implementation) throw new Error(`No active implementation recorded for ${chainId}`)
+        await loadStateDump(
+            hre,
+            options.stateDump,
+            chainId!,
+            implementation.address,
+            options.manifestDir
+        )
+    } else {
+        const forkUrl = options.forkUrl || getNetworkUrl(hre, targetNetwork)
+        await startFork(hre, forkUrl, options.forkBlock)
+        console.log('Forked At Block:'.padEnd(50), ':', await hre.ethers.provider.getBlockNumber())
+    }
+
+    const admin = await impersonate(hre, adminAddress)
+    const kycOperator = options.kycOperator ? await impersonate(hre, options.kycOperator) : admin
+
+    await runUpgrade(hre, admin, currentProxyAddress, {
+        fromBlock: options.fromBlock,
+        snapshotLabel: 'rehearsal-',
+        snapshotDir: options.snapshotDir,
+        verify: false
+    })
+
+    console.log('\nRunning smoke transactions against the upgraded proxy...')
+    const results = await runSmokeTests(hre, currentProxyAddress, admin, kycOperator)
+    results.forEach(({ name, passed, detail }) => {
+        console.log(`${passed ? 'PASS' : 'FAIL'} ${name.padEnd(20)} ${detail}`)
+    })
+    if (results.some(({ passed }) => !passed)) {
+        throw new Error('Rehearsal smoke transactions failed')
+    }
+    console.log('\nRehearsal completed successfully!')
+}
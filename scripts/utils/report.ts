@@ -0,0 +1,57 @@
+import fs from 'fs'
+import path from 'path'
+
+export const REPORT_DIR = path.join(__dirname, '../../reports')
+
+export type CsvValue = string | number | bigint | boolean | null | undefined
+
+// Quotes a field when it contains a separator, quote or newline (RFC 4180)
+function csvField(value: CsvValue): string {
+    const text = value === null || value === undefined ? '' : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Renders rows as CSV. Columns default to every key that appears in the rows, in first-seen order.
+ */
+export function toCsv<T extends object>(
+    rows: T[],
+    columns: string[] = [...new Set(rows.flatMap(row => Object.keys(row)))]
+): string {
+    const lines = [columns.map(csvField).join(',')]
+    for (const row of rows) {
+        const values = row as Record<string, CsvValue>
+        lines.push(columns.map(column => csvField(values[column])).join(','))
+    }
+    return lines.join('\n') + '\n'
+}
+
+/**
+ * Writes a JSON report and one CSV file per table as `<name>.json` and `<name>-<table>.csv`
+ * under `dir`, and returns the paths written.
+ */
+export function writeReport(
+    name: string,
+    json: unknown,
+    tables: Record<string, object[]> = {},
+    dir = REPORT_DIR
+): string[] {
+    fs.mkdirSync(dir, { recursive: true })
+    const jsonPath = path.join(dir, `${name}.json`)
+    fs.writeFileSync(
+        jsonPath,
+        JSON.stringify(
+            json,
+            (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+            4
+        ) + '\n'
+    )
+
+    const paths = [jsonPath]
+    for (const [table, rows] of Object.entries(tables)) {
+        const csvPath = path.join(dir, `${name}-${table}.csv`)
+        fs.writeFileSync(csvPath, toCsv(rows))
+        paths.push(csvPath)
+    }
+    return paths
+}
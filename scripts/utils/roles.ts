@@ -0,0 +1,380 @@
+import { getAddress, id, isAddress, isHexString, Provider, ZeroHash } from 'ethers'
+import fs from 'fs'
+
+import { IAccessControl__factory } from '../../typechain-types'
+import { findDeploymentBlock, queryInChunks } from './logs'
+import { BatchTransaction, encodeCall } from './safe'
+
+export type RoleContract = 'ztlnPrime' | 'kycManager'
+
+export const ROLE_CONTRACTS: RoleContract[] = ['ztlnPrime', 'kycManager']
+
+// Both contracts define the same two roles, through AdminOperatorRoles(Upgradeable)
+const KNOWN_ROLES: Record<string, string> = {
+    [ZeroHash]: 'DEFAULT_ADMIN_ROLE',
+    [id('OPERATOR_ROLE')]: 'OPERATOR_ROLE'
+}
+
+// EIP-7702 delegation designator: an EOA with delegated code, still controlled by a single key
+const DELEGATION_PREFIX = '0xef0100'
+
+/**
+ * One period in which an account held a role. `revoked*` is unset while it still holds it;
+ * `revokedBy` is the account itself when the role was renounced.
+ */
+export interface RoleGrant {
+    account: string
+    grantedBy: string
+    grantedBlock: number
+    grantedTx: string
+    revokedBy?: string
+    revokedBlock?: number
+    revokedTx?: string
+}
+
+export interface RoleState {
+    role: string
+    name: string
+    // Name of the role whose holders can grant and revoke this one
+    adminRole: string
+    members: string[]
+    // Every grant, oldest first
+    history: RoleGrant[]
+}
+
+export interface ContractRoles {
+    contract: RoleContract
+    address: string
+    fromBlock: number
+    blockNumber: number
+    roles: RoleState[]
+}
+
+export interface RoleExpectation {
+    members: string[]
+    // Every holder must be a contract, i.e. a Safe rather than a single key
+    multisig?: boolean
+    // Defaults to DEFAULT_ADMIN_ROLE
+    adminRole?: string
+}
+
+// Expected holders by role name (or bytes32 id). Roles that are left out must have no holders.
+export type ContractRolePolicy = Record<string, RoleExpectation>
+
+export type RolePolicy = Record<RoleContract, ContractRolePolicy>
+
+export type RoleIssue = 'unexpected' | 'missing' | 'eoa' | 'admin-role'
+
+export interface RoleFinding {
+    contract: RoleContract
+    role: string
+    issue: RoleIssue
+    account?: string
+    detail: string
+}
+
+export interface RoleCall {
+    contract: RoleContract
+    to: string
+    method: 'grantRole' | 'revokeRole'
+    role: string
+    account: string
+    transaction: BatchTransaction
+}
+
+export interface RoleReplayOptions {
+    // Block to audit at, defaults to the latest block
+    blockNumber?: number
+    // First block to replay, defaults to the contract's deployment block
+    fromBlock?: number
+}
+
+// Role arguments may be given by name instead of as a bytes32 id
+export function resolveRole(role: string): string {
+    if (role === 'DEFAULT_ADMIN_ROLE') return ZeroHash
+    return isHexString(role, 32) ? role.toLowerCase() : id(role)
+}
+
+export function roleName(role: string): string {
+    return KNOWN_ROLES[role.toLowerCase()] ?? role.toLowerCase()
+}
+
+// The fields of a role expectation as read from the policy file, before they are checked
+function expectationFields(value: unknown): Partial<Record<keyof RoleExpectation, unknown>> {
+    return typeof value === 'object' && value !== null ? value : {}
+}
+
+/**
+ * Reads an expected-roles policy and returns the entry for `chainId`. The file is keyed by chain
+ * ID like the deployment registry:
+ *
+ *   { "1": { "ztlnPrime": { "DEFAULT_ADMIN_ROLE": { "members": ["0x..."], "multisig": true },
+ *                           "OPERATOR_ROLE": { "members": ["0x..."] } },
+ *            "kycManager": { ... } } }
+ *
+ * Throws listing every problem, and when DEFAULT_ADMIN_ROLE has no members: converging to such
+ * a policy would leave the contract without an admin.
+ */
+export function loadRolePolicy(file: string, chainId: number | bigint | string): RolePolicy {
+    const policies = JSON.parse(fs.readFileSync(file, 'utf8'))
+    const policy = policies[chainId.toString()]
+    if (typeof policy !== 'object' || policy === null) {
+        throw new Error(`${file} has no policy for chain ID ${chainId}`)
+    }
+
+    const errors: string[] = []
+    for (const key of Object.keys(policy)) {
+        if (!ROLE_CONTRACTS.includes(key as RoleContract)) errors.push(`${key}: unknown contract`)
+    }
+    for (const contract of ROLE_CONTRACTS) {
+        const roles = policy[contract]
+        if (typeof roles !== 'object' || roles === null) {
+            errors.push(`${contract}: expected an object of roles`)
+            continue
+        }
+        for (const [role, expectation] of Object.entries<unknown>(roles)) {
+            const where = `${contract}.${role}`
+            const { members, multisig, adminRole } = expectationFields(expectation)
+            if (!Array.isArray(members)) {
+                errors.push(`${where}.members: expected a list of addresses`)
+                continue
+            }
+            members.forEach((member: unknown, index: number) => {
+                if (typeof member !== 'string' || !isAddress(member)) {
+                    errors.push(`${where}.members[${index}]: invalid address`)
+                }
+            })
+            if (multisig !== undefined && typeof multisig !== 'boolean') {
+                errors.push(`${where}.multisig: expected true or false`)
+            }
+            if (adminRole !== undefined && typeof adminRole !== 'string') {
+                errors.push(`${where}.adminRole: expected a role name`)
+            }
+        }
+        const admins = expectationFields(
+            Object.entries<unknown>(roles).find(([role]) => resolveRole(role) === ZeroHash)?.[1]
+        ).members
+        if (!Array.isArray(admins) || !admins.length)
+            errors.push(`${contract}.DEFAULT_ADMIN_ROLE: needs a member`)
+    }
+    if (errors.length) {
+        throw new Error(
+            `Invalid role policy ${file} for chain ID ${chainId}:\n${errors.join('\n')}`
+        )
+    }
+    return policy as RolePolicy
+}
+
+/**
+ * Rebuilds the current and past holders of every role of an AccessControl contract by replaying
+ * its `RoleGranted`, `RoleRevoked` and `RoleAdminChanged` logs in order. DEFAULT_ADMIN_ROLE and
+ * OPERATOR_ROLE are always listed, even without holders. Throws if the replay disagrees with
+ * itself or with `hasRole`, which happens when `fromBlock` is after the contract's deployment
+ * block.
+ */
+export async function replayRoles(
+    provider: Provider,
+    contract: RoleContract,
+    address: string,
+    options: RoleReplayOptions = {}
+): Promise<ContractRoles> {
+    const blockTag = options.blockNumber ?? (await provider.getBlockNumber())
+    const fromBlock = options.fromBlock ?? (await findDeploymentBlock(provider, address, blockTag))
+    const accessControl = IAccessControl__factory.connect(getAddress(address), provider)
+    const events = accessControl.interface
+
+    const logs = await queryInChunks(
+        (from, to) =>
+            provider.getLogs({
+                address: getAddress(address),
+                topics: [
+                    [
+                        events.getEvent('RoleGranted').topicHash,
+                        events.getEvent('RoleRevoked').topicHash,
+                        events.getEvent('RoleAdminChanged').topicHash
+                    ]
+                ],
+                fromBlock: from,
+                toBlock: to
+            }),
+        fromBlock,
+        blockTag
+    )
+    logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+
+    const roles = new Map<string, { adminRole: string; history: RoleGrant[] }>()
+    const roleEntry = (role: string) => {
+        const key = role.toLowerCase()
+        if (!roles.has(key)) roles.set(key, { adminRole: ZeroHash, history: [] })
+        return roles.get(key)!
+    }
+    Object.keys(KNOWN_ROLES).forEach(roleEntry)
+
+    for (const log of logs) {
+        const { name, args } = events.parseLog(log)!
+        const entry = roleEntry(args.role)
+        if (name === 'RoleAdminChanged') {
+            entry.adminRole = args.newAdminRole.toLowerCase()
+            continue
+        }
+        const account = getAddress(args.account)
+        const current = entry.history.find(
+            grant => grant.account === account && grant.revokedBlock === undefined
+        )
+        // AccessControl only logs actual changes, so a revocation without a grant means the
+        // replay started too late
+        const missed = name === 'RoleRevoked' && !current
+        if (missed || (name === 'RoleGranted' && current)) {
+            throw new Error(
+                `${name} of ${roleName(args.role)} for ${account} at block ${log.blockNumber} ` +
+                    'does not follow the replayed history, ' +
+                    "replay from the contract's deployment block"
+            )
+        }
+        if (name === 'RoleGranted') {
+            entry.history.push({
+                account,
+                grantedBy: getAddress(args.sender),
+                grantedBlock: log.blockNumber,
+                grantedTx: log.transactionHash
+            })
+        } else {
+            current!.revokedBy = getAddress(args.sender)
+            current!.revokedBlock = log.blockNumber
+            current!.revokedTx = log.transactionHash
+        }
+    }
+    // Both contracts grant DEFAULT_ADMIN_ROLE when they are deployed or initialised
+    if (!roleEntry(ZeroHash).history.length) {
+        throw new Error(
+            `No DEFAULT_ADMIN_ROLE grant found for ${address} from block ${fromBlock}, ` +
+                `replay from the contract's deployment block`
+        )
+    }
+
+    const states: RoleState[] = []
+    for (const [role, { adminRole, history }] of roles) {
+        const members = history
+            .filter(grant => grant.revokedBlock === undefined)
+            .map(({ account }) => account)
+        for (const member of members) {
+            if (!(await accessControl.hasRole(role, member, { blockTag }))) {
+                throw new Error(
+                    `Replayed ${roleName(role)} holder ${member} of ${address} does not have the ` +
+                        `role at block ${blockTag}, replay from the contract's deployment block`
+                )
+            }
+        }
+        states.push({
+            role,
+            name: roleName(role),
+            adminRole: roleName(adminRole),
+            members: members.sort(),
+            history
+        })
+    }
+
+    return {
+        contract,
+        address: getAddress(address),
+        fromBlock,
+        blockNumber: blockTag,
+        roles: states
+    }
+}
+
+// True when there is no code at the address, or only an EIP-7702 delegation
+async function isEoa(provider: Provider, account: string, blockTag: number): Promise<boolean> {
+    const code = await provider.getCode(account, blockTag)
+    return code === '0x' || code.toLowerCase().startsWith(DELEGATION_PREFIX)
+}
+
+/**
+ * Compares replayed roles with the policy: holders not in the policy, policy members without
+ * the role, EOAs holding or expected to hold a role that requires a multisig, and roles whose
+ * admin role differs from the policy's.
+ */
+export async function auditRoles(
+    provider: Provider,
+    contracts: ContractRoles[],
+    policy: RolePolicy
+): Promise<RoleFinding[]> {
+    const findings: RoleFinding[] = []
+    for (const { contract, blockNumber, roles } of contracts) {
+        const expectations = new Map(
+            Object.entries(policy[contract]).map(([role, expectation]) => [
+                resolveRole(role),
+                expectation
+            ])
+        )
+        const roleIds = [...new Set([...roles.map(({ role }) => role), ...expectations.keys()])]
+        for (const role of roleIds) {
+            const name = roleName(role)
+            const state = roles.find(state => state.role === role)
+            const members = state?.members ?? []
+            const expectation = expectations.get(role) ?? { members: [] }
+            const expected = expectation.members.map(member => getAddress(member))
+            const finding = (issue: RoleIssue, detail: string, account?: string) =>
+                findings.push({ contract, role: name, issue, account, detail })
+
+            for (const account of members.filter(member => !expected.includes(member))) {
+                finding('unexpected', `holds ${name} but is not in the policy`, account)
+            }
+            for (const account of expected.filter(member => !members.includes(member))) {
+                finding('missing', `is in the policy but does not hold ${name}`, account)
+            }
+            if (expectation.multisig) {
+                for (const account of [...new Set([...members, ...expected])].sort()) {
+                    if (await isEoa(provider, account, blockNumber)) {
+                        finding('eoa', `is an EOA but ${name} requires a multisig`, account)
+                    }
+                }
+            }
+            const adminRole = roleName(resolveRole(expectation.adminRole ?? 'DEFAULT_ADMIN_ROLE'))
+            const actualAdminRole = state?.adminRole ?? 'DEFAULT_ADMIN_ROLE'
+            if (actualAdminRole !== adminRole) {
+                finding(
+                    'admin-role',
+                    `is administered by ${actualAdminRole}, expected ${adminRole}`
+                )
+            }
+        }
+    }
+    return findings
+}
+
+/**
+ * Returns the `grantRole` and `revokeRole` calls that bring the holders in line with the policy.
+ * Grants come first and DEFAULT_ADMIN_ROLE revocations last, so that the sender keeps the
+ * rights it needs until the end of the batch. Admin-role mismatches cannot be fixed by a call
+ * and are left to the findings.
+ */
+export function convergeRoles(contracts: ContractRoles[], findings: RoleFinding[]): RoleCall[] {
+    const calls: RoleCall[] = []
+    const accessControl = IAccessControl__factory.createInterface()
+    const call = (finding: RoleFinding, method: RoleCall['method']) => {
+        const { address } = contracts.find(({ contract }) => contract === finding.contract)!
+        const role = resolveRole(finding.role)
+        calls.push({
+            contract: finding.contract,
+            to: address,
+            method,
+            role: finding.role,
+            account: finding.account!,
+            transaction: encodeCall(address, accessControl, method, [role, finding.account])
+        })
+    }
+
+    findings
+        .filter(({ issue }) => issue === 'missing')
+        .forEach(finding => call(finding, 'grantRole'))
+    const revocations = findings.filter(({ issue }) => issue === 'unexpected')
+    const isAdmin = ({ role }: RoleFinding) => role === 'DEFAULT_ADMIN_ROLE'
+    for (const finding of [
+        ...revocations.filter(finding => !isAdmin(finding)),
+        ...revocations.filter(isAdmin)
+    ]) {
+        call(finding, 'revokeRole')
+    }
+    return calls
+}
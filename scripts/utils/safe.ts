@@ -0,0 +1,217 @@
+import {
+    Contract,
+    getAddress,
+    getBytes,
+    Interface,
+    Provider,
+    solidityPacked,
+    TypedDataEncoder,
+    ZeroAddress
+} from 'ethers'
+import fs from 'fs'
+import path from 'path'
+
+export const PROPOSAL_DIR = path.join(__dirname, '../../safe-proposals')
+
+// MultiSendCallOnly v1.3.0, deployed at the same address on every chain the Safe supports
+export const MULTISEND_CALL_ONLY =
+    process.env.SAFE_MULTISEND || '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D'
+
+const MULTISEND_ABI = ['function multiSend(bytes transactions) payable']
+const SAFE_ABI = ['function nonce() view returns (uint256)']
+
+// EIP-712 type of a Safe transaction (Safe >= 1.3.0)
+const SAFE_TX_TYPES = {
+    SafeTx: [
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'data', type: 'bytes' },
+        { name: 'operation', type: 'uint8' },
+        { name: 'safeTxGas', type: 'uint256' },
+        { name: 'baseGas', type: 'uint256' },
+        { name: 'gasPrice', type: 'uint256' },
+        { name: 'gasToken', type: 'address' },
+        { name: 'refundReceiver', type: 'address' },
+        { name: 'nonce', type: 'uint256' }
+    ]
+}
+
+export enum Operation {
+    Call = 0,
+    DelegateCall = 1
+}
+
+// A single call in the Safe Transaction Builder JSON format
+export interface BatchTransaction {
+    to: string
+    value: string
+    data: string
+    contractMethod: null
+    contractInputsValues: null
+}
+
+// A batch file that can be loaded into the Safe Transaction Builder
+export interface BatchFile {
+    version: '1.0'
+    chainId: string
+    createdAt: number
+    meta: {
+        name: string
+        description: string
+        txBuilderVersion: string
+        createdFromSafeAddress: string
+        createdFromOwnerAddress: string
+    }
+    transactions: BatchTransaction[]
+}
+
+// The Safe transaction the batch executes as, and the hash signers are asked to sign
+export interface SafeTransaction {
+    to: string
+    value: string
+    data: string
+    operation: Operation
+    nonce: string
+    safeTxHash: string
+}
+
+export interface Proposal {
+    batch: BatchFile
+    safeTransaction: SafeTransaction
+}
+
+/**
+ * Encodes a contract call as a Transaction Builder entry.
+ */
+export function encodeCall(
+    to: string,
+    contractInterface: Interface,
+    method: string,
+    args: unknown[]
+): BatchTransaction {
+    return {
+        to: getAddress(to),
+        value: '0',
+        data: contractInterface.encodeFunctionData(method, args),
+        contractMethod: null,
+        contractInputsValues: null
+    }
+}
+
+/**
+ * Returns the Safe transaction that the Transaction Builder submits for a batch: the call itself
+ * for a single transaction, otherwise a delegatecall to MultiSendCallOnly.
+ */
+export function toSafeTransaction(transactions: BatchTransaction[]) {
+    if (transactions.length === 1) {
+        const [{ to, value, data }] = transactions
+        return { to, value, data, operation: Operation.Call }
+    }
+
+    const packed = transactions.map(({ to, value, data }) =>
+        solidityPacked(
+            ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+            [Operation.Call, to, value, getBytes(data).length, data]
+        )
+    )
+    const multiSend = new Interface(MULTISEND_ABI)
+    return {
+        to: getAddress(MULTISEND_CALL_ONLY),
+        value: '0',
+        data: multiSend.encodeFunctionData('multiSend', [
+            '0x' + packed.map(p => p.slice(2)).join('')
+        ]),
+        operation: Operation.DelegateCall
+    }
+}
+
+/**
+ * Computes the EIP-712 safeTxHash with no gas refund, as the Safe UI does for batches.
+ */
+export function computeSafeTxHash(
+    chainId: bigint | number | string,
+    safeAddress: string,
+    transaction: { to: string; value: string; data: string; operation: Operation },
+    nonce: bigint | number | string
+): string {
+    return TypedDataEncoder.hash({ chainId, verifyingContract: safeAddress }, SAFE_TX_TYPES, {
+        ...transaction,
+        safeTxGas: 0,
+        baseGas: 0,
+        gasPrice: 0,
+        gasToken: ZeroAddress,
+        refundReceiver: ZeroAddress,
+        nonce
+    })
+}
+
+/**
+ * Builds a Transaction Builder batch for `safeAddress` and computes its safeTxHash. The nonce
+ * defaults to SAFE_NONCE, then to the Safe's current on-chain nonce; pass it explicitly when
+ * other transactions are already queued.
+ */
+export async function buildProposal(
+    provider: Provider,
+    safeAddress: string,
+    name: string,
+    description: string,
+    transactions: BatchTransaction[],
+    nonce?: bigint
+): Promise<Proposal> {
+    if (!transactions.length) throw new Error('A Safe proposal needs at least one transaction')
+
+    const { chainId } = await provider.getNetwork()
+    const safeNonce =
+        nonce ??
+        (process.env.SAFE_NONCE !== undefined && process.env.SAFE_NONCE !== ''
+            ? BigInt(process.env.SAFE_NONCE)
+            : ((await new Contract(safeAddress, SAFE_ABI, provider).nonce()) as bigint))
+
+    const transaction = toSafeTransaction(transactions)
+    return {
+        batch: {
+            version: '1.0',
+            chainId: chainId.toString(),
+            createdAt: Date.now(),
+            meta: {
+                name,
+                description,
+                txBuilderVersion: '1.16.5',
+                createdFromSafeAddress: getAddress(safeAddress),
+                createdFromOwnerAddress: ''
+            },
+            transactions
+        },
+        safeTransaction: {
+            ...transaction,
+            nonce: safeNonce.toString(),
+            safeTxHash: computeSafeTxHash(chainId, safeAddress, transaction, safeNonce)
+        }
+    }
+}
+
+/**
+ * Writes the batch file (importable in the Transaction Builder) and a sidecar with the
+ * resulting Safe transaction and safeTxHash, and prints what signers should cross-check.
+ */
+export function writeProposal(proposal: Proposal, dir = PROPOSAL_DIR): string {
+    fs.mkdirSync(dir, { recursive: true })
+    const { batch, safeTransaction } = proposal
+    const baseName = `${batch.chainId}-${batch.createdAt}-${batch.meta.name.replace(/[^\w-]+/g, '-')}`
+    const batchPath = path.join(dir, `${baseName}.json`)
+
+    fs.writeFileSync(batchPath, JSON.stringify(batch, null, 4) + '\n')
+    fs.writeFileSync(
+        path.join(dir, `${baseName}.safe-tx.json`),
+        JSON.stringify(safeTransaction, null, 4) + '\n'
+    )
+
+    console.log('\nSafe proposal (not broadcast):')
+    console.log('Batch File:'.padEnd(50), ':', batchPath)
+    console.log('Safe:'.padEnd(50), ':', batch.meta.createdFromSafeAddress)
+    console.log('Transactions:'.padEnd(50), ':', batch.transactions.length)
+    console.log('Operation:'.padEnd(50), ':', Operation[safeTransaction.operation])
+    console.log('Nonce:'.padEnd(50), ':', safeTransaction.nonce)
+    console.log('safeTxHash:'.padEnd(50), ':', safeTransaction.safeTxHash)
+    return batchPath
+}
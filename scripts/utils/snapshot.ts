@@ -0,0 +1,224 @@
+import { getAddress, Provider, ZeroAddress } from 'ethers'
+import fs from 'fs'
+import path from 'path'
+
+import { ZTLNPrime__factory } from '../../typechain-types'
+import { findDeploymentBlock, queryInChunks } from './logs'
+
+export const IMPLEMENTATION_SLOT =
+    '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'
+
+export const SNAPSHOT_DIR = path.join(__dirname, '../../snapshots')
+
+export type RoleName = 'DEFAULT_ADMIN_ROLE' | 'OPERATOR_ROLE'
+
+/**
+ * Everything an upgrade must preserve on a ZTLNPrime proxy. Integers are kept as decimal strings
+ * so the snapshot round-trips through JSON.
+ */
+export interface ZTLNSnapshot {
+    proxy: string
+    chainId: string
+    blockNumber: number
+    implementation: string
+    name: string
+    symbol: string
+    decimals: number
+    totalSupply: string
+    price: string
+    paused: boolean
+    custodian: string
+    kycManager: string
+    roles: Record<RoleName, string[]>
+    balances: Record<string, string>
+}
+
+export type SnapshotField =
+    | Exclude<keyof ZTLNSnapshot, 'roles' | 'balances'>
+    | `roles.${RoleName}`
+    | `balances.${string}`
+
+export interface SnapshotChange {
+    field: SnapshotField
+    before: string
+    after: string
+}
+
+export interface SnapshotOptions {
+    // Block to read state at, defaults to the latest block
+    blockNumber?: number
+    // First block to scan for Transfer and role logs, defaults to the proxy's deployment block
+    fromBlock?: number
+}
+
+// Fields that are expected to differ between two snapshots of the same proxy
+const VOLATILE_FIELDS: SnapshotField[] = ['blockNumber', 'implementation']
+
+/**
+ * Returns every account with a non-zero ZTLN-P balance at `blockTag`, sorted by address. Holders
+ * are discovered from `Transfer` logs since `fromBlock` and confirmed with `balanceOf`.
+ */
+export async function findHolders(
+    provider: Provider,
+    proxyAddress: string,
+    fromBlock: number,
+    blockTag: number
+): Promise<Record<string, bigint>> {
+    const ztlnPrime = ZTLNPrime__factory.connect(proxyAddress, provider)
+    const candidates = new Set<string>()
+    const transfers = await queryInChunks(
+        (from, to) => ztlnPrime.queryFilter(ztlnPrime.filters.Transfer(), from, to),
+        fromBlock,
+        blockTag
+    )
+    for (const { args } of transfers) {
+        if (args.to !== ZeroAddress) candidates.add(getAddress(args.to))
+    }
+
+    const holders: Record<string, bigint> = {}
+    for (const holder of [...candidates].sort()) {
+        const balance = await ztlnPrime.balanceOf(holder, { blockTag })
+        if (balance > 0n) holders[holder] = balance
+    }
+    return holders
+}
+
+/**
+ * Returns the members of each ZTLNPrime role at `blockTag`, sorted by address. Candidates are
+ * discovered from `RoleGranted` logs since `fromBlock` and confirmed with `hasRole`.
+ */
+export async function findRoleMembers(
+    provider: Provider,
+    proxyAddress: string,
+    fromBlock: number,
+    blockTag: number
+): Promise<Record<RoleName, string[]>> {
+    const ztlnPrime = ZTLNPrime__factory.connect(proxyAddress, provider)
+    const overrides = { blockTag }
+    const roleIds: Record<RoleName, string> = {
+        DEFAULT_ADMIN_ROLE: await ztlnPrime.DEFAULT_ADMIN_ROLE(overrides),
+        OPERATOR_ROLE: await ztlnPrime.OPERATOR_ROLE(overrides)
+    }
+    const roles = {} as Record<RoleName, string[]>
+    for (const [roleName, role] of Object.entries(roleIds) as [RoleName, string][]) {
+        const granted = await queryInChunks(
+            (from, to) => ztlnPrime.queryFilter(ztlnPrime.filters.RoleGranted(role), from, to),
+            fromBlock,
+            blockTag
+        )
+        const candidates = [...new Set(granted.map(({ args }) => getAddress(args.account)))]
+        const members: string[] = []
+        for (const account of candidates.sort()) {
+            if (await ztlnPrime.hasRole(role, account, overrides)) members.push(account)
+        }
+        roles[roleName] = members
+    }
+    return roles
+}
+
+/**
+ * Reads the full state of a ZTLNPrime proxy at a single block. Holders are discovered from
+ * `Transfer` logs and role members from `RoleGranted` logs, then confirmed with `balanceOf`
+ * and `hasRole` at the snapshot block so revocations and burns are accounted for.
+ */
+export async function takeSnapshot(
+    provider: Provider,
+    proxyAddress: string,
+    options: SnapshotOptions = {}
+): Promise<ZTLNSnapshot> {
+    const blockTag = options.blockNumber ?? (await provider.getBlockNumber())
+    const fromBlock =
+        options.fromBlock ?? (await findDeploymentBlock(provider, proxyAddress, blockTag))
+    const ztlnPrime = ZTLNPrime__factory.connect(proxyAddress, provider)
+    const overrides = { blockTag }
+
+    const balances: Record<string, string> = {}
+    for (const [holder, balance] of Object.entries(
+        await findHolders(provider, proxyAddress, fromBlock, blockTag)
+    )) {
+        balances[holder] = balance.toString()
+    }
+
+    const roles = await findRoleMembers(provider, proxyAddress, fromBlock, blockTag)
+
+    const implementation = await provider.getStorage(proxyAddress, IMPLEMENTATION_SLOT, blockTag)
+
+    return {
+        proxy: getAddress(proxyAddress),
+        chainId: (await provider.getNetwork()).chainId.toString(),
+        blockNumber: blockTag,
+        implementation: getAddress('0x' + implementation.slice(-40)),
+        name: await ztlnPrime.name(overrides),
+        symbol: await ztlnPrime.symbol(overrides),
+        decimals: Number(await ztlnPrime.decimals(overrides)),
+        totalSupply: (await ztlnPrime.totalSupply(overrides)).toString(),
+        price: (await ztlnPrime.price(overrides)).toString(),
+        paused: await ztlnPrime.paused(overrides),
+        custodian: getAddress(await ztlnPrime._custodian(overrides)),
+        kycManager: getAddress(await ztlnPrime._kycManager(overrides)),
+        roles,
+        balances
+    }
+}
+
+/**
+ * Lists every field that differs between two snapshots. Role lists are compared as sets and
+ * balances per holder, with a missing holder reading as a zero balance.
+ */
+export function diffSnapshots(
+    before: ZTLNSnapshot,
+    after: ZTLNSnapshot,
+    ignore: SnapshotField[] = VOLATILE_FIELDS
+): SnapshotChange[] {
+    const changes: SnapshotChange[] = []
+    const record = (field: SnapshotField, a: string, b: string) => {
+        if (a !== b && !ignore.includes(field)) changes.push({ field, before: a, after: b })
+    }
+
+    const scalarFields = Object.keys(before).filter(
+        key => key !== 'roles' && key !== 'balances'
+    ) as Exclude<keyof ZTLNSnapshot, 'roles' | 'balances'>[]
+    for (const field of scalarFields) {
+        record(field, String(before[field]), String(after[field]))
+    }
+
+    for (const role of Object.keys(before.roles) as RoleName[]) {
+        record(
+            `roles.${role}`,
+            [...before.roles[role]].sort().join(','),
+            [...(after.roles[role] ?? [])].sort().join(',')
+        )
+    }
+
+    const holders = new Set([...Object.keys(before.balances), ...Object.keys(after.balances)])
+    for (const holder of [...holders].sort()) {
+        record(`balances.${holder}`, before.balances[holder] ?? '0', after.balances[holder] ?? '0')
+    }
+
+    return changes
+}
+
+export function printDiff(changes: SnapshotChange[]) {
+    if (!changes.length) {
+        console.log('No state differences')
+        return
+    }
+    console.log(`${changes.length} state difference(s):`)
+    for (const { field, before, after } of changes) {
+        console.log(`  ${field.padEnd(60)} ${before || '(empty)'} -> ${after || '(empty)'}`)
+    }
+}
+
+export function writeSnapshot(snapshot: ZTLNSnapshot, label: string, dir = SNAPSHOT_DIR): string {
+    fs.mkdirSync(dir, { recursive: true })
+    const filePath = path.join(
+        dir,
+        `${snapshot.chainId}-${snapshot.proxy}-${snapshot.blockNumber}-${label}.json`
+    )
+    fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 4) + '\n')
+    return filePath
+}
+
+export function readSnapshot(filePath: string): ZTLNSnapshot {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as ZTLNSnapshot
+}
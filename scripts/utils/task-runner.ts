@@ -0,0 +1,244 @@
+import {
+    FetchRequest,
+    getAddress,
+    id,
+    isAddress,
+    isHexString,
+    JsonRpcProvider,
+    Network,
+    Signer,
+    TransactionResponse
+} from 'ethers'
+import fs from 'fs'
+import { types } from 'hardhat/config'
+import { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from 'hardhat/types'
+import readline from 'readline'
+
+import { networkForChain } from '../../network_config'
+
+// Per-request RPC timeout, so an unreachable network fails instead of hanging the run
+const RPC_TIMEOUT = 30_000
+
+export type ParamType = 'address' | 'salt' | 'boolean' | 'int' | 'float' | 'string'
+
+type ParamValue<T extends ParamType> = T extends 'boolean'
+    ? boolean
+    : T extends 'int' | 'float'
+      ? number
+      : string
+
+export interface ParamSpec {
+    type: ParamType
+    // Environment variable the value was read from before the scripts became tasks
+    env?: string
+}
+
+export type ResolvedParams<S extends Record<string, ParamSpec>> = {
+    [K in keyof S]?: ParamValue<S[K]['type']>
+}
+
+// Parameters every task that sends transactions takes, also accepted in the --config-file JSON
+export const RUNNER_PARAMS = {
+    dryRun: { type: 'boolean' },
+    confirmations: { type: 'int' },
+    yes: { type: 'boolean' }
+} satisfies Record<string, ParamSpec>
+
+/**
+ * Adds the RUNNER_PARAMS flags and --config-file to a task definition.
+ */
+export function runnerParams(definition: ConfigurableTaskDefinition) {
+    return definition
+        .addFlag('dryRun', 'Print what would be done without sending any transaction')
+        .addOptionalParam(
+            'confirmations',
+            'Confirmations to wait for on each transaction, defaults to the network registry',
+            undefined,
+            types.int
+        )
+        .addFlag('yes', 'Do not ask before sending transactions on a mainnet')
+        .addOptionalParam(
+            'configFile',
+            'JSON file with values for any of the parameters, overridden by the command line'
+        )
+}
+
+function parseParam(name: string, type: ParamType, value: unknown): string | number | boolean {
+    switch (type) {
+        case 'address':
+            if (typeof value !== 'string' || !isAddress(value)) {
+                throw new Error(`${name} must be an address, got ${JSON.stringify(value)}`)
+            }
+            return getAddress(value)
+        case 'salt':
+            // A 32-byte hex salt is used as is, anything else is a label such as ZTLN-P
+            if (typeof value !== 'string' || !value) {
+                throw new Error(`${name} must be a salt label or 32-byte hex string`)
+            }
+            return isHexString(value, 32) ? value : id(value)
+        case 'boolean':
+            if (typeof value === 'boolean') return value
+            if (value === 'true' || value === 'false') return value === 'true'
+            throw new Error(`${name} must be true or false, got ${JSON.stringify(value)}`)
+        case 'int': {
+            const number = typeof value === 'string' && value.trim() ? Number(value) : value
+            if (typeof number !== 'number' || !Number.isInteger(number) || number < 0) {
+                throw new Error(
+                    `${name} must be a non-negative integer, got ${JSON.stringify(value)}`
+                )
+            }
+            return number
+        }
+        case 'float': {
+            const number = typeof value === 'string' && value.trim() ? Number(value) : value
+            if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) {
+                throw new Error(
+                    `${name} must be a non-negative number, got ${JSON.stringify(value)}`
+                )
+            }
+            return number
+        }
+        case 'string':
+            if (typeof value !== 'string') throw new Error(`${name} must be a string`)
+            return value
+    }
+}
+
+/**
+ * Resolves task parameters from, in order of precedence, the command line, the JSON file given
+ * with --config-file and the environment variables the scripts used before. Every value is checked
+ * against its type and unknown keys in the config file are rejected. Flags only count when set,
+ * so a config file can turn on a flag left off on the command line.
+ */
+export function resolveParams<S extends Record<string, ParamSpec>>(
+    args: Record<string, unknown>,
+    spec: S,
+    configFile?: string
+): ResolvedParams<S> {
+    let config: Record<string, unknown> = {}
+    if (configFile) {
+        config = JSON.parse(fs.readFileSync(configFile, 'utf8'))
+        if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+            throw new Error(`${configFile} must contain a JSON object`)
+        }
+        const unknown = Object.keys(config).filter(key => !(key in spec))
+        if (unknown.length) throw new Error(`Unknown keys in ${configFile}: ${unknown.join(', ')}`)
+    }
+
+    const params: Record<string, unknown> = {}
+    for (const [name, { type, env }] of Object.entries(spec)) {
+        const fromArgs = type === 'boolean' && args[name] === false ? undefined : args[name]
+        const fromEnv = env ? process.env[env] || undefined : undefined
+        const [source, value] =
+            fromArgs !== undefined
+                ? [`--${name}`, fromArgs]
+                : config[name] !== undefined
+                  ? [`${name} in ${configFile}`, config[name]]
+                  : [env, fromEnv]
+        if (value !== undefined) params[name] = parseParam(source!, type, value)
+    }
+    return params as ResolvedParams<S>
+}
+
+export interface RunnerOptions {
+    dryRun?: boolean
+    confirmations?: number
+    // Skip the mainnet confirmation prompt, for unattended runs
+    yes?: boolean
+}
+
+export interface TaskRunner {
+    hre: HardhatRuntimeEnvironment
+    signer: Signer
+    signerAddress: string
+    chainId: number
+    isMainnet: boolean
+    dryRun: boolean
+    confirmations: number
+    // Prints an aligned `Label: value` line like the rest of the scripts
+    log(label: string, value: unknown): void
+    // Asks before the first transaction on a mainnet; throws if the answer is not yes
+    confirm(action: string): Promise<void>
+    // Waits for the configured number of confirmations and logs the transaction
+    wait(label: string, tx: TransactionResponse): Promise<void>
+}
+
+async function ask(question: string): Promise<string> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout })
+    try {
+        return await new Promise(resolve => rl.question(question, resolve))
+    } finally {
+        rl.close()
+    }
+}
+
+/**
+ * Signer, logging and confirmation handling shared by the deployment tasks. The signer is the
+ * network's first account, which is the Ledger account where one is configured.
+ */
+export async function createTaskRunner(
+    hre: HardhatRuntimeEnvironment,
+    options: RunnerOptions = {}
+): Promise<TaskRunner> {
+    const { dryRun = false, yes = false } = options
+    const [signer] = await hre.ethers.getSigners()
+    if (!signer) throw new Error(`No account configured for ${hre.network.name}`)
+    const signerAddress = await signer.getAddress()
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId)
+    // Defaults to what the network registry requires for the chain
+    const network = networkForChain(chainId)
+    const confirmations = options.confirmations ?? network?.confirmations ?? 1
+    const isMainnet = network?.mainnet ?? false
+
+    const log = (label: string, value: unknown) => console.log(`${label}:`.padEnd(50), ':', value)
+
+    log('Network', `${hre.network.name} (${chainId})`)
+    log('Signer', signerAddress)
+    log(
+        'Signer Balance',
+        hre.ethers.formatEther(await hre.ethers.provider.getBalance(signerAddress))
+    )
+    if (dryRun) console.log('Dry run, no transactions will be sent')
+
+    let confirmed = false
+    return {
+        hre,
+        signer,
+        signerAddress,
+        chainId,
+        isMainnet,
+        dryRun,
+        confirmations,
+        log,
+        async confirm(action: string) {
+            if (dryRun) throw new Error(`Refusing to ${action} in a dry run`)
+            if (confirmed || !isMainnet || yes) return
+            if (!process.stdin.isTTY) {
+                throw new Error(
+                    `Refusing to ${action} on ${hre.network.name} without a terminal, pass --yes`
+                )
+            }
+            const answer = await ask(
+                `\nAbout to ${action} on ${hre.network.name} (${chainId}), proceed? [y/N] `
+            )
+            if (!['y', 'yes'].includes(answer.trim().toLowerCase())) throw new Error('Aborted')
+            confirmed = true
+        },
+        async wait(label: string, tx: TransactionResponse) {
+            log(`${label} Transaction`, tx.hash)
+            await tx.wait(confirmations)
+        }
+    }
+}
+
+/**
+ * Provider for a network other than the one selected with --network. Without `chainId` the chain
+ * is detected from the RPC, once.
+ */
+export function rpcProvider(url: string, chainId?: number) {
+    const request = new FetchRequest(url)
+    request.timeout = RPC_TIMEOUT
+    // A static network fails on the first unanswered request instead of retrying forever
+    const network = chainId === undefined ? undefined : Network.from(chainId)
+    return new JsonRpcProvider(request, network, { staticNetwork: true })
+}
@@ -0,0 +1,148 @@
+import { getAddress, Provider } from 'ethers'
+
+import { KycType, RestrictionCode } from '../../sdk/constants'
+import { evaluateTransferRestriction, InvestorKyc, RestrictionRule } from '../../sdk/restrictions'
+import { KycManager__factory, ZTLNPrime__factory } from '../../typechain-types'
+
+/**
+ * Hypothetical changes to evaluate transfers under, applied on top of the live KycManager state.
+ */
+export interface RestrictionOverrides {
+    strict?: boolean
+    investors?: Record<string, Partial<InvestorKyc>>
+}
+
+export interface TransferPair {
+    from: string
+    to: string
+}
+
+export interface SimulatedTransfer extends TransferPair {
+    code: RestrictionCode
+    message: string
+    rule: RestrictionRule
+    // Outcome under the live state, when overrides were given
+    liveCode?: RestrictionCode
+    liveRule?: RestrictionRule
+    changed?: boolean
+}
+
+export interface Simulation {
+    proxy: string
+    kycManager: string
+    strict: boolean
+    liveStrict: boolean
+    transfers: SimulatedTransfer[]
+}
+
+/**
+ * Evaluates the ERC-1404 rules for each pair against the live KycManager state, or against that
+ * state with `overrides` applied. Results under the live state are cross-checked against the
+ * contract's own `detectTransferRestriction` and messages come from
+ * `messageForTransferRestriction`, so the simulation cannot silently drift from the deployed rules.
+ */
+export async function simulateTransfers(
+    provider: Provider,
+    proxyAddress: string,
+    pairs: TransferPair[],
+    overrides: RestrictionOverrides = {}
+): Promise<Simulation> {
+    const ztlnPrime = ZTLNPrime__factory.connect(proxyAddress, provider)
+    const kycManagerAddress = await ztlnPrime._kycManager()
+    const kycManager = KycManager__factory.connect(kycManagerAddress, provider)
+    const vault = getAddress(proxyAddress)
+
+    const liveStrict = await kycManager.isStrict()
+    const strict = overrides.strict ?? liveStrict
+    const hypotheticalInvestors = Object.fromEntries(
+        Object.entries(overrides.investors ?? {}).map(([address, kyc]) => [
+            getAddress(address),
+            kyc
+        ])
+    )
+    const hypothetical =
+        overrides.strict !== undefined || Object.keys(hypotheticalInvestors).length > 0
+
+    const liveKyc = new Map<string, InvestorKyc>()
+    for (const { user, kycType, isBanned } of await kycManager.getAllUserInfo()) {
+        liveKyc.set(getAddress(user), { kycType: Number(kycType) as KycType, isBanned })
+    }
+    const live = async (address: string): Promise<InvestorKyc> => {
+        if (!liveKyc.has(address)) {
+            // Banned-only addresses are not in getAllUserInfo
+            const { kycType, isBanned } = await kycManager.getUserInfo(address)
+            liveKyc.set(address, { kycType: Number(kycType) as KycType, isBanned })
+        }
+        return liveKyc.get(address)!
+    }
+
+    const messages = new Map<RestrictionCode, string>()
+    const message = async (code: RestrictionCode) => {
+        if (!messages.has(code)) {
+            messages.set(code, await ztlnPrime.messageForTransferRestriction(code))
+        }
+        return messages.get(code)!
+    }
+
+    const checked = new Set<string>()
+    const transfers: SimulatedTransfer[] = []
+    for (const pair of pairs) {
+        const from = getAddress(pair.from)
+        const to = getAddress(pair.to)
+        const liveFrom = await live(from)
+        const liveTo = await live(to)
+        const liveResult = evaluateTransferRestriction(liveFrom, liveTo, liveStrict, to === vault)
+
+        // One contract call per combination of sender and receiver state is enough to catch drift.
+        // The vault exemption lives in _update, detectTransferRestriction still applies its rules.
+        const stateKey = JSON.stringify([liveFrom, liveTo])
+        if (to !== vault && !checked.has(stateKey)) {
+            checked.add(stateKey)
+            const onChain = Number(await ztlnPrime.detectTransferRestriction(from, to, 0))
+            if (onChain !== liveResult.code) {
+                throw new Error(
+                    `Simulated code ${liveResult.code} for ${from} -> ${to} differs from the ` +
+                        `contract's ${onChain}, the deployed rules have changed`
+                )
+            }
+        }
+
+        if (!hypothetical) {
+            const { code, rule } = liveResult
+            transfers.push({ from, to, code, message: await message(code), rule })
+            continue
+        }
+
+        const { code, rule } = evaluateTransferRestriction(
+            { ...liveFrom, ...hypotheticalInvestors[from] },
+            { ...liveTo, ...hypotheticalInvestors[to] },
+            strict,
+            to === vault
+        )
+        transfers.push({
+            from,
+            to,
+            code,
+            message: await message(code),
+            rule,
+            liveCode: liveResult.code,
+            liveRule: liveResult.rule,
+            changed: code !== liveResult.code
+        })
+    }
+
+    return {
+        proxy: vault,
+        kycManager: getAddress(kycManagerAddress),
+        strict,
+        liveStrict,
+        transfers
+    }
+}
+
+/**
+ * Every ordered pair of distinct holders.
+ */
+export function allPairs(holders: string[]): TransferPair[] {
+    return holders.flatMap(from => holders.filter(to => to !== from).map(to => ({ from, to })))
+}
@@ -0,0 +1,240 @@
+import { Manifest } from '@openzeppelin/upgrades-core'
+import { ContractFactory, Signer } from 'ethers'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+
+import { recordImplementation } from '../../deployment_config'
+import { ZTLNPrime__factory } from '../../typechain-types'
+import { bytecodeMatches, localBytecode } from './drift'
+import { contractRecord } from './registry'
+import { buildProposal, encodeCall, writeProposal } from './safe'
+import { diffSnapshots, printDiff, takeSnapshot, writeSnapshot, ZTLNSnapshot } from './snapshot'
+
+export interface UpgradeOptions {
+    // First block to scan for holders and role members, defaults to the proxy deployment block
+    fromBlock?: number
+    // Prefix for the snapshot files written before and after the upgrade
+    snapshotLabel?: string
+    // Directory to write the snapshots to, defaults to snapshots/
+    snapshotDir?: string
+    // Verify the new implementation on the block explorer
+    verify?: boolean
+    // Admin Safe: write upgradeToAndCall as a Safe proposal instead of sending it from the signer
+    safeAddress?: string
+    // Confirmations to wait for on the upgrade transaction
+    confirmations?: number
+}
+
+export interface UpgradeResult {
+    newImplementationAddress: string
+    preUpgradeState: ZTLNSnapshot
+    // Unset in Safe mode, where the upgrade is only proposed
+    postUpgradeState?: ZTLNSnapshot
+    proposalPath?: string
+    // Unset in Safe mode
+    upgradeTxHash?: string
+}
+
+/**
+ * Compares the storage layout of the implementation currently behind the proxy with the new
+ * build and runs the UUPS safety checks (constructors, selfdestruct, delegatecall, upgrade
+ * function present). Throws before anything is sent if the upgrade is not safe.
+ */
+export async function assertUpgradeSafe(
+    hre: HardhatRuntimeEnvironment,
+    proxyAddress: string,
+    factory: ContractFactory
+) {
+    try {
+        await hre.upgrades.validateUpgrade(proxyAddress, factory, { kind: 'uups' })
+    } catch (error) {
+        if (error instanceof Error && error.message.includes('is not registered')) {
+            throw new Error(
+                'The storage layout of the current implementation is unknown on this network. ' +
+                    'Register it with scripts/import-implementation.ts from the source revision ' +
+                    'it was built from.'
+            )
+        }
+        throw error
+    }
+}
+
+/**
+ * Registers the storage layout of the implementation behind `proxyAddress` in the OpenZeppelin
+ * network manifest. The layout is taken from the local build, so this refuses unless the local
+ * runtime bytecode matches the deployed code, immutables and compiler metadata aside.
+ */
+export async function importDeployedLayout(hre: HardhatRuntimeEnvironment, proxyAddress: string) {
+    const implementationAddress = await hre.upgrades.erc1967.getImplementationAddress(proxyAddress)
+    const local = await localBytecode(hre, 'contracts/v3/ZTLNPrime.sol:ZTLNPrime')
+    if (!bytecodeMatches(await hre.ethers.provider.getCode(implementationAddress), local)) {
+        throw new Error(
+            'The local ZTLNPrime build differs from the implementation at ' +
+                `${implementationAddress}. Check out the source revision it was built from ` +
+                'and compile again before importing its layout.'
+        )
+    }
+    const factory = await hre.ethers.getContractFactory('ZTLNPrime')
+    await hre.upgrades.forceImport(proxyAddress, factory, { kind: 'uups' })
+}
+
+/**
+ * Upgrades a ZTLNPrime proxy to the current build: validates the upgrade, snapshots state,
+ * deploys the new implementation, calls `upgradeToAndCall` from `signer` and checks that the
+ * snapshot taken afterwards matches the one taken before.
+ *
+ * With `safeAddress` the signer only deploys the implementation; the `upgradeToAndCall` call is
+ * written to disk as a Safe Transaction Builder batch for the Safe owners to sign.
+ */
+export async function runUpgrade(
+    hre: HardhatRuntimeEnvironment,
+    signer: Signer,
+    proxyAddress: string,
+    options: UpgradeOptions = {}
+): Promise<UpgradeResult> {
+    const {
+        fromBlock,
+        snapshotLabel = '',
+        snapshotDir,
+        verify = true,
+        safeAddress,
+        confirmations
+    } = options
+    const adminAddress = safeAddress ?? (await signer.getAddress())
+
+    const currentImplAddress = await hre.upgrades.erc1967.getImplementationAddress(proxyAddress)
+    console.log('Current Implementation Address:'.padEnd(50), ':', currentImplAddress)
+
+    // Check storage layout compatibility before touching the chain
+    console.log('\nValidating storage layout and upgrade safety...')
+    const FZTLNPrimeFactory = await hre.ethers.getContractFactory('ZTLNPrime', signer)
+    await assertUpgradeSafe(hre, proxyAddress, FZTLNPrimeFactory)
+    console.log('New implementation is upgrade safe')
+
+    // Get current state before upgrade
+    const currentRouter = ZTLNPrime__factory.connect(proxyAddress, signer)
+
+    const preUpgradeState = await takeSnapshot(hre.ethers.provider, proxyAddress, { fromBlock })
+    console.log(
+        '\nPre-upgrade snapshot written to:',
+        writeSnapshot(preUpgradeState, `${snapshotLabel}pre-upgrade`, snapshotDir)
+    )
+
+    // Check if the signer (or the Safe) has DEFAULT_ADMIN_ROLE
+    const DEFAULT_ADMIN_ROLE = await currentRouter.DEFAULT_ADMIN_ROLE()
+    if (!(await currentRouter.hasRole(DEFAULT_ADMIN_ROLE, adminAddress))) {
+        throw new Error(`${safeAddress ? 'Safe' : 'Deployer'} does not have DEFAULT_ADMIN_ROLE`)
+    }
+
+    // Deploy new implementation. prepareUpgrade validates again and records the new layout in
+    // the network manifest so the next upgrade is checked against it.
+    console.log('\nDeploying new implementation...')
+    const newImplementationAddress = (await hre.upgrades.prepareUpgrade(
+        proxyAddress,
+        FZTLNPrimeFactory,
+        { kind: 'uups' }
+    )) as string
+    console.log('New Implementation Address:'.padEnd(50), ':', newImplementationAddress)
+
+    if (safeAddress) {
+        const proposal = await buildProposal(
+            hre.ethers.provider,
+            safeAddress,
+            'Upgrade ZTLNPrime',
+            `Upgrade proxy ${proxyAddress} to implementation ${newImplementationAddress}`,
+            [
+                encodeCall(proxyAddress, currentRouter.interface, 'upgradeToAndCall', [
+                    newImplementationAddress,
+                    '0x'
+                ])
+            ]
+        )
+        const proposalPath = writeProposal(proposal)
+        if (verify) await verifyImplementation(hre, newImplementationAddress)
+        return { newImplementationAddress, preUpgradeState, proposalPath }
+    }
+
+    console.log('\nUpgrading implementation...')
+    const upgradeTx = await currentRouter.upgradeToAndCall(
+        newImplementationAddress,
+        '0x' // No initialization data needed for upgrade
+    )
+    await upgradeTx.wait(confirmations)
+    console.log('Upgrade transaction completed')
+
+    // Verify state after upgrade
+    const postUpgradeState = await takeSnapshot(hre.ethers.provider, proxyAddress, { fromBlock })
+    console.log(
+        'Post-upgrade snapshot written to:',
+        writeSnapshot(postUpgradeState, `${snapshotLabel}post-upgrade`, snapshotDir)
+    )
+
+    if (postUpgradeState.implementation.toLowerCase() !== newImplementationAddress.toLowerCase()) {
+        throw new Error(`Proxy points at ${postUpgradeState.implementation} after upgrade`)
+    }
+
+    // Verify state preservation
+    const differences = diffSnapshots(preUpgradeState, postUpgradeState)
+    printDiff(differences)
+    if (differences.length) {
+        throw new Error('State variables changed during upgrade')
+    }
+    console.log('\nAll state variables preserved successfully!')
+
+    if (verify) await verifyImplementation(hre, newImplementationAddress)
+
+    return {
+        newImplementationAddress,
+        preUpgradeState,
+        postUpgradeState,
+        upgradeTxHash: upgradeTx.hash
+    }
+}
+
+/**
+ * Appends the new implementation to the network's implementation history. A Safe upgrade stays
+ * proposed until it is executed; the OpenZeppelin manifest knows the transaction that deployed
+ * the implementation.
+ */
+export async function recordUpgrade(
+    hre: HardhatRuntimeEnvironment,
+    chainId: number,
+    { newImplementationAddress, upgradeTxHash, proposalPath }: UpgradeResult
+) {
+    const { txHash } = await (
+        await Manifest.forNetwork(hre.network.provider)
+    ).getDeploymentFromAddress(newImplementationAddress)
+    const implementation = await contractRecord(
+        hre.ethers.provider,
+        newImplementationAddress,
+        txHash
+    )
+    if (upgradeTxHash) {
+        const receipt = await hre.ethers.provider.getTransactionReceipt(upgradeTxHash)
+        const block = await hre.ethers.provider.getBlock(receipt!.blockNumber)
+        recordImplementation(chainId, hre.network.name, {
+            ...implementation,
+            status: 'active',
+            activatedTxHash: upgradeTxHash,
+            activatedBlockNumber: receipt!.blockNumber,
+            activatedAt: new Date(block!.timestamp * 1000).toISOString()
+        })
+    } else {
+        recordImplementation(chainId, hre.network.name, {
+            ...implementation,
+            status: 'proposed',
+            proposal: proposalPath
+        })
+    }
+}
+
+async function verifyImplementation(hre: HardhatRuntimeEnvironment, address: string) {
+    try {
+        await hre.run('verify:verify', {
+            address,
+            contract: 'contracts/v3/ZTLNPrime.sol:ZTLNPrime'
+        })
+        console.log('New implementation verified successfully')
+    } catch (error) {
+        console.error('Error verifying new implementation:', error)
+    }
+}
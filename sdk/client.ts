@@ -0,0 +1,250 @@
+import {
+    ContractRunner,
+    ContractTransactionReceipt,
+    ContractTransactionResponse,
+    formatUnits,
+    parseUnits
+} from 'ethers'
+
+import {
+    IERC20Metadata__factory,
+    KycManager,
+    KycManager__factory,
+    ZTLNPrime,
+    ZTLNPrime__factory
+} from '../typechain-types'
+import {
+    KycType,
+    PRICE_DECIMALS,
+    RESTRICTION_MESSAGES,
+    RestrictionCode,
+    SHARE_DECIMALS
+} from './constants'
+import { DEPLOYMENTS, SdkRegistry } from './deployments'
+import { decodeError } from './errors'
+import { previewDeposit, previewRedemption } from './math'
+
+export interface TransferCheck {
+    allowed: boolean
+    code: RestrictionCode
+    message: string
+}
+
+export interface DepositResult {
+    shares: bigint
+    receipt: ContractTransactionReceipt
+}
+
+/**
+ * High-level client for a ZTLNPrime proxy and its KycManager. Amounts are taken in human units
+ * ("1000.5") and converted with the asset's decimals, the 6 share decimals and the 1e8 price
+ * precision; reverts are rethrown as the typed errors from ./errors.
+ */
+export class ZtlnClient {
+    readonly ztlnPrime: ZTLNPrime
+    private readonly assetDecimals = new Map<string, number>()
+
+    constructor(
+        proxyAddress: string,
+        readonly runner: ContractRunner
+    ) {
+        this.ztlnPrime = ZTLNPrime__factory.connect(proxyAddress, runner)
+    }
+
+    /**
+     * Connects to the proxy recorded for `chainId` in `registry`, by default the deployment
+     * registry bundled with the SDK.
+     */
+    static forChain(
+        chainId: number,
+        runner: ContractRunner,
+        registry: SdkRegistry = DEPLOYMENTS
+    ): ZtlnClient {
+        const proxy = registry[chainId]?.proxy
+        if (!proxy) throw new Error(`No ZTLNPrime proxy deployed on chain ${chainId}`)
+        return new ZtlnClient(proxy.address, runner)
+    }
+
+    async kycManager(): Promise<KycManager> {
+        return KycManager__factory.connect(
+            await this.call(() => this.ztlnPrime._kycManager()),
+            this.runner
+        )
+    }
+
+    async decimalsOf(asset: string): Promise<number> {
+        const key = asset.toLowerCase()
+        if (!this.assetDecimals.has(key)) {
+            const decimals = await IERC20Metadata__factory.connect(asset, this.runner).decimals()
+            this.assetDecimals.set(key, Number(decimals))
+        }
+        return this.assetDecimals.get(key)!
+    }
+
+    parseShares(humanShares: string): bigint {
+        return parseUnits(humanShares, SHARE_DECIMALS)
+    }
+
+    formatShares(shares: bigint): string {
+        return formatUnits(shares, SHARE_DECIMALS)
+    }
+
+    async price(): Promise<bigint> {
+        return this.call(() => this.ztlnPrime.price())
+    }
+
+    async nav(): Promise<string> {
+        return formatUnits(await this.price(), PRICE_DECIMALS)
+    }
+
+    /**
+     * Shares a deposit of `humanAmount` of `asset` would mint at the current price.
+     */
+    async previewDeposit(asset: string, humanAmount: string): Promise<bigint> {
+        const decimals = await this.decimalsOf(asset)
+        return previewDeposit(parseUnits(humanAmount, decimals), decimals, await this.price())
+    }
+
+    /**
+     * Asset amount `humanShares` pay out at the current price.
+     */
+    async previewRedemption(asset: string, humanShares: string): Promise<bigint> {
+        return previewRedemption(
+            this.parseShares(humanShares),
+            await this.decimalsOf(asset),
+            await this.price()
+        )
+    }
+
+    /**
+     * Deposits `humanAmount` of `asset`, approving the vault first if the allowance is short.
+     */
+    async deposit(asset: string, humanAmount: string): Promise<DepositResult> {
+        const amount = parseUnits(humanAmount, await this.decimalsOf(asset))
+        const token = IERC20Metadata__factory.connect(asset, this.runner)
+        const owner = await this.signerAddress()
+        const vault = await this.ztlnPrime.getAddress()
+
+        if ((await token.allowance(owner, vault)) < amount) {
+            await this.send(() => token.approve(vault, amount))
+        }
+
+        const receipt = await this.send(() => this.ztlnPrime.deposit(asset, amount))
+        const event = receipt.logs
+            .map(log => this.ztlnPrime.interface.parseLog(log))
+            .find(parsed => parsed?.name === 'Deposit')
+        return { shares: event?.args.shares ?? 0n, receipt }
+    }
+
+    /**
+     * Moves `humanShares` into the vault and emits `RequestRedemption` for an operator to process.
+     */
+    async requestRedemption(
+        humanShares: string,
+        asset: string
+    ): Promise<ContractTransactionReceipt> {
+        const shares = this.parseShares(humanShares)
+        const vault = await this.ztlnPrime.getAddress()
+        if ((await this.ztlnPrime.allowance(await this.signerAddress(), vault)) < shares) {
+            await this.send(() => this.ztlnPrime.approve(vault, shares))
+        }
+        return this.send(() => this.ztlnPrime.redeem(shares, asset))
+    }
+
+    /**
+     * Burns `humanShares` held by the vault and pays `investor` in `asset`, at the current price
+     * unless an explicit `amount` in asset units is given. Operator or admin only.
+     */
+    async processRedemption(
+        investor: string,
+        asset: string,
+        humanShares: string,
+        amount?: bigint
+    ): Promise<ContractTransactionReceipt> {
+        const shares = this.parseShares(humanShares)
+        const payout = amount ?? (await this.previewRedemption(asset, humanShares))
+        return this.send(() => this.ztlnPrime.processRedemption(investor, asset, payout, shares))
+    }
+
+    /**
+     * Publishes the NAV per share, e.g. "1.0234", as a 1e8-scaled price. Operator or admin only.
+     */
+    async setNav(humanPrice: string): Promise<ContractTransactionReceipt> {
+        const price = parseUnits(humanPrice, PRICE_DECIMALS)
+        return this.send(() => this.ztlnPrime.setPrice(price))
+    }
+
+    /**
+     * Evaluates the ERC-1404 rules for a transfer from `from` to `to`.
+     */
+    async canTransfer(from: string, to: string): Promise<TransferCheck> {
+        const code = Number(
+            await this.call(() => this.ztlnPrime.detectTransferRestriction(from, to, 0))
+        ) as RestrictionCode
+        return {
+            allowed: code === RestrictionCode.SUCCESS,
+            code,
+            message: RESTRICTION_MESSAGES[code] ?? ''
+        }
+    }
+
+    async kycStatus(investor: string): Promise<{ kycType: KycType; isBanned: boolean }> {
+        const kycManager = await this.kycManager()
+        const { kycType, isBanned } = await this.call(() => kycManager.getUserInfo(investor))
+        return { kycType: Number(kycType) as KycType, isBanned }
+    }
+
+    /**
+     * Grants `kycType` to every investor in one `bulkGrantKyc` call. Operator or admin only.
+     */
+    async grantKyc(investors: string[], kycType: KycType): Promise<ContractTransactionReceipt> {
+        const kycManager = await this.kycManager()
+        return this.send(() =>
+            kycManager.bulkGrantKyc(
+                investors,
+                investors.map(() => kycType)
+            )
+        )
+    }
+
+    async revokeKyc(investors: string[]): Promise<ContractTransactionReceipt> {
+        const kycManager = await this.kycManager()
+        return this.send(() => kycManager.bulkRevokeKyc(investors))
+    }
+
+    async ban(investors: string[]): Promise<ContractTransactionReceipt> {
+        const kycManager = await this.kycManager()
+        return this.send(() => kycManager.bulkBan(investors))
+    }
+
+    async unban(investors: string[]): Promise<ContractTransactionReceipt> {
+        const kycManager = await this.kycManager()
+        return this.send(() => kycManager.bulkUnBan(investors))
+    }
+
+    private async signerAddress(): Promise<string> {
+        const signer = this.runner as { getAddress?: () => Promise<string> }
+        if (!signer.getAddress) throw new Error('A signer is required for transactions')
+        return signer.getAddress()
+    }
+
+    private async call<T>(read: () => Promise<T>): Promise<T> {
+        try {
+            return await read()
+        } catch (error) {
+            throw decodeError(error)
+        }
+    }
+
+    private async send(
+        submit: () => Promise<ContractTransactionResponse>
+    ): Promise<ContractTransactionReceipt> {
+        try {
+            const receipt = await (await submit()).wait()
+            if (!receipt) throw new Error('Transaction was dropped')
+            return receipt
+        } catch (error) {
+            throw decodeError(error)
+        }
+    }
+}
@@ -0,0 +1,26 @@
+// ZTLN-P shares use 6 decimals, see ZTLNPrime.decimals
+export const SHARE_DECIMALS = 6
+
+// ZTLNPrime.price is the value of one share in 1e8 precision
+export const PRICE_DECIMALS = 8
+export const PRICE_PRECISION = 10n ** BigInt(PRICE_DECIMALS)
+
+// Mirrors IKycManager.KycType
+export enum KycType {
+    NON_KYC = 0,
+    US_KYC = 1,
+    GENERAL_KYC = 2
+}
+
+// ERC-1066 restriction codes from contracts/interfaces/Errors.sol
+export enum RestrictionCode {
+    SUCCESS = 0x01,
+    DISALLOWED_OR_STOP = 0x10,
+    REVOKED_OR_BANNED = 0x16
+}
+
+export const RESTRICTION_MESSAGES: Record<RestrictionCode, string> = {
+    [RestrictionCode.SUCCESS]: 'Success',
+    [RestrictionCode.DISALLOWED_OR_STOP]: 'User is not KYCed',
+    [RestrictionCode.REVOKED_OR_BANNED]: 'User is banned'
+}
@@ -0,0 +1,15 @@
+import registry from '../deployment_registry.json'
+
+// The fields of a deployment_config.ts ChainDeployment the SDK reads. The registry is imported as
+// JSON rather than through deployment_config.ts, which needs fs and cannot be bundled for browsers.
+export interface SdkDeployment {
+    network: string
+    chainId: number
+    proxy?: { address: string }
+    kycManager?: { address: string }
+}
+
+export type SdkRegistry = Record<string, SdkDeployment>
+
+// deployment_registry.json as of this build, keyed by chain ID
+export const DEPLOYMENTS: SdkRegistry = registry
@@ -0,0 +1,196 @@
+import { ErrorDescription, Interface, isHexString, Result } from 'ethers'
+
+import { KycManager__factory, ZTLNPrime__factory } from '../typechain-types'
+import { RESTRICTION_MESSAGES, RestrictionCode } from './constants'
+
+// Custom errors declared in contracts/interfaces/Errors.sol
+const ERRORS_ABI = [
+    'error PermissionDenied()',
+    'error InvalidAddress(address addr)',
+    'error InvalidAmount(uint256 amount)',
+    'error UserMissingKyc(address user)',
+    'error UserBanned(address user)',
+    'error RedemptionQueueEmpty()',
+    'error NoExcessReserves()',
+    'error InsufficientBalance(uint256 current, uint256 needed)',
+    'error InsufficientAllowance(uint256 current, uint256 needed)',
+    'error MinimumDepositRequired(uint256 minimum)',
+    'error MinimumInitialDepositRequired(uint256 minimum)',
+    'error MaximumDepositExceeded(uint256 maximum)',
+    'error MinimumWithdrawRequired(uint256 minimum)',
+    'error MaximumWithdrawExceeded(uint256 maximum)'
+]
+
+// Errors.sol plus the OpenZeppelin errors (ERC20, AccessControl, Pausable, UUPS) either contract can raise
+const errorInterface = new Interface([
+    ...ERRORS_ABI,
+    ...[...ZTLNPrime__factory.abi, ...KycManager__factory.abi].filter(
+        fragment =>
+            fragment.type === 'error' && !ERRORS_ABI.some(e => e.includes(` ${fragment.name}(`))
+    )
+])
+
+/**
+ * Base class of every error raised by the SDK.
+ */
+export class ZtlnError extends Error {
+    readonly cause?: unknown
+
+    constructor(message: string, cause?: unknown) {
+        super(message)
+        this.name = new.target.name
+        this.cause = cause
+    }
+}
+
+/**
+ * A transaction or call reverted with a custom error. `errorName` and `args` are the decoded
+ * error; the subclasses below expose the arguments of the Errors.sol errors as typed fields.
+ */
+export class ContractRevertError extends ZtlnError {
+    constructor(
+        readonly errorName: string,
+        readonly args: Result | unknown[],
+        message: string,
+        cause?: unknown
+    ) {
+        super(message, cause)
+    }
+}
+
+export class PermissionDeniedError extends ContractRevertError {
+    constructor(cause?: unknown) {
+        super('PermissionDenied', [], 'Caller is neither admin nor operator', cause)
+    }
+}
+
+export class InvalidAddressError extends ContractRevertError {
+    constructor(
+        readonly address: string,
+        cause?: unknown
+    ) {
+        super('InvalidAddress', [address], `Invalid address ${address}`, cause)
+    }
+}
+
+export class InvalidAmountError extends ContractRevertError {
+    constructor(
+        readonly amount: bigint,
+        cause?: unknown
+    ) {
+        super('InvalidAmount', [amount], `Invalid amount ${amount}`, cause)
+    }
+}
+
+export class UserMissingKycError extends ContractRevertError {
+    constructor(
+        readonly user: string,
+        cause?: unknown
+    ) {
+        super('UserMissingKyc', [user], `${user} is not KYCed`, cause)
+    }
+}
+
+export class UserBannedError extends ContractRevertError {
+    constructor(
+        readonly user: string,
+        cause?: unknown
+    ) {
+        super('UserBanned', [user], `${user} is banned`, cause)
+    }
+}
+
+export class InsufficientBalanceError extends ContractRevertError {
+    constructor(
+        readonly current: bigint,
+        readonly needed: bigint,
+        cause?: unknown
+    ) {
+        super('InsufficientBalance', [current, needed], `Balance ${current} < ${needed}`, cause)
+    }
+}
+
+export class InsufficientAllowanceError extends ContractRevertError {
+    constructor(
+        readonly current: bigint,
+        readonly needed: bigint,
+        cause?: unknown
+    ) {
+        super('InsufficientAllowance', [current, needed], `Allowance ${current} < ${needed}`, cause)
+    }
+}
+
+/**
+ * A ZTLN-P transfer was blocked by the ERC-1404 rules in `detectTransferRestriction`.
+ */
+export class TransferRestrictedError extends ZtlnError {
+    constructor(
+        readonly code: RestrictionCode,
+        cause?: unknown
+    ) {
+        super(RESTRICTION_MESSAGES[code], cause)
+    }
+}
+
+const typedErrors: Record<string, (args: Result, cause: unknown) => ContractRevertError> = {
+    PermissionDenied: (_, cause) => new PermissionDeniedError(cause),
+    InvalidAddress: ([addr], cause) => new InvalidAddressError(addr, cause),
+    InvalidAmount: ([amount], cause) => new InvalidAmountError(amount, cause),
+    UserMissingKyc: ([user], cause) => new UserMissingKycError(user, cause),
+    UserBanned: ([user], cause) => new UserBannedError(user, cause),
+    InsufficientBalance: ([current, needed], cause) =>
+        new InsufficientBalanceError(current, needed, cause),
+    InsufficientAllowance: ([current, needed], cause) =>
+        new InsufficientAllowanceError(current, needed, cause)
+}
+
+// The numeric members of RestrictionCode, without the reverse name mappings of the enum object
+const RESTRICTION_CODES = Object.values(RestrictionCode).filter(
+    (value): value is RestrictionCode => typeof value === 'number'
+)
+
+// Finds the revert data in an ethers or provider error, which nest it differently
+function findRevertData(error: unknown, depth = 0): string | undefined {
+    if (!error || typeof error !== 'object' || depth > 5) return undefined
+    const {
+        data,
+        error: inner,
+        info
+    } = error as { data?: unknown; error?: unknown; info?: unknown }
+    if (typeof data === 'string' && isHexString(data) && data.length >= 10) return data
+    return (
+        findRevertData(data, depth + 1) ??
+        findRevertData(inner, depth + 1) ??
+        findRevertData(info, depth + 1)
+    )
+}
+
+function toError(description: ErrorDescription, cause: unknown): ZtlnError {
+    const { name, args } = description
+    if (name === 'Error') {
+        const code = RESTRICTION_CODES.find(code => RESTRICTION_MESSAGES[code] === args[0])
+        if (code !== undefined) return new TransferRestrictedError(code, cause)
+        return new ContractRevertError(name, args, args[0], cause)
+    }
+    if (typedErrors[name]) return typedErrors[name](args, cause)
+    return new ContractRevertError(name, args, `${name}(${args.join(', ')})`, cause)
+}
+
+/**
+ * Converts a revert from ZTLNPrime or KycManager into a typed ZtlnError. Errors without
+ * decodable revert data are returned unchanged.
+ */
+export function decodeError(error: unknown): unknown {
+    if (error instanceof ZtlnError) return error
+
+    const data = findRevertData(error)
+    if (!data) return error
+
+    let description: ErrorDescription | null = null
+    try {
+        description = errorInterface.parseError(data)
+    } catch {
+        // Not an error this SDK knows about
+    }
+    return description ? toError(description, error) : error
+}
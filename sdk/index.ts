@@ -0,0 +1,6 @@
+export * from './client'
+export * from './constants'
+export * from './deployments'
+export * from './errors'
+export * from './math'
+export * from './restrictions'
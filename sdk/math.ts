@@ -0,0 +1,97 @@
+import { PRICE_PRECISION, SHARE_DECIMALS } from './constants'
+
+const SHARE_UNIT = 10n ** BigInt(SHARE_DECIMALS)
+
+export interface DepositQuote {
+    amount: bigint
+    // `amount` at 6 decimals, the first truncation
+    scaledAmount: bigint
+    shares: bigint
+    // Asset units dropped when scaling to 6 decimals, always 0 for assets with 6 or fewer
+    scalingDust: bigint
+    // Remainder of the division by `price`, in 6-decimal units scaled by 1e8
+    pricingDust: bigint
+}
+
+export interface RedemptionQuote {
+    shares: bigint
+    // Value of `shares` at 6 decimals, the first truncation
+    scaledAmount: bigint
+    amount: bigint
+    // Remainder of the multiplication by `price`, in 6-decimal units scaled by 1e8
+    pricingDust: bigint
+    // 6-decimal units dropped when scaling to an asset with fewer than 6 decimals
+    scalingDust: bigint
+}
+
+function assetUnit(assetDecimals: number): bigint {
+    if (!Number.isInteger(assetDecimals) || assetDecimals < 0 || assetDecimals > 255) {
+        throw new Error(`Invalid asset decimals ${assetDecimals}`)
+    }
+    return 10n ** BigInt(assetDecimals)
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+    return (a + b - 1n) / b
+}
+
+/**
+ * Reproduces `ZTLNPrime.deposit`: the amount is scaled to 6 decimals, then divided by `price`
+ * at 1e8 precision, truncating both times.
+ */
+export function quoteDeposit(amount: bigint, assetDecimals: number, price: bigint): DepositQuote {
+    if (price === 0n) throw new Error('Price is not set')
+    const unit = assetUnit(assetDecimals)
+    const scaledAmount = (amount * SHARE_UNIT) / unit
+    return {
+        amount,
+        scaledAmount,
+        shares: (scaledAmount * PRICE_PRECISION) / price,
+        scalingDust: amount - ceilDiv(scaledAmount * unit, SHARE_UNIT),
+        pricingDust: (scaledAmount * PRICE_PRECISION) % price
+    }
+}
+
+/**
+ * Shares minted by `ZTLNPrime.deposit` for `amount` of an asset with `assetDecimals`.
+ */
+export function previewDeposit(amount: bigint, assetDecimals: number, price: bigint): bigint {
+    return quoteDeposit(amount, assetDecimals, price).shares
+}
+
+/**
+ * Smallest amount of the asset for which `ZTLNPrime.deposit` mints at least `shares`.
+ */
+export function depositForShares(shares: bigint, assetDecimals: number, price: bigint): bigint {
+    if (price === 0n) throw new Error('Price is not set')
+    const scaledAmount = ceilDiv(shares * price, PRICE_PRECISION)
+    return ceilDiv(scaledAmount * assetUnit(assetDecimals), SHARE_UNIT)
+}
+
+/**
+ * Payout for `shares` at NAV `price`, truncated at 6 decimals and again at the asset's decimals.
+ * This is the amount to pass to `processRedemption`, which takes it as given.
+ */
+export function quoteRedemption(
+    shares: bigint,
+    assetDecimals: number,
+    price: bigint
+): RedemptionQuote {
+    const unit = assetUnit(assetDecimals)
+    const scaledAmount = (shares * price) / PRICE_PRECISION
+    const amount = (scaledAmount * unit) / SHARE_UNIT
+    return {
+        shares,
+        scaledAmount,
+        amount,
+        pricingDust: (shares * price) % PRICE_PRECISION,
+        scalingDust: scaledAmount - ceilDiv(amount * SHARE_UNIT, unit)
+    }
+}
+
+/**
+ * Asset amount that pays out `shares` at `price`, truncated to the asset's decimals.
+ */
+export function previewRedemption(shares: bigint, assetDecimals: number, price: bigint): bigint {
+    return quoteRedemption(shares, assetDecimals, price).amount
+}
@@ -0,0 +1,71 @@
+import { KycType, RESTRICTION_MESSAGES, RestrictionCode } from './constants'
+
+export interface InvestorKyc {
+    kycType: KycType
+    isBanned: boolean
+}
+
+// The branch of ZTLNPrime.detectTransferRestriction (or the _update exemption) that decided
+export type RestrictionRule =
+    | 'exempt-vault-transfer'
+    | 'sender-banned'
+    | 'receiver-banned'
+    | 'strict-sender-not-kyc'
+    | 'strict-receiver-not-kyc'
+    | 'us-sender-receiver-not-kyc'
+    | 'allowed-strict'
+    | 'allowed-us-sender'
+    | 'allowed-non-us-sender'
+
+export interface RestrictionResult {
+    code: RestrictionCode
+    message: string
+    rule: RestrictionRule
+}
+
+export const RULE_DESCRIPTIONS: Record<RestrictionRule, string> = {
+    'exempt-vault-transfer': 'Transfers to the vault are not restricted',
+    'sender-banned': 'Sender is banned',
+    'receiver-banned': 'Receiver is banned',
+    'strict-sender-not-kyc': 'Strict mode and the sender is not KYCed',
+    'strict-receiver-not-kyc': 'Strict mode and the receiver is not KYCed',
+    'us-sender-receiver-not-kyc': 'Sender is US KYCed and the receiver is not KYCed',
+    'allowed-strict': 'Strict mode and both parties are KYCed',
+    'allowed-us-sender': 'Sender is US KYCed and the receiver is KYCed',
+    'allowed-non-us-sender':
+        'Not strict and the sender is not US KYCed, the receiver is not checked'
+}
+
+function result(code: RestrictionCode, rule: RestrictionRule): RestrictionResult {
+    return { code, message: RESTRICTION_MESSAGES[code], rule }
+}
+
+/**
+ * Mirrors `ZTLNPrime.detectTransferRestriction` for a sender and receiver in the given KYC state,
+ * and reports which branch produced the code. Pass `toVault` for transfers to the proxy itself,
+ * which `_update` lets through without checking.
+ */
+export function evaluateTransferRestriction(
+    from: InvestorKyc,
+    to: InvestorKyc,
+    strict: boolean,
+    toVault = false
+): RestrictionResult {
+    if (toVault) return result(RestrictionCode.SUCCESS, 'exempt-vault-transfer')
+
+    if (from.isBanned) return result(RestrictionCode.REVOKED_OR_BANNED, 'sender-banned')
+    if (to.isBanned) return result(RestrictionCode.REVOKED_OR_BANNED, 'receiver-banned')
+
+    const isKyc = (investor: InvestorKyc) => investor.kycType !== KycType.NON_KYC
+    if (strict) {
+        if (!isKyc(from)) return result(RestrictionCode.DISALLOWED_OR_STOP, 'strict-sender-not-kyc')
+        if (!isKyc(to)) return result(RestrictionCode.DISALLOWED_OR_STOP, 'strict-receiver-not-kyc')
+        return result(RestrictionCode.SUCCESS, 'allowed-strict')
+    }
+    if (from.kycType === KycType.US_KYC) {
+        return isKyc(to)
+            ? result(RestrictionCode.SUCCESS, 'allowed-us-sender')
+            : result(RestrictionCode.DISALLOWED_OR_STOP, 'us-sender-receiver-not-kyc')
+    }
+    return result(RestrictionCode.SUCCESS, 'allowed-non-us-sender')
+}
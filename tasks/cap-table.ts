@@ -0,0 +1,73 @@
+import { task, types } from 'hardhat/config'
+
+import { getDeployment } from '../deployment_config'
+
+/**
+ * Writes the ZTLN-P cap table at a block to reports/ as JSON and CSV, e.g. for a distribution
+ * record date or a regulator request:
+ *
+ *   npx hardhat cap-table:export --network mainnet --block 21000000
+ *
+ * Balances are replayed from `Transfer` logs and sum exactly to `totalSupply`; shares held by the
+ * vault are listed separately as pending redemptions. Needs an archive node for past blocks.
+ */
+task('cap-table:export', 'Export the ZTLN-P holders, balances and KYC status at a block')
+    .addOptionalParam(
+        'block',
+        'Block to build the cap table at, defaults to latest',
+        undefined,
+        types.int
+    )
+    .addOptionalParam(
+        'fromBlock',
+        'First block to replay, defaults to the proxy deployment block',
+        undefined,
+        types.int
+    )
+    .addOptionalParam(
+        'proxy',
+        'ZTLNPrime proxy, defaults to the deployment registry entry for the network'
+    )
+    .addOptionalParam('out', 'Report name under reports/, defaults to cap-table-<chainId>-<block>')
+    .addOptionalParam('reportDir', 'Directory to write the report to, defaults to reports/')
+    .setAction(async (args, hre) => {
+        const { buildCapTable } = await import('../scripts/utils/cap-table')
+        const { writeReport } = await import('../scripts/utils/report')
+
+        const chainId = hre.network.config.chainId
+        const proxyAddress: string | undefined =
+            args.proxy || getDeployment(chainId)?.proxy?.address || undefined
+        if (!proxyAddress) {
+            throw new Error(
+                `Pass --proxy or add a proxy for chain ID ${chainId} to the deployment registry`
+            )
+        }
+
+        console.log('Network:'.padEnd(50), ':', hre.network.name)
+        console.log('Proxy Address:'.padEnd(50), ':', proxyAddress)
+
+        const capTable = await buildCapTable(hre.ethers.provider, proxyAddress, {
+            blockNumber: args.block,
+            fromBlock: args.fromBlock
+        })
+        const investors = capTable.entries.filter(({ category }) => category === 'investor')
+        console.log(
+            'Block:'.padEnd(50),
+            ':',
+            `${capTable.blockNumber} (${capTable.blockTimestamp})`
+        )
+        console.log('KycManager Address:'.padEnd(50), ':', capTable.kycManager)
+        console.log('Holders:'.padEnd(50), ':', investors.length)
+        console.log('Investor Shares:'.padEnd(50), ':', capTable.investorShares)
+        console.log('Pending Redemption Shares:'.padEnd(50), ':', capTable.pendingRedemptionShares)
+        console.log('Total Supply:'.padEnd(50), ':', capTable.totalSupply)
+
+        const paths = writeReport(
+            args.out || `cap-table-${capTable.chainId}-${capTable.blockNumber}`,
+            capTable,
+            { holders: capTable.entries },
+            args.reportDir
+        )
+        console.log('Report written to:'.padEnd(50), ':', paths.join(', '))
+        return capTable
+    })
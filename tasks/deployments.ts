@@ -0,0 +1,118 @@
+import { JsonRpcProvider } from 'ethers'
+import { TASK_COMPILE } from 'hardhat/builtin-tasks/task-names'
+import { task } from 'hardhat/config'
+import { HttpNetworkConfig } from 'hardhat/types'
+
+import { loadRegistry, REGISTRY_PATH } from '../deployment_config'
+import type { ChainDriftResult, DriftCheck } from '../scripts/utils/drift'
+import { rpcProvider } from '../scripts/utils/task-runner'
+
+/**
+ * Checks every chain in the deployment registry against the live chain and the local build:
+ *
+ *   npx hardhat deployments:verify
+ *   npx hardhat deployments:verify --chains 1,80002 --out drift
+ *
+ * Chains are reached through the Hardhat network configured with the same chain ID. Exits with
+ * an error if any chain has drifted; chains without a recorded proxy are skipped.
+ */
+task('deployments:verify', 'Check deployed contracts on every chain against the registry')
+    .addOptionalParam(
+        'chains',
+        'Comma-separated chain IDs, defaults to every chain in the registry'
+    )
+    .addOptionalParam('registry', 'Deployment registry file', REGISTRY_PATH)
+    .addOptionalParam('out', 'Report name to write the results to under reports/')
+    .addOptionalParam('reportDir', 'Directory to write the report to, defaults to reports/')
+    .setAction(async (args, hre) => {
+        const { checkDeployment, localBytecode } = await import('../scripts/utils/drift')
+        const { writeReport } = await import('../scripts/utils/report')
+
+        await hre.run(TASK_COMPILE, { quiet: true })
+        const artifacts = {
+            ZTLNPrime: await localBytecode(hre, 'contracts/v3/ZTLNPrime.sol:ZTLNPrime'),
+            KycManager: await localBytecode(hre, 'contracts/KycManager.sol:KycManager')
+        }
+
+        const registry = loadRegistry(args.registry)
+        const chainIds: number[] = args.chains
+            ? args.chains.split(',').map((chainId: string) => Number(chainId.trim()))
+            : Object.keys(registry).map(Number)
+
+        const results: ChainDriftResult[] = []
+        for (const chainId of chainIds) {
+            const deployment = registry[chainId]
+            if (!deployment) throw new Error(`Chain ID ${chainId} is not in the registry`)
+            const result = (outcome: ChainDriftResult['result'], checks: DriftCheck[]) =>
+                results.push({ chainId, network: deployment.network, result: outcome, checks })
+
+            if (!deployment.proxy) {
+                result('SKIP', [{ name: 'proxy', passed: true, detail: 'no proxy recorded' }])
+                continue
+            }
+
+            // The network selected with --network is used directly, any other through its RPC URL
+            let provider: JsonRpcProvider | typeof hre.ethers.provider
+            if (hre.network.config.chainId === chainId) {
+                provider = hre.ethers.provider
+            } else {
+                const network = Object.values(hre.config.networks).find(
+                    config => config.chainId === chainId && 'url' in config
+                ) as HttpNetworkConfig | undefined
+                if (!network) {
+                    result('FAIL', [
+                        { name: 'rpc', passed: false, detail: 'no Hardhat network for this chain' }
+                    ])
+                    continue
+                }
+                // Detected from the RPC, so checkDeployment sees the chain it actually serves
+                provider = rpcProvider(network.url)
+            }
+
+            const checks: DriftCheck[] = []
+            try {
+                checks.push(...(await checkDeployment(provider, deployment, artifacts)))
+            } catch (error) {
+                checks.push({
+                    name: 'rpc',
+                    passed: false,
+                    detail: error instanceof Error ? error.message.split('\n')[0] : String(error)
+                })
+            } finally {
+                if (provider instanceof JsonRpcProvider) provider.destroy()
+            }
+            result(checks.every(({ passed }) => passed) ? 'PASS' : 'FAIL', checks)
+        }
+
+        console.log(
+            `\n${'Chain'.padEnd(10)}${'Network'.padEnd(14)}${'Result'.padEnd(8)}Failed checks`
+        )
+        for (const { chainId, network, result, checks } of results) {
+            const failed = checks.filter(({ passed }) => !passed).map(({ name }) => name)
+            console.log(
+                `${String(chainId).padEnd(10)}${network.padEnd(14)}${result.padEnd(8)}` +
+                    (result === 'SKIP' ? checks[0].detail : failed.join(', '))
+            )
+        }
+        for (const { chainId, network, checks } of results) {
+            const failed = checks.filter(({ passed }) => !passed)
+            if (!failed.length) continue
+            console.log(`\n${network} (${chainId}):`)
+            failed.forEach(({ name, detail }) => console.log(`  FAIL ${name.padEnd(24)} ${detail}`))
+        }
+
+        if (args.out) {
+            const rows = results.flatMap(({ chainId, network, checks }) =>
+                checks.map(check => ({ chainId, network, ...check }))
+            )
+            const paths = writeReport(args.out, results, { checks: rows }, args.reportDir)
+            console.log('\nReport written to:'.padEnd(51), ':', paths.join(', '))
+        }
+
+        const drifted = results.filter(({ result }) => result === 'FAIL')
+        if (drifted.length) {
+            const chains = drifted.map(({ network, chainId }) => `${network} (${chainId})`)
+            throw new Error(`Deployment drift on ${chains.join(', ')}`)
+        }
+        return results
+    })
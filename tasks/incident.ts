@@ -0,0 +1,184 @@
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+import path from 'path'
+
+import { getDeployment } from '../deployment_config'
+import {
+    createTaskRunner,
+    resolveParams,
+    RUNNER_PARAMS,
+    runnerParams
+} from '../scripts/utils/task-runner'
+
+/**
+ * Runs an incident playbook (see loadPlaybook in scripts/utils/incident.ts) against the ZTLNPrime
+ * proxy and logs every step with its transaction hash:
+ *
+ *   npx hardhat incident:playbook --network mainnet --playbook playbooks/operator-key-leak.json
+ *   npx hardhat incident:playbook --network hardhat --simulate --target mainnet --playbook ...
+ *
+ * The log goes to incidents/<chainId>-<time>-<playbook>.jsonl, next to a recovery playbook that
+ * undoes the pause, revocations and bans; review it and run it the same way once the incident
+ * is over. --simulate forks --target into the in-process hardhat network and runs the playbook
+ * as the impersonated admin. With --safe the steps are written as one Safe proposal instead.
+ */
+runnerParams(
+    task('incident:playbook', 'Run an incident response or recovery playbook against ZTLNPrime')
+        .addParam('playbook', 'JSON file of the steps to run')
+        .addOptionalParam(
+            'proxy',
+            'ZTLNPrime proxy, defaults to the deployment registry entry for the network'
+        )
+        .addOptionalParam('safe', 'Admin Safe to write the steps as a proposal for')
+        .addOptionalParam(
+            'log',
+            'Incident log file, defaults to incidents/<chainId>-<time>-<name>.jsonl'
+        )
+        .addFlag('simulate', 'Run on a local fork of --target instead')
+        .addOptionalParam('target', 'Network to simulate the playbook on')
+        .addOptionalParam('forkUrl', "RPC to fork, defaults to the target network's RPC URL")
+        .addOptionalParam('forkBlock', 'Block to fork at, defaults to latest', undefined, types.int)
+        .addOptionalParam(
+            'as',
+            'Account to impersonate in a simulation, defaults to the Safe or the Ledger account'
+        )
+).setAction(async (args, hre) => {
+    const incident = await import('../scripts/utils/incident')
+    const { getNetworkUrl, impersonate, startFork } = await import('../scripts/utils/rehearsal')
+    const { buildProposal, writeProposal } = await import('../scripts/utils/safe')
+
+    const params = resolveParams(
+        args,
+        {
+            playbook: { type: 'string' },
+            proxy: { type: 'address' },
+            safe: { type: 'address', env: 'SAFE_ADDRESS' },
+            log: { type: 'string' },
+            simulate: { type: 'boolean' },
+            target: { type: 'string' },
+            forkUrl: { type: 'string', env: 'FORK_URL' },
+            forkBlock: { type: 'int', env: 'FORK_BLOCK' },
+            as: { type: 'address' },
+            ...RUNNER_PARAMS
+        },
+        args.configFile
+    )
+    const playbook = incident.loadPlaybook(params.playbook!)
+
+    // A simulation reads the target's registry entry and signs as its impersonated admin
+    let chainId: number
+    let signer
+    let runner: Awaited<ReturnType<typeof createTaskRunner>> | undefined
+    if (params.simulate) {
+        if (!params.target) throw new Error('--simulate needs --target')
+        const as = params.as || params.safe || process.env.LEDGER_ACCOUNT
+        if (!as) throw new Error('--simulate needs --as, --safe or LEDGER_ACCOUNT')
+        const forkUrl = params.forkUrl || getNetworkUrl(hre, params.target)
+        await startFork(hre, forkUrl, params.forkBlock)
+        chainId = hre.config.networks[params.target]!.chainId!
+        signer = await impersonate(hre, as)
+        console.log('Simulating On Fork Of:'.padEnd(50), ':', `${params.target} (${chainId})`)
+        console.log('Impersonating:'.padEnd(50), ':', as)
+    } else {
+        runner = await createTaskRunner(hre, params)
+        chainId = runner.chainId
+        signer = runner.signer
+    }
+
+    const proxyAddress = params.proxy || getDeployment(chainId)?.proxy?.address
+    if (!proxyAddress) {
+        throw new Error(
+            `Pass --proxy or add a proxy for chain ID ${chainId} to the deployment registry`
+        )
+    }
+    const provider = hre.ethers.provider
+    const plan = await incident.planPlaybook(provider, proxyAddress, playbook)
+    const startedAt = new Date().toISOString().replace(/[:.]/g, '-')
+    const logFile =
+        params.log ||
+        path.join(incident.INCIDENT_DIR, `${chainId}-${startedAt}-${playbook.name}.jsonl`)
+    const meta = {
+        playbook: playbook.name,
+        network: params.simulate ? `${params.target} (fork)` : hre.network.name,
+        chainId
+    }
+
+    console.log('Playbook:'.padEnd(50), ':', playbook.name)
+    console.log('Proxy Address:'.padEnd(50), ':', plan.proxy)
+    console.log('KycManager Address:'.padEnd(50), ':', plan.kycManager)
+    console.log('Incident Log:'.padEnd(50), ':', logFile)
+    plan.steps.forEach(({ description }, index) => console.log(`  ${index + 1}. ${description}`))
+    plan.skipped.forEach(({ action, contract, target, reason }) =>
+        console.log(`  skipped ${action} on ${contract}${target ? ` ${target}` : ''}: ${reason}`)
+    )
+    if (params.dryRun) return plan
+    if (!params.safe) await runner?.confirm(`run ${playbook.name}`)
+
+    for (const { action, contract, target, reason } of plan.skipped) {
+        incident.appendIncidentLog(logFile, {
+            time: new Date().toISOString(),
+            ...meta,
+            action,
+            contract,
+            targets: target ? [target] : [],
+            status: 'skipped',
+            detail: reason
+        })
+    }
+    if (!plan.steps.length) {
+        console.log('\nNothing to do, the chain already reflects the playbook')
+        return { plan, entries: [] }
+    }
+
+    if (params.safe && !params.simulate) {
+        const proposal = await buildProposal(
+            provider,
+            params.safe,
+            `incident-${playbook.name}`,
+            `Incident playbook ${playbook.name}`,
+            plan.steps.map(({ transaction }) => transaction)
+        )
+        const proposalPath = writeProposal(proposal)
+        for (const { action, contract, targets } of plan.steps) {
+            incident.appendIncidentLog(logFile, {
+                time: new Date().toISOString(),
+                ...meta,
+                action,
+                contract,
+                targets,
+                status: 'proposed',
+                detail: `${proposalPath} (safeTxHash ${proposal.safeTransaction.safeTxHash})`
+            })
+        }
+        return { plan, proposal: proposalPath }
+    }
+
+    const entries = await incident.executePlan(signer, playbook, plan, {
+        ...meta,
+        logFile,
+        confirmations: runner?.confirmations,
+        simulated: params.simulate
+    })
+    entries.forEach(({ action, contract, status, txHash, detail }) =>
+        console.log(`${action} on ${contract} ${status}:`.padEnd(50), ':', txHash ?? detail)
+    )
+
+    const done = plan.steps.filter((_, index) => entries[index].status !== 'failed')
+    const recovery = incident.recoveryPlaybook(playbook, done)
+    if (Object.keys(recovery).length > 1) {
+        const recoveryFile = logFile.replace(/\.jsonl$/, '') + '-recovery.json'
+        fs.writeFileSync(recoveryFile, JSON.stringify(recovery, null, 4) + '\n')
+        console.log('\nRecovery playbook written to:'.padEnd(51), ':', recoveryFile)
+    }
+
+    // Steps still needed after the run are the ones that did not take effect
+    const remaining = await incident.planPlaybook(provider, proxyAddress, playbook)
+    if (remaining.steps.length) {
+        throw new Error(
+            `${remaining.steps.length} step(s) of ${playbook.name} did not take effect, ` +
+                `see ${logFile} and run the playbook again`
+        )
+    }
+    console.log(`\nPlaybook ${playbook.name} completed`)
+    return { plan, entries }
+})
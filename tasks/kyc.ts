@@ -0,0 +1,301 @@
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+import path from 'path'
+
+import { getDeployment, updateDeployment } from '../deployment_config'
+import {
+    createTaskRunner,
+    resolveParams,
+    RUNNER_PARAMS,
+    runnerParams
+} from '../scripts/utils/task-runner'
+
+/**
+ * Applies a CSV of KYC grants, revocations, bans and unbans to a KycManager. Rows that match the
+ * on-chain state are skipped and the rest is sent in gas-bounded bulk calls.
+ *
+ *   npx hardhat kyc:bulk --network amoy --file investors.csv --dry-run
+ */
+runnerParams(
+    task('kyc:bulk', 'Grant, revoke, ban or unban investors in bulk from a CSV file')
+        .addOptionalParam(
+            'file',
+            'CSV of address,kycType,action rows (kycType US or NON_US, for grants)'
+        )
+        .addOptionalParam(
+            'kycManager',
+            'KycManager address, defaults to the deployment registry entry for the network'
+        )
+        .addOptionalParam(
+            'maxGas',
+            'Gas limit per batch transaction, defaults to 10000000',
+            undefined,
+            types.int
+        )
+        .addOptionalParam(
+            'batchSize',
+            'Maximum investors per batch, defaults to 300',
+            undefined,
+            types.int
+        )
+        .addOptionalParam(
+            'from',
+            'Account to estimate batches from in a dry run, defaults to the signer'
+        )
+).setAction(async (args, hre) => {
+    const { batchKycChanges, parseKycCsv, planKycChanges } = await import('../scripts/utils/kyc')
+
+    const params = resolveParams(
+        args,
+        {
+            file: { type: 'string' },
+            kycManager: { type: 'address' },
+            maxGas: { type: 'int' },
+            batchSize: { type: 'int' },
+            from: { type: 'address' },
+            ...RUNNER_PARAMS
+        },
+        args.configFile
+    )
+    if (!params.file) throw new Error('Pass --file or set file in the config file')
+
+    const runner = await createTaskRunner(hre, params)
+    const kycManagerAddress =
+        params.kycManager || getDeployment(runner.chainId)?.kycManager?.address
+    if (!kycManagerAddress) {
+        throw new Error(
+            `Pass --kyc-manager or add a KycManager for chain ID ${runner.chainId} to the deployment registry`
+        )
+    }
+    const from = params.from || runner.signerAddress
+    const kycManager = await hre.ethers.getContractAt(
+        'KycManager',
+        kycManagerAddress,
+        runner.signer
+    )
+
+    runner.log('KycManager Address', kycManagerAddress)
+    runner.log('Sender', from)
+
+    const { instructions, errors, warnings } = parseKycCsv(fs.readFileSync(params.file, 'utf8'))
+    warnings.forEach(warning => console.warn(`WARNING: ${warning}`))
+    if (errors.length) {
+        errors.forEach(error => console.error(`ERROR: ${error}`))
+        throw new Error(`${params.file} has ${errors.length} invalid row(s), nothing was sent`)
+    }
+    runner.log('Rows', instructions.length)
+
+    const { changes, skipped } = await planKycChanges(kycManager, instructions)
+    runner.log('Already Applied (skipped)', skipped.length)
+    skipped.forEach(({ instruction, reason }) =>
+        console.log(`  line ${instruction.line}: ${instruction.investor} ${reason}`)
+    )
+    runner.log('Changes', changes.length)
+    if (!changes.length) return
+
+    const batches = await batchKycChanges(kycManager, changes, {
+        maxGas: BigInt(params.maxGas ?? 10_000_000),
+        maxBatchSize: params.batchSize ?? 300,
+        from
+    })
+    console.log('\nBatches:')
+    batches.forEach(({ action, investors, gas }, index) =>
+        console.log(
+            `  ${index + 1}. ${action.padEnd(6)} ${investors.length} investor(s), ~${gas} gas`
+        )
+    )
+
+    if (runner.dryRun) {
+        console.log('\nDry run, calldata for each batch:')
+        batches.forEach(({ data }, index) => console.log(`  ${index + 1}. ${data}`))
+        return
+    }
+
+    await runner.confirm(`apply ${changes.length} KYC change(s)`)
+    const to = await kycManager.getAddress()
+    for (const [index, { action, investors, data }] of batches.entries()) {
+        await runner.wait(
+            `Batch ${index + 1} (${action}, ${investors.length})`,
+            await runner.signer.sendTransaction({ to, data })
+        )
+    }
+    console.log('\nAll KYC changes applied')
+})
+
+/**
+ * Moves the ZTLNPrime proxy to a freshly deployed KycManager with the same users, bans and strict
+ * mode, so nobody is locked out by the switch:
+ *
+ *   npx hardhat kyc:migrate --network amoy --dry-run
+ *   npx hardhat kyc:migrate --network mainnet --safe 0x... --out kyc-migration-mainnet
+ *
+ * Every user, banned address and ZTLN-P holder is copied in bulk batches and checked against the
+ * old KycManager before `setKycManager` is sent (or written as a Safe proposal with --safe).
+ * Progress is kept in kyc-migrations/chain-<chainId>.json: after a failed batch, run the task
+ * again to continue with the same new KycManager.
+ */
+runnerParams(
+    task('kyc:migrate', 'Copy every KYC record to a new KycManager and switch ZTLNPrime to it')
+        .addOptionalParam(
+            'proxy',
+            'ZTLNPrime proxy, defaults to the deployment registry entry for the network'
+        )
+        .addOptionalParam(
+            'fromBlock',
+            'First block to replay transfers and bans from, defaults to the deployment blocks',
+            undefined,
+            types.int
+        )
+        .addOptionalParam(
+            'maxGas',
+            'Gas limit per batch transaction, defaults to 10000000',
+            undefined,
+            types.int
+        )
+        .addOptionalParam(
+            'batchSize',
+            'Maximum investors per batch, defaults to 300',
+            undefined,
+            types.int
+        )
+        .addOptionalParam('safe', 'Admin Safe to write the setKycManager call as a proposal for')
+        .addOptionalParam('state', 'State file, defaults to kyc-migrations/chain-<chainId>.json')
+        .addOptionalParam('out', 'Report name under reports/, defaults to kyc-migration-<chainId>')
+        .addOptionalParam('reportDir', 'Directory to write the report to, defaults to reports/')
+).setAction(async (args, hre) => {
+    const migration = await import('../scripts/utils/kyc-migration')
+    const { contractRecord } = await import('../scripts/utils/registry')
+    const { writeReport } = await import('../scripts/utils/report')
+    const { KycType } = await import('../sdk/constants')
+
+    const params = resolveParams(
+        args,
+        {
+            proxy: { type: 'address' },
+            fromBlock: { type: 'int' },
+            maxGas: { type: 'int' },
+            batchSize: { type: 'int' },
+            safe: { type: 'address', env: 'SAFE_ADDRESS' },
+            state: { type: 'string' },
+            out: { type: 'string' },
+            reportDir: { type: 'string' },
+            ...RUNNER_PARAMS
+        },
+        args.configFile
+    )
+    const runner = await createTaskRunner(hre, params)
+    const proxyAddress = params.proxy || getDeployment(runner.chainId)?.proxy?.address
+    if (!proxyAddress) {
+        throw new Error(
+            `Pass --proxy or add a proxy for chain ID ${runner.chainId} to the deployment registry`
+        )
+    }
+    const stateFile =
+        params.state || path.join(migration.KYC_MIGRATION_DIR, `chain-${runner.chainId}.json`)
+    const previous = migration.loadMigrationState(stateFile)
+    runner.log('Proxy Address', proxyAddress)
+    runner.log('State File', stateFile)
+    if (previous) {
+        runner.log('Resuming With KycManager', previous.newKycManager ?? 'not deployed yet')
+        runner.log('Batches Already Sent', previous.batches.length)
+    }
+    if (params.safe) runner.log('Admin Safe', params.safe)
+
+    if (runner.dryRun) {
+        const ztlnPrime = await hre.ethers.getContractAt('ZTLNPrime', proxyAddress)
+        const snapshot = await migration.readKycSnapshot(
+            hre.ethers.provider,
+            await ztlnPrime._kycManager(),
+            proxyAddress,
+            { fromBlock: params.fromBlock }
+        )
+        const { records } = snapshot
+        runner.log('Old KycManager', snapshot.kycManager)
+        runner.log('Strict', snapshot.isStrict)
+        runner.log('Users', records.filter(({ listed }) => listed).length)
+        runner.log('Banned', records.filter(({ isBanned }) => isBanned).length)
+        runner.log('Holders', records.filter(({ holder }) => holder).length)
+        return snapshot
+    }
+
+    await runner.confirm('migrate the KycManager')
+    const result = await migration.runKycMigration(hre, runner.signer, proxyAddress, {
+        stateFile,
+        fromBlock: params.fromBlock,
+        maxGas: BigInt(params.maxGas ?? 10_000_000),
+        maxBatchSize: params.batchSize ?? 300,
+        confirmations: runner.confirmations,
+        safeAddress: params.safe
+    })
+    const { state, snapshot, sent, mismatches, switched } = result
+
+    runner.log('Old KycManager', state.oldKycManager)
+    runner.log('New KycManager', state.newKycManager)
+    sent.forEach(({ action, investors, txHash }, index) =>
+        runner.log(`Batch ${index + 1} (${action}, ${investors})`, txHash)
+    )
+    mismatches.forEach(({ address, field, expected, actual }) =>
+        console.error(
+            `MISMATCH: ${address ?? 'KycManager'} ${field} is ${actual}, expected ${expected}`
+        )
+    )
+
+    const paths = writeReport(
+        params.out || `kyc-migration-${runner.chainId}`,
+        result,
+        {
+            records: (snapshot?.records ?? []).map(record => ({
+                ...record,
+                kycType: KycType[record.kycType]
+            })),
+            batches: state.batches,
+            mismatches
+        },
+        params.reportDir
+    )
+    console.log('\nReport written to:'.padEnd(51), ':', paths.join(', '))
+
+    if (state.failed) {
+        throw new Error(
+            `A KYC batch failed: ${state.failed}\nSent batches are recorded in ${stateFile}, ` +
+                'run the task again to resume'
+        )
+    }
+    if (mismatches.length) {
+        throw new Error(
+            `${mismatches.length} mismatch(es) between the KycManagers, ` +
+                'setKycManager was not sent'
+        )
+    }
+    if (switched) {
+        runner.log('SetKycManager Transaction', state.switchTxHash ?? 'sent earlier')
+        // The in-process network is thrown away after the run, so there is nothing to record
+        if (hre.network.name !== 'hardhat') {
+            const record = await contractRecord(
+                hre.ethers.provider,
+                state.newKycManager!,
+                state.deployTxHash
+            )
+            updateDeployment(runner.chainId, hre.network.name, deployment => ({
+                ...deployment,
+                kycManager: record
+            }))
+            console.log('\nKycManager recorded in the deployment registry')
+        }
+        const newKycManager = await hre.ethers.getContractAt('KycManager', state.newKycManager!)
+        if (
+            await newKycManager.hasRole(
+                await newKycManager.DEFAULT_ADMIN_ROLE(),
+                runner.signerAddress
+            )
+        ) {
+            console.warn(
+                `WARNING: ${runner.signerAddress} holds DEFAULT_ADMIN_ROLE on the new ` +
+                    'KycManager, run roles:audit to hand its roles over'
+            )
+        }
+    } else {
+        runner.log('SetKycManager Safe Proposal', state.proposal)
+    }
+    return result
+})
@@ -0,0 +1,112 @@
+import { task, types } from 'hardhat/config'
+import path from 'path'
+
+import { getDeployment } from '../deployment_config'
+import { resolveParams } from '../scripts/utils/task-runner'
+
+/**
+ * Watches the ZTLNPrime proxy and its KycManager and raises alerts on admin actions, large price
+ * moves or flows, and direct mints and burns:
+ *
+ *   npx hardhat monitor:watch --network mainnet --rules monitor-rules.json --webhook https://...
+ *   npx hardhat monitor:watch --network amoy --alert-file alerts.jsonl --once
+ *
+ * Alerts always go to stdout, and also to --alert-file and --webhook when given. The last
+ * processed block is kept in monitor-state/chain-<chainId>.json, so a restart picks up where the
+ * previous run stopped; --from-block only applies to the first run.
+ */
+task('monitor:watch', 'Watch ZTLNPrime and its KycManager and send alerts')
+    .addOptionalParam('rules', 'JSON file of alert rules, defaults to alerting on every event')
+    .addOptionalParam('webhook', 'URL to POST each alert to as JSON')
+    .addOptionalParam('alertFile', 'JSON lines file to append each alert to')
+    .addOptionalParam(
+        'fromBlock',
+        'First block to process on the first run, defaults to latest',
+        undefined,
+        types.int
+    )
+    .addOptionalParam(
+        'confirmations',
+        'Blocks to stay behind the head, defaults to 0',
+        undefined,
+        types.int
+    )
+    .addOptionalParam('interval', 'Seconds between polls, defaults to 15', undefined, types.int)
+    .addOptionalParam('state', 'State file, defaults to monitor-state/chain-<chainId>.json')
+    .addOptionalParam(
+        'proxy',
+        'ZTLNPrime proxy, defaults to the deployment registry entry for the network'
+    )
+    .addFlag('once', 'Process up to the head once and exit, e.g. from cron')
+    .addOptionalParam('configFile', 'JSON file with values for any of the parameters')
+    .setAction(async (args, hre) => {
+        const monitor = await import('../scripts/utils/monitor')
+
+        const params = resolveParams(
+            args,
+            {
+                rules: { type: 'string' },
+                webhook: { type: 'string', env: 'MONITOR_WEBHOOK_URL' },
+                alertFile: { type: 'string' },
+                fromBlock: { type: 'int' },
+                confirmations: { type: 'int' },
+                interval: { type: 'int' },
+                state: { type: 'string' },
+                proxy: { type: 'address' },
+                once: { type: 'boolean' }
+            },
+            args.configFile
+        )
+
+        const provider = hre.ethers.provider
+        const chainId = (await provider.getNetwork()).chainId
+        const proxyAddress = params.proxy || getDeployment(Number(chainId))?.proxy?.address
+        if (!proxyAddress) {
+            throw new Error(
+                `Pass --proxy or add a proxy for chain ID ${chainId} to the deployment registry`
+            )
+        }
+        const rules = monitor.loadMonitorRules(params.rules)
+        const sinks = [monitor.stdoutSink()]
+        if (params.alertFile) sinks.push(monitor.fileSink(params.alertFile))
+        if (params.webhook) sinks.push(monitor.webhookSink(params.webhook))
+
+        const stateFile =
+            params.state || path.join(monitor.MONITOR_STATE_DIR, `chain-${chainId}.json`)
+        let state = monitor.loadMonitorState(stateFile)
+        if (state && state.proxy !== hre.ethers.getAddress(proxyAddress)) {
+            throw new Error(`${stateFile} is for proxy ${state.proxy}, pass another --state`)
+        }
+        state ??= await monitor.initMonitorState(
+            provider,
+            proxyAddress,
+            params.fromBlock ?? (await provider.getBlockNumber())
+        )
+
+        console.log('Network:'.padEnd(50), ':', hre.network.name)
+        console.log('Proxy Address:'.padEnd(50), ':', state.proxy)
+        console.log('KycManager Address:'.padEnd(50), ':', state.kycManager)
+        console.log('Resuming After Block:'.padEnd(50), ':', state.lastBlock)
+        console.log('Alert Sinks:'.padEnd(50), ':', sinks.map(({ name }) => name).join(', '))
+
+        const controller = new AbortController()
+        const stop = () => controller.abort()
+        process.once('SIGINT', stop)
+        process.once('SIGTERM', stop)
+        try {
+            await monitor.runMonitor(provider, state, {
+                stateFile,
+                sinks,
+                rules,
+                confirmations: params.confirmations ?? 0,
+                interval: params.interval ?? 15,
+                signal: controller.signal,
+                once: params.once
+            })
+        } finally {
+            process.off('SIGINT', stop)
+            process.off('SIGTERM', stop)
+        }
+        console.log('Stopped after block:'.padEnd(50), ':', state.lastBlock)
+        return state
+    })
@@ -0,0 +1,156 @@
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+
+import { getDeployment } from '../deployment_config'
+import {
+    createTaskRunner,
+    resolveParams,
+    RUNNER_PARAMS,
+    runnerParams
+} from '../scripts/utils/task-runner'
+
+/**
+ * Publishes the fund NAV from a signed JSON file or an HTTP endpoint as the ZTLN-P price:
+ *
+ *   npx hardhat nav:publish --network mainnet --source nav.json --signers 0x...
+ *   npx hardhat nav:publish --network amoy --source https://... --max-change 2 --dry-run
+ *
+ * The payload is `{ "nav": "1.0234", "asOf": "2026-10-19T16:00:00Z", "signature": "0x..." }`.
+ * Updates moving the price by more than --max-change percent, older than --max-age seconds or not
+ * later than the last published NAV are rejected. Each publication is appended to
+ * nav-history/chain-<chainId>.jsonl.
+ */
+runnerParams(
+    task('nav:publish', 'Publish the fund NAV as the ZTLN-P price within safety bounds')
+        .addOptionalParam('source', 'Signed NAV JSON file or http(s) URL')
+        .addOptionalParam(
+            'signers',
+            'Comma-separated addresses trusted to sign NAVs, required for files'
+        )
+        .addOptionalParam(
+            'maxChange',
+            'Largest allowed price move in percent, defaults to 5',
+            undefined,
+            types.float
+        )
+        .addOptionalParam(
+            'maxAge',
+            'Oldest allowed NAV in seconds, defaults to 86400',
+            undefined,
+            types.int
+        )
+        .addOptionalParam(
+            'proxy',
+            'ZTLNPrime proxy, defaults to the deployment registry entry for the network'
+        )
+        .addOptionalParam(
+            'historyDir',
+            'Directory of the NAV history logs, defaults to nav-history/'
+        )
+).setAction(async (args, hre) => {
+    const { lastPublishedNav, navSource, planNavUpdate, publishNav } = await import(
+        '../scripts/utils/nav'
+    )
+
+    const params = resolveParams(
+        args,
+        {
+            source: { type: 'string', env: 'NAV_SOURCE' },
+            signers: { type: 'string', env: 'NAV_SIGNERS' },
+            maxChange: { type: 'float' },
+            maxAge: { type: 'int' },
+            proxy: { type: 'address' },
+            historyDir: { type: 'string' },
+            ...RUNNER_PARAMS
+        },
+        args.configFile
+    )
+    if (!params.source) throw new Error('Pass --source or set NAV_SOURCE')
+    const maxChange = String(params.maxChange ?? 5)
+    if (!/^\d+(\.\d{1,2})?$/.test(maxChange)) {
+        throw new Error('--max-change must be a percentage with up to 2 decimals')
+    }
+
+    const runner = await createTaskRunner(hre, params)
+    const proxyAddress = params.proxy || getDeployment(runner.chainId)?.proxy?.address
+    if (!proxyAddress) {
+        throw new Error(
+            `Pass --proxy or add a proxy for chain ID ${runner.chainId} to the deployment registry`
+        )
+    }
+    const ztlnPrime = await hre.ethers.getContractAt('ZTLNPrime', proxyAddress, runner.signer)
+
+    const signers = params.signers ? params.signers.split(',').map(signer => signer.trim()) : []
+    const target = { chainId: runner.chainId, proxy: proxyAddress }
+    const quote = await navSource(params.source, target, signers).fetch()
+    const update = await planNavUpdate(ztlnPrime, quote, {
+        maxChangeBps: hre.ethers.parseUnits(maxChange, 2),
+        maxAge: params.maxAge ?? 86_400,
+        lastAsOf: lastPublishedNav(runner.chainId, proxyAddress, params.historyDir)?.asOf
+    })
+
+    runner.log('Proxy Address', proxyAddress)
+    runner.log('Source', quote.source)
+    runner.log('Signed By', quote.signer ?? 'unsigned')
+    runner.log('NAV', `${quote.nav} as of ${quote.asOf} (${update.age}s old)`)
+    runner.log('Current Price', update.previousPrice)
+    runner.log('New Price', update.price)
+    if (update.changeBps !== undefined) {
+        runner.log('Change', `${hre.ethers.formatUnits(update.changeBps, 2)}%`)
+    }
+    update.violations.forEach(violation => console.error(`REJECTED: ${violation}`))
+    if (update.violations.length) throw new Error('NAV update is outside the safety bounds')
+    if (update.price === update.previousPrice) {
+        console.log('\nPrice is already up to date, nothing to publish')
+        return
+    }
+    if (runner.dryRun) return update
+
+    await runner.confirm(`set the price to ${update.price}`)
+    const entry = await publishNav(ztlnPrime, update, {
+        chainId: runner.chainId,
+        network: hre.network.name,
+        confirmations: runner.confirmations,
+        dir: params.historyDir
+    })
+    runner.log('SetPrice Transaction', entry.txHash)
+    runner.log('Block Number', entry.blockNumber)
+    console.log('\nNAV published and recorded in the history log')
+    return entry
+})
+
+/**
+ * Signs a NAV for the network's proxy with the network's signer (Ledger or private key) and writes
+ * the payload that nav:publish reads. The signature only verifies for that proxy and chain:
+ *
+ *   npx hardhat nav:sign --network mainnet --nav 1.0234 --as-of 2026-10-19T16:00:00Z --out nav.json
+ */
+task('nav:sign', 'Sign a NAV for nav:publish')
+    .addParam('nav', 'NAV per share, e.g. 1.0234')
+    .addOptionalParam('asOf', 'ISO 8601 date the NAV was struck, defaults to now')
+    .addParam('out', 'File to write the signed payload to')
+    .addOptionalParam(
+        'proxy',
+        'ZTLNPrime proxy the NAV is for, defaults to the deployment registry entry for the network'
+    )
+    .setAction(async (args, hre) => {
+        const { signNav } = await import('../scripts/utils/nav')
+
+        const chainId = Number((await hre.ethers.provider.getNetwork()).chainId)
+        const proxy: string | undefined = args.proxy || getDeployment(chainId)?.proxy?.address
+        if (!proxy) {
+            throw new Error(
+                `Pass --proxy or add a proxy for chain ID ${chainId} to the deployment registry`
+            )
+        }
+        const [signer] = await hre.ethers.getSigners()
+        const payload = await signNav(signer, args.nav, args.asOf || new Date().toISOString(), {
+            chainId,
+            proxy
+        })
+        fs.writeFileSync(args.out, JSON.stringify(payload, null, 4) + '\n')
+        console.log('Signer:'.padEnd(50), ':', signer.address)
+        console.log('Proxy Address:'.padEnd(50), ':', proxy)
+        console.log('Signed NAV written to:'.padEnd(50), ':', args.out)
+        return payload
+    })
@@ -0,0 +1,143 @@
+import fs from 'fs'
+import { task, types } from 'hardhat/config'
+
+import { getDeployment } from '../deployment_config'
+
+interface InvestorOverride {
+    kycType?: string
+    isBanned?: boolean
+}
+
+/**
+ * Explains ERC-1404 outcomes for ZTLN-P transfers, optionally under a hypothetical strict mode or
+ * KYC changes, e.g. to see who would be blocked before `setStrict(true)`:
+ *
+ *   npx hardhat transfers:simulate --network mainnet --all-holders --strict true --only-blocked
+ */
+task('transfers:simulate', 'Evaluate ERC-1404 transfer restrictions between investors')
+    .addOptionalParam('pairs', 'CSV of from,to rows to evaluate')
+    .addFlag('allHolders', 'Evaluate every ordered pair of current ZTLN-P holders')
+    .addOptionalParam('fromBlock', 'First block to scan for holders', undefined, types.int)
+    .addOptionalParam(
+        'strict',
+        'Hypothetical strict mode (true or false)',
+        undefined,
+        types.boolean
+    )
+    .addOptionalParam(
+        'overrides',
+        'JSON file of hypothetical investor state: { "0x...": { "kycType": "US" | "NON_US" | "NONE", "isBanned": bool } }'
+    )
+    .addOptionalParam(
+        'proxy',
+        'ZTLNPrime proxy, defaults to the deployment registry entry for the network'
+    )
+    .addFlag('onlyBlocked', 'Only print transfers that are blocked or change outcome')
+    .addOptionalParam('out', 'Report name to write the results to under reports/')
+    .addOptionalParam('reportDir', 'Directory to write the report to, defaults to reports/')
+    .setAction(async (args, hre) => {
+        const { parseKycType } = await import('../scripts/utils/kyc')
+        const { findDeploymentBlock } = await import('../scripts/utils/logs')
+        const { writeReport } = await import('../scripts/utils/report')
+        const { findHolders } = await import('../scripts/utils/snapshot')
+        const { allPairs, simulateTransfers } = await import('../scripts/utils/transfer-simulator')
+        const { RESTRICTION_MESSAGES, RestrictionCode } = await import('../sdk/constants')
+        const { RULE_DESCRIPTIONS } = await import('../sdk/restrictions')
+
+        const chainId = hre.network.config.chainId
+        const proxyAddress: string | undefined =
+            args.proxy || getDeployment(chainId)?.proxy?.address || undefined
+        if (!proxyAddress) {
+            throw new Error(
+                `Pass --proxy or add a proxy for chain ID ${chainId} to the deployment registry`
+            )
+        }
+        if (!args.pairs && !args.allHolders) throw new Error('Pass --pairs or --all-holders')
+
+        const provider = hre.ethers.provider
+        console.log('Network:'.padEnd(50), ':', hre.network.name)
+        console.log('Proxy Address:'.padEnd(50), ':', proxyAddress)
+
+        const pairs: { from: string; to: string }[] = []
+        if (args.pairs) {
+            fs.readFileSync(args.pairs, 'utf8')
+                .split(/\r?\n/)
+                .map(line => line.trim())
+                .filter(line => line && !line.startsWith('#') && !/^from\s*,/i.test(line))
+                .forEach(line => {
+                    const [from, to] = line.split(',').map(field => field.trim())
+                    pairs.push({ from, to })
+                })
+        }
+        if (args.allHolders) {
+            const blockTag = await provider.getBlockNumber()
+            const fromBlock =
+                args.fromBlock ?? (await findDeploymentBlock(provider, proxyAddress, blockTag))
+            const holders = Object.keys(
+                await findHolders(provider, proxyAddress, fromBlock, blockTag)
+            )
+            console.log('Holders:'.padEnd(50), ':', holders.length)
+            pairs.push(...allPairs(holders))
+        }
+
+        const investors: Record<string, { kycType?: number; isBanned?: boolean }> = {}
+        if (args.overrides) {
+            const file = JSON.parse(fs.readFileSync(args.overrides, 'utf8')) as Record<
+                string,
+                InvestorOverride
+            >
+            for (const [address, { kycType, isBanned }] of Object.entries(file)) {
+                const parsedType = kycType === undefined ? undefined : parseKycType(kycType)
+                if (kycType !== undefined && parsedType === undefined) {
+                    throw new Error(`Unknown KYC type "${kycType}" for ${address}`)
+                }
+                // Only the fields given replace the live state
+                investors[address] = {
+                    ...(parsedType !== undefined && { kycType: parsedType }),
+                    ...(isBanned !== undefined && { isBanned })
+                }
+            }
+        }
+
+        const simulation = await simulateTransfers(provider, proxyAddress, pairs, {
+            strict: args.strict,
+            investors
+        })
+        console.log('Strict Mode (live):'.padEnd(50), ':', simulation.liveStrict)
+        if (simulation.strict !== simulation.liveStrict) {
+            console.log('Strict Mode (simulated):'.padEnd(50), ':', simulation.strict)
+        }
+        console.log('Pairs:'.padEnd(50), ':', simulation.transfers.length)
+
+        const shown = simulation.transfers.filter(
+            ({ code, changed }) => !args.onlyBlocked || code !== RestrictionCode.SUCCESS || changed
+        )
+        console.log()
+        for (const { from, to, code, message, rule, liveCode, changed } of shown) {
+            const outcome = `0x${code.toString(16).padStart(2, '0')} ${message}`
+            const was = changed ? ` (live: ${RESTRICTION_MESSAGES[liveCode!]})` : ''
+            console.log(`${from} -> ${to}  ${outcome}${was}`)
+            console.log(`    ${rule}: ${RULE_DESCRIPTIONS[rule]}`)
+        }
+
+        const blocked = simulation.transfers.filter(({ code }) => code !== RestrictionCode.SUCCESS)
+        console.log('\nBlocked:'.padEnd(51), ':', blocked.length)
+        if (simulation.transfers.some(({ changed }) => changed !== undefined)) {
+            console.log(
+                'Outcome Changed By Overrides:'.padEnd(50),
+                ':',
+                simulation.transfers.filter(({ changed }) => changed).length
+            )
+        }
+
+        if (args.out) {
+            const paths = writeReport(
+                args.out,
+                simulation,
+                { transfers: simulation.transfers },
+                args.reportDir
+            )
+            console.log('Report written to:'.padEnd(50), ':', paths.join(', '))
+        }
+        return simulation
+    })
@@ -0,0 +1,123 @@
+import { task, types } from 'hardhat/config'
+
+import { getDeployment } from '../deployment_config'
+
+/**
+ * Audits who holds DEFAULT_ADMIN_ROLE and OPERATOR_ROLE on ZTLNPrime and its KycManager against
+ * an expected-roles policy (see loadRolePolicy in scripts/utils/roles.ts):
+ *
+ *   npx hardhat roles:audit --network mainnet --policy role_policy.json --out roles
+ *   npx hardhat roles:audit --network mainnet --policy role_policy.json --safe 0x...
+ *
+ * Holders are rebuilt from the role logs, as neither contract can enumerate them. The report
+ * lists every grant and revocation, and the grantRole and revokeRole calls that converge to the
+ * policy; --safe also writes them as a Safe proposal. Exits with an error if there are findings.
+ */
+task('roles:audit', 'Audit ZTLNPrime and KycManager role holders against a policy')
+    .addParam('policy', 'JSON file of expected role holders by chain ID')
+    .addOptionalParam('block', 'Block to audit at, defaults to latest', undefined, types.int)
+    .addOptionalParam(
+        'fromBlock',
+        'First block to replay, defaults to each deployment block',
+        undefined,
+        types.int
+    )
+    .addOptionalParam(
+        'proxy',
+        'ZTLNPrime proxy, defaults to the deployment registry entry for the network'
+    )
+    .addOptionalParam('kycManager', 'KycManager, defaults to the one the proxy points at')
+    .addOptionalParam('safe', 'Safe to write the convergence calls as a proposal for')
+    .addOptionalParam('out', 'Report name under reports/, defaults to roles-<chainId>-<block>')
+    .addOptionalParam('reportDir', 'Directory to write the report to, defaults to reports/')
+    .setAction(async (args, hre) => {
+        const { auditRoles, convergeRoles, loadRolePolicy, replayRoles } = await import(
+            '../scripts/utils/roles'
+        )
+        const { writeReport } = await import('../scripts/utils/report')
+        const { buildProposal, writeProposal } = await import('../scripts/utils/safe')
+        const { ZTLNPrime__factory } = await import('../typechain-types')
+
+        const provider = hre.ethers.provider
+        const chainId = (await provider.getNetwork()).chainId
+        const proxyAddress: string | undefined =
+            args.proxy || getDeployment(Number(chainId))?.proxy?.address || undefined
+        if (!proxyAddress) {
+            throw new Error(
+                `Pass --proxy or add a proxy for chain ID ${chainId} to the deployment registry`
+            )
+        }
+        const policy = loadRolePolicy(args.policy, chainId)
+        const blockNumber: number = args.block ?? (await provider.getBlockNumber())
+        const kycManagerAddress: string =
+            args.kycManager ||
+            (await ZTLNPrime__factory.connect(proxyAddress, provider)._kycManager({
+                blockTag: blockNumber
+            }))
+
+        console.log('Network:'.padEnd(50), ':', hre.network.name)
+        console.log('Block:'.padEnd(50), ':', blockNumber)
+        console.log('Proxy Address:'.padEnd(50), ':', proxyAddress)
+        console.log('KycManager Address:'.padEnd(50), ':', kycManagerAddress)
+
+        const options = { blockNumber, fromBlock: args.fromBlock }
+        const contracts = [
+            await replayRoles(provider, 'ztlnPrime', proxyAddress, options),
+            await replayRoles(provider, 'kycManager', kycManagerAddress, options)
+        ]
+        const findings = await auditRoles(provider, contracts, policy)
+        const calls = convergeRoles(contracts, findings)
+
+        for (const { contract, roles } of contracts) {
+            for (const { name, adminRole, members } of roles) {
+                console.log(
+                    `${contract} ${name} (admin ${adminRole}):`.padEnd(50),
+                    ':',
+                    members.join(', ') || 'none'
+                )
+            }
+        }
+        console.log()
+        findings.forEach(({ contract, role, issue, account, detail }) =>
+            console.log(`${issue.toUpperCase()} ${contract} ${role}: ${account ?? role} ${detail}`)
+        )
+        if (!findings.length) console.log('Role holders match the policy')
+        calls.forEach(({ contract, method, role, account }) =>
+            console.log(`  ${contract}.${method}(${role}, ${account})`)
+        )
+
+        const audit = { chainId: chainId.toString(), blockNumber, contracts, findings, calls }
+        const history = contracts.flatMap(({ contract, roles }) =>
+            roles.flatMap(({ name, history }) =>
+                history.map(grant => ({ contract, role: name, ...grant }))
+            )
+        )
+        const paths = writeReport(
+            args.out || `roles-${chainId}-${blockNumber}`,
+            audit,
+            {
+                findings,
+                history,
+                calls: calls.map(({ transaction, ...call }) => ({
+                    ...call,
+                    data: transaction.data
+                }))
+            },
+            args.reportDir
+        )
+        console.log('\nReport written to:'.padEnd(51), ':', paths.join(', '))
+
+        if (args.safe && calls.length) {
+            const proposal = await buildProposal(
+                provider,
+                args.safe,
+                `roles-${chainId}`,
+                `Converge ZTLNPrime and KycManager roles to ${args.policy}`,
+                calls.map(({ transaction }) => transaction)
+            )
+            writeProposal(proposal)
+        }
+
+        if (findings.length) throw new Error(`Role audit found ${findings.length} issue(s)`)
+        return audit
+    })
@@ -0,0 +1,416 @@
+import { formatUnits, JsonRpcProvider } from 'ethers'
+import { task, types } from 'hardhat/config'
+import { HttpNetworkConfig } from 'hardhat/types'
+
+import { REGISTRY_PATH, requireDeployment } from '../deployment_config'
+import type { NetworkCost } from '../scripts/utils/cost'
+import {
+    createTaskRunner,
+    resolveParams,
+    rpcProvider,
+    RUNNER_PARAMS,
+    runnerParams
+} from '../scripts/utils/task-runner'
+
+/**
+ * Deploys the KycManager, ZTLNPrime implementation and the ZTLN-P proxy through CREATE3, and
+ * records them in the deployment registry:
+ *
+ *   npx hardhat ztln:deploy --network amoy --operator 0x... --custodian 0x... --dry-run
+ *   npx hardhat ztln:deploy --network mainnet --config-file deploy.mainnet.json
+ *
+ * Parameters not given on the command line or in the config file fall back to the environment
+ * variables in .env.example. On hardhat/localhost a bundled Create3Factory and the USDC mock are
+ * deployed, and the signer stands in for any address left unset.
+ *
+ * Every step is checkpointed in deploy-journals/chain-<chainId>.json. If a run fails, on a Ledger
+ * timeout or a verification error for example, run it again with the same parameters: it skips
+ * the steps done, so the implementation is not deployed twice, and retries the one that failed.
+ */
+runnerParams(
+    task('ztln:deploy', 'Deploy ZTLNPrime behind a CREATE3 proxy')
+        .addOptionalParam(
+            'admin',
+            'DEFAULT_ADMIN_ROLE holder, defaults to the Safe or Ledger account'
+        )
+        .addOptionalParam('operator', 'OPERATOR_ROLE holder')
+        .addOptionalParam('custodian', 'Custodian receiving swept assets')
+        .addOptionalParam('salt', 'CREATE3 salt label or 32-byte hex salt, defaults to ZTLN-P')
+        .addOptionalParam('create3Factory', 'CREATE3 factory, deployed on local networks if unset')
+        .addOptionalParam('kycManager', 'Existing KycManager, a new one is deployed if unset')
+        .addOptionalParam('usdc', 'USDC address to record in the deployment registry')
+        .addFlag('deployUsdc', 'Deploy the USDC mock, the default on local networks')
+        .addOptionalParam(
+            'registry',
+            'Deployment registry file, defaults to deployment_registry.json'
+        )
+        .addFlag('skipVerify', 'Do not verify the contracts on the block explorer')
+        .addOptionalParam(
+            'journal',
+            'Checkpoint file to resume from, defaults to deploy-journals/chain-<chainId>.json'
+        )
+).setAction(async (args, hre) => {
+    const { deployZtln, LOCAL_NETWORKS, predictProxyAddress, ZTLN_SALT } = await import(
+        '../scripts/utils/deploy'
+    )
+    const { defaultJournalPath, loadJournal } = await import('../scripts/utils/deploy-journal')
+
+    const params = resolveParams(
+        args,
+        {
+            ...RUNNER_PARAMS,
+            admin: { type: 'address', env: 'SAFE_ADDRESS' },
+            operator: { type: 'address', env: 'OPERATOR_ADDRESS' },
+            custodian: { type: 'address', env: 'CUSTODIAN_ADDRESS' },
+            salt: { type: 'salt' },
+            create3Factory: { type: 'address', env: 'CREATE3' },
+            // The environment names an existing KycManager only with DEPLOY_KYC_MANAGER=false
+            kycManager: {
+                type: 'address',
+                env: process.env.DEPLOY_KYC_MANAGER === 'false' ? 'KYC_MANAGER_ADDRESS' : undefined
+            },
+            usdc: { type: 'address', env: 'USDC_ADDRESS' },
+            deployUsdc: { type: 'boolean', env: 'DEPLOY_USDC' },
+            registry: { type: 'string' },
+            skipVerify: { type: 'boolean' },
+            journal: { type: 'string' }
+        },
+        args.configFile
+    )
+    const runner = await createTaskRunner(hre, params)
+    const isLocal = LOCAL_NETWORKS.includes(hre.network.name)
+    if (process.env.DEPLOY_KYC_MANAGER === 'false' && !params.kycManager) {
+        throw new Error('DEPLOY_KYC_MANAGER=false needs --kyc-manager or KYC_MANAGER_ADDRESS')
+    }
+
+    const localDefault = isLocal ? runner.signerAddress : undefined
+    const admin = params.admin || process.env.LEDGER_ACCOUNT || localDefault
+    const operator = params.operator || localDefault
+    const custodian = params.custodian || localDefault
+    const missing = Object.entries({ admin, operator, custodian })
+        .filter(([, value]) => !value)
+        .map(([name]) => `--${name}`)
+    if (!params.create3Factory && !isLocal) missing.push('--create3-factory')
+    if (missing.length) throw new Error(`Missing required parameters: ${missing.join(', ')}`)
+
+    // The in-process network is thrown away after the run, so there is nothing to record
+    const registry = hre.network.name === 'hardhat' ? undefined : (params.registry ?? REGISTRY_PATH)
+    const journal =
+        params.journal ??
+        (hre.network.name === 'hardhat' ? undefined : defaultJournalPath(runner.chainId))
+    const salt = params.salt ?? ZTLN_SALT
+    const deployUsdc = params.deployUsdc ?? isLocal
+
+    console.log('\n--------Deployment Plan--------')
+    runner.log('Admin', admin)
+    runner.log('Operator', operator)
+    runner.log('Custodian', custodian)
+    runner.log('Salt', salt)
+    runner.log('Create3Factory', params.create3Factory ?? 'bundled, deployed first')
+    if (
+        params.create3Factory &&
+        (await hre.ethers.provider.getCode(params.create3Factory)) !== '0x'
+    ) {
+        runner.log('ZTLNPrime Proxy', await predictProxyAddress(hre, params.create3Factory, salt))
+    }
+    runner.log('KycManager', params.kycManager ?? 'new')
+    runner.log('USDC', deployUsdc ? 'mock, deployed' : (params.usdc ?? 'not recorded'))
+    runner.log('Deployment Registry', registry ?? 'not recorded')
+    runner.log('Deployment Journal', journal ?? 'not kept')
+    const unfinished = journal ? loadJournal(journal) : undefined
+    if (unfinished && !unfinished.completedAt) {
+        runner.log(
+            'Resuming After',
+            Object.entries(unfinished.steps)
+                .filter(([, step]) => step.status === 'done')
+                .map(([name]) => name)
+                .join(', ') || 'no completed step'
+        )
+    }
+    runner.log('Confirmations', runner.confirmations)
+    if (runner.dryRun) return
+
+    await runner.confirm('deploy ZTLNPrime')
+    const deployed = await deployZtln(hre, {
+        owner: admin!,
+        operator: operator!,
+        custodian: custodian!,
+        create3Factory: params.create3Factory,
+        kycManager: params.kycManager,
+        deployUsdc,
+        usdc: params.usdc,
+        salt,
+        verify: !params.skipVerify,
+        confirmations: runner.confirmations,
+        registry,
+        journal
+    })
+    if (registry) console.log('\nDeployment registry has been updated successfully!')
+    return deployed
+})
+
+/**
+ * Upgrades the network's ZTLN-P proxy to the current build and records the new implementation
+ * in the deployment registry. With --safe the upgrade call is written out as a Safe proposal.
+ *
+ *   npx hardhat ztln:upgrade --network amoy --dry-run
+ *   npx hardhat ztln:upgrade --network hardhat --rehearse --target mainnet
+ *
+ * --rehearse forks the target network into the in-process hardhat network (or loads an anvil
+ * state dump with --state), upgrades as the impersonated admin and sends smoke transactions.
+ */
+runnerParams(
+    task('ztln:upgrade', 'Upgrade the ZTLNPrime proxy to the current build')
+        .addOptionalParam('safe', 'Admin Safe to write the upgrade as a proposal for')
+        .addOptionalParam(
+            'fromBlock',
+            'First block to scan for holders and roles, defaults to the proxy deployment block',
+            undefined,
+            types.int
+        )
+        .addFlag('skipVerify', 'Do not verify the new implementation on the block explorer')
+        .addFlag('rehearse', 'Rehearse the upgrade on a fork of --target instead')
+        .addOptionalParam('target', 'Network to rehearse the upgrade of')
+        .addOptionalParam('forkUrl', "RPC to fork, defaults to the target network's RPC URL")
+        .addOptionalParam('forkBlock', 'Block to fork at, defaults to latest', undefined, types.int)
+        .addOptionalParam('state', 'anvil state dump to load instead of forking')
+        .addOptionalParam('admin', 'Admin to impersonate, defaults to the Ledger account')
+        .addOptionalParam('kycOperator', 'Account to grant KYC from, defaults to the admin')
+        .addOptionalParam('manifestDir', "Directory holding the target's OpenZeppelin manifest")
+        .addOptionalParam(
+            'snapshotDir',
+            'Directory to write the snapshots to, defaults to snapshots/'
+        )
+).setAction(async (args, hre) => {
+    const { rehearseUpgrade } = await import('../scripts/utils/rehearsal')
+    const { syncActiveImplementation } = await import('../scripts/utils/registry')
+    const { assertUpgradeSafe, recordUpgrade, runUpgrade } = await import(
+        '../scripts/utils/upgrade-flow'
+    )
+
+    const params = resolveParams(
+        args,
+        {
+            ...RUNNER_PARAMS,
+            safe: { type: 'address', env: 'SAFE_ADDRESS' },
+            fromBlock: { type: 'int', env: 'SNAPSHOT_FROM_BLOCK' },
+            skipVerify: { type: 'boolean' },
+            rehearse: { type: 'boolean', env: 'REHEARSE' },
+            target: { type: 'string', env: 'REHEARSE_NETWORK' },
+            forkUrl: { type: 'string', env: 'FORK_URL' },
+            forkBlock: { type: 'int', env: 'FORK_BLOCK' },
+            state: { type: 'string', env: 'REHEARSE_STATE' },
+            admin: { type: 'address', env: 'REHEARSE_ADMIN' },
+            kycOperator: { type: 'address', env: 'REHEARSE_KYC_OPERATOR' },
+            manifestDir: { type: 'string' },
+            snapshotDir: { type: 'string' }
+        },
+        args.configFile
+    )
+
+    if (params.rehearse) {
+        if (!params.target) throw new Error('--rehearse needs --target')
+        const admin = params.admin || process.env.LEDGER_ACCOUNT
+        if (!admin) throw new Error('--rehearse needs --admin or LEDGER_ACCOUNT')
+        return rehearseUpgrade(hre, {
+            targetNetwork: params.target,
+            admin,
+            kycOperator: params.kycOperator,
+            forkUrl: params.forkUrl,
+            forkBlock: params.forkBlock,
+            stateDump: params.state,
+            fromBlock: params.fromBlock,
+            manifestDir: params.manifestDir,
+            snapshotDir: params.snapshotDir
+        })
+    }
+
+    const runner = await createTaskRunner(hre, params)
+    const deployment = requireDeployment(runner.chainId)
+
+    // Get the current proxy address from the deployment registry
+    const currentProxyAddress = deployment.proxy.address
+    runner.log('Current Proxy Address', currentProxyAddress)
+
+    // Pick up a Safe upgrade proposed by an earlier run that has since been executed
+    const liveImplementation =
+        await hre.upgrades.erc1967.getImplementationAddress(currentProxyAddress)
+    if (!syncActiveImplementation(runner.chainId, hre.network.name, liveImplementation)) {
+        console.warn(
+            `WARNING: implementation ${liveImplementation} is not in the deployment registry`
+        )
+    }
+
+    // With a Safe the signer only deploys the implementation and the upgrade call is written out
+    // as a Safe proposal
+    if (params.safe) runner.log('Admin Safe', params.safe)
+
+    if (runner.dryRun) {
+        runner.log('Current Implementation Address', liveImplementation)
+        const factory = await hre.ethers.getContractFactory('ZTLNPrime')
+        await assertUpgradeSafe(hre, currentProxyAddress, factory)
+        const proxy = await hre.ethers.getContractAt('ZTLNPrime', currentProxyAddress)
+        const admin = params.safe ?? runner.signerAddress
+        if (!(await proxy.hasRole(await proxy.DEFAULT_ADMIN_ROLE(), admin))) {
+            throw new Error(`${admin} does not have DEFAULT_ADMIN_ROLE`)
+        }
+        console.log('\nNew implementation is upgrade safe, nothing was sent')
+        return
+    }
+
+    await runner.confirm(params.safe ? 'deploy the new implementation' : 'upgrade ZTLNPrime')
+    const result = await runUpgrade(hre, runner.signer, currentProxyAddress, {
+        fromBlock: params.fromBlock,
+        snapshotDir: params.snapshotDir,
+        safeAddress: params.safe,
+        verify: !params.skipVerify,
+        confirmations: runner.confirmations
+    })
+    await recordUpgrade(hre, runner.chainId, result)
+    console.log('\nImplementation recorded in the deployment registry')
+    return result
+})
+
+type NetworkCostResult = NetworkCost | { network: string; chainId?: number; error: string }
+
+/**
+ * Estimates what deploying ZTLN-P (KycManager, implementation and CREATE3 proxy) and a later
+ * upgrade cost on every configured network, at each network's current EIP-1559 fees:
+ *
+ *   npx hardhat ztln:estimate-cost --prices prices.json
+ *   npx hardhat ztln:estimate-cost --networks mainnet,amoy --prices prices.json --out cost
+ *
+ * Gas is measured once by running the deployment on the in-process network, so the task runs
+ * without --network. The prices file maps native token symbols to USD, e.g. { "ETH": 3500,
+ * "POL": 0.45 }; --eth-price overrides the ETH price. A JSON report is written under reports/.
+ */
+task('ztln:estimate-cost', 'Estimate the cost of deploying and upgrading ZTLN-P on each network')
+    .addOptionalParam(
+        'networks',
+        'Comma-separated Hardhat networks, defaults to every network with an RPC URL'
+    )
+    .addOptionalParam('prices', 'JSON file of native token USD prices by symbol')
+    .addOptionalParam('ethPrice', 'ETH price in USD', undefined, types.float)
+    .addOptionalParam('admin', 'DEFAULT_ADMIN_ROLE holder to encode in initialize')
+    .addOptionalParam('operator', 'OPERATOR_ROLE holder to encode in initialize')
+    .addOptionalParam('custodian', 'Custodian to encode in initialize')
+    .addOptionalParam('salt', 'CREATE3 salt label or 32-byte hex salt, defaults to ZTLN-P')
+    .addOptionalParam('out', 'Report name under reports/, defaults to deployment-cost')
+    .addOptionalParam('reportDir', 'Directory to write the report to, defaults to reports/')
+    .addOptionalParam('configFile', 'JSON file with values for any of the parameters')
+    .setAction(async (args, hre) => {
+        const {
+            fetchFeeQuote,
+            formatCost,
+            loadTokenPrices,
+            priceDeployment,
+            simulateDeploymentGas
+        } = await import('../scripts/utils/cost')
+        const { writeReport } = await import('../scripts/utils/report')
+
+        const params = resolveParams(
+            args,
+            {
+                networks: { type: 'string' },
+                prices: { type: 'string', env: 'NATIVE_TOKEN_PRICES' },
+                ethPrice: { type: 'float' },
+                admin: { type: 'address', env: 'SAFE_ADDRESS' },
+                operator: { type: 'address', env: 'OPERATOR_ADDRESS' },
+                custodian: { type: 'address', env: 'CUSTODIAN_ADDRESS' },
+                salt: { type: 'salt' },
+                out: { type: 'string' },
+                reportDir: { type: 'string' }
+            },
+            args.configFile
+        )
+        const prices = loadTokenPrices(params.prices)
+        if (params.ethPrice !== undefined) prices.ETH = params.ethPrice
+
+        const names: string[] = params.networks
+            ? params.networks.split(',').map(name => name.trim())
+            : Object.entries(hre.config.networks)
+                  .filter(([name, config]) => 'url' in config && name !== 'localhost')
+                  .map(([name]) => name)
+        const unknown = names.filter(name => !hre.config.networks[name])
+        if (unknown.length) throw new Error(`Unknown networks: ${unknown.join(', ')}`)
+
+        const gas = await simulateDeploymentGas(hre, {
+            owner: params.admin,
+            operator: params.operator,
+            custodian: params.custodian,
+            salt: params.salt
+        })
+        console.log('Gas Used:')
+        for (const [step, amount] of Object.entries(gas)) {
+            console.log(`  ${step}:`.padEnd(50), ':', amount.toString())
+        }
+
+        const estimates: NetworkCostResult[] = []
+        for (const name of names) {
+            const config = hre.config.networks[name]
+            // The in-process network is used directly, any other through its RPC URL
+            const provider =
+                name === hre.network.name
+                    ? hre.ethers.provider
+                    : rpcProvider((config as HttpNetworkConfig).url, config.chainId)
+            try {
+                const chainId = config.chainId ?? Number((await provider.getNetwork()).chainId)
+                const fees = await fetchFeeQuote(provider)
+                estimates.push(priceDeployment({ name, chainId }, gas, fees, prices))
+            } catch (error) {
+                const message =
+                    error instanceof Error ? error.message.split('\n')[0] : String(error)
+                estimates.push({ network: name, chainId: config.chainId, error: message })
+            } finally {
+                if (provider instanceof JsonRpcProvider) provider.destroy()
+            }
+        }
+
+        for (const estimate of estimates) {
+            console.log(`\n${estimate.network} (${estimate.chainId ?? 'unknown chain'}):`)
+            if ('error' in estimate) {
+                console.log('  Failed:'.padEnd(50), ':', estimate.error)
+                continue
+            }
+            const { fees, costs, token, tokenUsd } = estimate
+            const gwei = (wei?: bigint) => (wei === undefined ? 'n/a' : formatUnits(wei, 'gwei'))
+            console.log(
+                '  Base Fee / Priority Fee (gwei):'.padEnd(50),
+                ':',
+                fees.eip1559
+                    ? `${gwei(fees.baseFeePerGas)} / ${gwei(fees.priorityFeePerGas)}`
+                    : `legacy gas price ${gwei(fees.expectedGasPrice)}`
+            )
+            console.log(`  ${token} Price (USD):`.padEnd(50), ':', tokenUsd ?? 'not given')
+            for (const [step, { expected, max }] of Object.entries(costs)) {
+                const expectedCost = formatCost(expected, token, tokenUsd)
+                const maxCost = formatCost(max, token, tokenUsd)
+                console.log(`  ${step}:`.padEnd(50), ':', `${expectedCost}, at most ${maxCost}`)
+            }
+        }
+
+        const rows = estimates.flatMap<object>(estimate =>
+            'error' in estimate
+                ? [{ network: estimate.network, chainId: estimate.chainId, error: estimate.error }]
+                : Object.entries(estimate.costs).map(([step, cost]) => ({
+                      network: estimate.network,
+                      chainId: estimate.chainId,
+                      token: estimate.token,
+                      step,
+                      ...cost
+                  }))
+        )
+        const report = { createdAt: new Date().toISOString(), gas, prices, networks: estimates }
+        const paths = writeReport(
+            params.out || 'deployment-cost',
+            report,
+            { costs: rows },
+            params.reportDir
+        )
+        console.log('\nReport written to:'.padEnd(51), ':', paths.join(', '))
+
+        if (estimates.every(estimate => 'error' in estimate)) {
+            throw new Error('No network could be estimated')
+        }
+        return report
+    })
@@ -0,0 +1,106 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import { buildCapTable } from '../scripts/utils/cap-table'
+import { deployZtlnFixture } from './fixtures'
+
+describe('Cap table', function () {
+    const shares = (amount: bigint) => amount * 10n ** 6n
+
+    // Deposits, a transfer and a pending redemption, then a ban and more activity after `block`
+    async function historyFixture() {
+        const fixture = await deployZtlnFixture({ separateRoles: true, fundInvestors: true })
+        const { ztlnPrime, kycManager, usdc, operator, investor, nonUsInvestor } = fixture
+        const asset = await usdc.getAddress()
+
+        await ztlnPrime.connect(investor).deposit(asset, shares(5_000n))
+        await ztlnPrime.connect(nonUsInvestor).deposit(asset, shares(2_000n))
+        await ztlnPrime.connect(investor).transfer(nonUsInvestor.address, shares(500n))
+        await ztlnPrime.connect(investor).redeem(shares(1_000n), asset)
+        const block = await ethers.provider.getBlockNumber()
+
+        await kycManager.bulkBan([nonUsInvestor.address])
+        await ztlnPrime
+            .connect(operator)
+            .processRedemption(investor.address, asset, shares(1_000n), shares(1_000n))
+        await ztlnPrime.connect(investor).deposit(asset, shares(100n))
+        return { ...fixture, block }
+    }
+
+    it('rebuilds balances and KYC status at a past block', async function () {
+        const { ztlnPrime, investor, nonUsInvestor, block } = await loadFixture(historyFixture)
+        const proxy = await ztlnPrime.getAddress()
+
+        const capTable = await buildCapTable(ethers.provider, proxy, { blockNumber: block })
+        expect(capTable).to.include({
+            blockNumber: block,
+            totalSupply: shares(7_000n).toString(),
+            investorShares: shares(6_000n).toString(),
+            pendingRedemptionShares: shares(1_000n).toString()
+        })
+        expect(capTable.entries).to.deep.equal([
+            {
+                holder: investor.address,
+                category: 'investor',
+                balance: shares(3_500n).toString(),
+                kycType: 'US_KYC',
+                jurisdiction: 'US',
+                isBanned: false,
+                knownToKycManager: true
+            },
+            {
+                holder: nonUsInvestor.address,
+                category: 'investor',
+                balance: shares(2_500n).toString(),
+                kycType: 'GENERAL_KYC',
+                jurisdiction: 'NON_US',
+                isBanned: false,
+                knownToKycManager: true
+            },
+            { holder: proxy, category: 'pending-redemption', balance: shares(1_000n).toString() }
+        ])
+        const sum = capTable.entries.reduce((total, { balance }) => total + BigInt(balance), 0n)
+        expect(sum.toString()).to.equal(capTable.totalSupply)
+
+        // Later the redemption is processed and the non-US investor banned
+        const latest = await buildCapTable(ethers.provider, proxy)
+        expect(latest.pendingRedemptionShares).to.equal('0')
+        expect(latest.entries.find(({ holder }) => holder === nonUsInvestor.address)?.isBanned).to
+            .be.true
+        expect(latest.totalSupply).to.equal((await ztlnPrime.totalSupply()).toString())
+    })
+
+    it('refuses a replay that starts after the deployment', async function () {
+        const { ztlnPrime, block } = await loadFixture(historyFixture)
+        const error = await buildCapTable(ethers.provider, await ztlnPrime.getAddress(), {
+            blockNumber: block,
+            fromBlock: block
+        }).catch((error: Error) => error)
+        expect((error as Error).message).to.match(/Replayed balances sum to .* but totalSupply is/)
+    })
+
+    it('cap-table:export writes JSON and CSV reports', async function () {
+        const { ztlnPrime, block } = await loadFixture(historyFixture)
+        const reportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cap-table-'))
+        const out = path.join(reportDir, 'cap-table')
+        const capTable = await hre.run('cap-table:export', {
+            proxy: await ztlnPrime.getAddress(),
+            block,
+            out: 'cap-table',
+            reportDir
+        })
+
+        const csv = fs.readFileSync(`${out}-holders.csv`, 'utf8').trim().split('\n')
+        expect(csv[0]).to.equal(
+            'holder,category,balance,kycType,jurisdiction,isBanned,knownToKycManager'
+        )
+        expect(csv).to.have.lengthOf(capTable.entries.length + 1)
+        expect(JSON.parse(fs.readFileSync(`${out}.json`, 'utf8')).totalSupply).to.equal(
+            capTable.totalSupply
+        )
+    })
+})
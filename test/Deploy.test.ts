@@ -0,0 +1,219 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import { loadRegistry } from '../deployment_config'
+import { assertProxyInitialized, deployZtln, ZTLN_SALT } from '../scripts/utils/deploy'
+import { loadJournal } from '../scripts/utils/deploy-journal'
+
+describe('Local deployment', function () {
+    // CREATE3 address of the proxy: the CREATE2 deployer proxy's first CREATE
+    function create3Address(factory: string, salt: string) {
+        const proxy = ethers.getCreate2Address(
+            factory,
+            salt,
+            ethers.keccak256('0x67363d3d37363d34f03d5260086018f3')
+        )
+        return ethers.getCreateAddress({ from: proxy, nonce: 1 })
+    }
+
+    async function deployFixture() {
+        const [admin, operator, custodian] = await ethers.getSigners()
+        const registry = path.join(
+            fs.mkdtempSync(path.join(os.tmpdir(), 'registry-')),
+            'registry.json'
+        )
+        fs.writeFileSync(registry, '{}')
+
+        const options = {
+            owner: admin.address,
+            operator: operator.address,
+            custodian: custodian.address,
+            deployUsdc: true,
+            registry
+        }
+        const deployed = await deployZtln(hre, options)
+        return { admin, operator, custodian, registry, options, deployed }
+    }
+
+    it('deploys the bundled factory, USDC mock and fund through the ZTLN-P salt', async function () {
+        const { admin, operator, custodian, registry, deployed } = await loadFixture(deployFixture)
+
+        expect(deployed.ZTLN_Prime).to.equal(create3Address(deployed.create3Factory, ZTLN_SALT))
+        expect(await ethers.provider.getCode(deployed.usdc!)).to.not.equal('0x')
+
+        const ztlnPrime = await ethers.getContractAt('ZTLNPrime', deployed.ZTLN_Prime)
+        expect(await ztlnPrime.hasRole(await ztlnPrime.DEFAULT_ADMIN_ROLE(), admin.address)).to.be
+            .true
+        expect(await ztlnPrime.hasRole(await ztlnPrime.OPERATOR_ROLE(), operator.address)).to.be
+            .true
+        expect(await ztlnPrime._custodian()).to.equal(custodian.address)
+        expect(await ztlnPrime._kycManager()).to.equal(deployed.kycManager)
+        expect(await hre.upgrades.erc1967.getImplementationAddress(deployed.ZTLN_Prime)).to.equal(
+            deployed.implementation
+        )
+
+        const deployment = loadRegistry(registry)[31337]
+        expect(deployment.network).to.equal('hardhat')
+        expect(deployment.usdc?.address).to.equal(deployed.usdc)
+        expect(deployment.kycManager?.address).to.equal(deployed.kycManager)
+        expect(deployment.proxy).to.include({
+            address: deployed.ZTLN_Prime,
+            create3Salt: ZTLN_SALT,
+            create3Factory: deployed.create3Factory
+        })
+        expect(deployment.proxy?.txHash).to.be.a('string')
+        expect(deployment.implementations).to.have.lengthOf(1)
+        expect(deployment.implementations[0]).to.include({
+            address: deployed.implementation,
+            status: 'active',
+            activatedTxHash: deployment.proxy?.txHash
+        })
+        expect(deployment.roles).to.deep.equal({
+            DEFAULT_ADMIN_ROLE: [admin.address],
+            OPERATOR_ROLE: [operator.address]
+        })
+    })
+
+    it('reuses the proxy when deploying again through the same factory', async function () {
+        const { registry, options, deployed } = await loadFixture(deployFixture)
+        const proxyRecord = loadRegistry(registry)[31337].proxy
+
+        const redeployed = await deployZtln(hre, {
+            ...options,
+            create3Factory: deployed.create3Factory
+        })
+        expect(redeployed.create3Factory).to.equal(deployed.create3Factory)
+        expect(redeployed.ZTLN_Prime).to.equal(deployed.ZTLN_Prime)
+
+        // The proxy still points at the first implementation, the new one is only proposed
+        const deployment = loadRegistry(registry)[31337]
+        expect(deployment.proxy).to.deep.equal(proxyRecord)
+        expect(deployment.implementations.map(({ status }) => status)).to.deep.equal([
+            'active',
+            'proposed'
+        ])
+    })
+
+    it('resumes from the journal without redeploying finished steps', async function () {
+        const { options, deployed } = await loadFixture(deployFixture)
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-journal-'))
+        const journal = path.join(dir, 'journal.json')
+        // Unparsable, so the registry step fails after the proxy is created
+        const registry = path.join(dir, 'registry.json')
+        fs.writeFileSync(registry, '{')
+        const resumable = {
+            ...options,
+            create3Factory: deployed.create3Factory,
+            salt: ethers.id('ZTLN-P resume'),
+            registry,
+            journal
+        }
+
+        const error = await deployZtln(hre, resumable).catch((error: Error) => error)
+        expect(error).to.be.an('error')
+        const failed = loadJournal(journal)!
+        expect(failed.completedAt).to.be.undefined
+        expect(failed.steps.registry).to.include({ status: 'failed', attempts: 1 })
+        expect(failed.steps.proxy?.args).to.deep.equal([
+            failed.steps.implementation?.address,
+            (await ethers.getContractFactory('ZTLNPrime')).interface.encodeFunctionData(
+                'initialize',
+                [
+                    options.owner,
+                    options.operator,
+                    options.custodian,
+                    failed.steps.kycManager?.address
+                ]
+            )
+        ])
+
+        const changed = await deployZtln(hre, { ...resumable, custodian: options.owner }).catch(
+            (error: Error) => error
+        )
+        expect((changed as Error).message).to.include('was started with different custodian')
+
+        fs.writeFileSync(registry, '{}')
+        const resumed = await deployZtln(hre, resumable)
+        expect(resumed.implementation).to.equal(failed.steps.implementation?.address)
+        expect(resumed.kycManager).to.equal(failed.steps.kycManager?.address)
+        expect(resumed.usdc).to.equal(failed.steps.usdc?.address)
+        const completed = loadJournal(journal)!
+        expect(completed.completedAt).to.be.a('string')
+        expect(completed.steps.implementation).to.deep.equal(failed.steps.implementation)
+        expect(completed.steps.registry).to.include({ status: 'done', attempts: 2 })
+        expect(loadRegistry(registry)[31337].implementations[0]).to.include({
+            address: resumed.implementation,
+            status: 'active'
+        })
+    })
+
+    it('checks a proxy deployed by a run that stopped before journaling it', async function () {
+        const { options, deployed } = await loadFixture(deployFixture)
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deploy-journal-'))
+        const journal = path.join(dir, 'journal.json')
+        const registry = path.join(dir, 'registry.json')
+        fs.writeFileSync(registry, '{')
+        const resumable = {
+            ...options,
+            create3Factory: deployed.create3Factory,
+            salt: ethers.id('ZTLN-P unjournaled proxy'),
+            registry,
+            journal
+        }
+        const error = await deployZtln(hre, resumable).catch((error: Error) => error)
+        expect(error).to.be.an('error')
+
+        // As if the run had stopped right after sending the proxy transaction
+        const stopped = loadJournal(journal)!
+        delete stopped.steps.proxy
+        delete stopped.steps.assertions
+        fs.writeFileSync(journal, JSON.stringify(stopped))
+        const proxy = create3Address(deployed.create3Factory, resumable.salt)
+        const ztlnPrime = await ethers.getContractAt('ZTLNPrime', proxy)
+        await ztlnPrime.revokeRole(await ztlnPrime.OPERATOR_ROLE(), options.operator)
+
+        fs.writeFileSync(registry, '{}')
+        const failed = await deployZtln(hre, resumable).catch((error: Error) => error)
+        expect((failed as Error).message).to.include(`Post-deploy assertions failed on ${proxy}`)
+        expect(loadJournal(journal)!.steps.assertions).to.include({ status: 'failed' })
+
+        await ztlnPrime.grantRole(await ztlnPrime.OPERATOR_ROLE(), options.operator)
+        const resumed = await deployZtln(hre, resumable)
+        expect(resumed.ZTLN_Prime).to.equal(proxy)
+        expect(loadJournal(journal)!.steps.assertions).to.include({ status: 'done', attempts: 2 })
+        const deployment = loadRegistry(registry)[31337]
+        expect(deployment.proxy?.address).to.equal(proxy)
+        expect(deployment.roles).to.deep.equal({
+            DEFAULT_ADMIN_ROLE: [options.owner],
+            OPERATOR_ROLE: [options.operator]
+        })
+    })
+
+    it('reports every post-deploy assertion that fails', async function () {
+        const { admin, operator, custodian, deployed } = await loadFixture(deployFixture)
+        const expected = {
+            owner: admin.address,
+            operator: operator.address,
+            custodian: custodian.address,
+            kycManager: deployed.kycManager,
+            implementation: deployed.implementation
+        }
+        expect(await assertProxyInitialized(hre, deployed.ZTLN_Prime, expected)).to.be.empty
+
+        const failures = await assertProxyInitialized(hre, deployed.ZTLN_Prime, {
+            ...expected,
+            operator: custodian.address,
+            custodian: admin.address,
+            implementation: deployed.kycManager
+        })
+        expect(failures).to.deep.equal([
+            `${custodian.address} lacks OPERATOR_ROLE`,
+            `_custodian is ${custodian.address}, expected ${admin.address}`,
+            `Implementation is ${deployed.implementation}, expected ${deployed.kycManager}`
+        ])
+    })
+})
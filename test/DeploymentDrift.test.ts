@@ -0,0 +1,138 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import { ChainDeployment } from '../deployment_config'
+import {
+    bytecodeMatches,
+    ChainDriftResult,
+    checkDeployment,
+    localBytecode,
+    stripMetadata
+} from '../scripts/utils/drift'
+import { deployZtlnFixture } from './fixtures'
+
+describe('Deployment drift', function () {
+    const chainId = 31337
+
+    // A registry recording the fixture deployment as it is
+    async function registryFixture() {
+        const fixture = await deployZtlnFixture()
+        const { ztlnPrime, kycManager, implementation, admin } = fixture
+        const deployment: ChainDeployment = {
+            network: 'hardhat',
+            chainId,
+            kycManager: { address: await kycManager.getAddress() },
+            implementations: [{ address: await implementation.getAddress(), status: 'active' }],
+            proxy: { address: await ztlnPrime.getAddress(), blockNumber: 0 },
+            roles: { DEFAULT_ADMIN_ROLE: [admin.address], OPERATOR_ROLE: [admin.address] }
+        }
+        return { ...fixture, deployment }
+    }
+
+    function writeRegistry(deployment: ChainDeployment, placeholder = true) {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'registry-')), 'registry.json')
+        const registry = {
+            [chainId]: deployment,
+            ...(placeholder && { '169': { network: 'manta', chainId: 169, implementations: [] } })
+        }
+        fs.writeFileSync(file, JSON.stringify(registry))
+        return file
+    }
+
+    it('ignores immutables when comparing bytecode with the local build', async function () {
+        const { implementation } = await loadFixture(registryFixture)
+        const local = await localBytecode(hre, 'contracts/v3/ZTLNPrime.sol:ZTLNPrime')
+        const onChain = await ethers.provider.getCode(await implementation.getAddress())
+
+        // UUPSUpgradeable stores the implementation's own address as an immutable
+        expect(local.immutables).to.not.be.empty
+        expect(onChain).to.not.equal(local.bytecode)
+        expect(bytecodeMatches(onChain, local)).to.be.true
+
+        const kycManager = await localBytecode(hre, 'contracts/KycManager.sol:KycManager')
+        expect(bytecodeMatches(onChain, kycManager)).to.be.false
+    })
+
+    it('ignores the compiler metadata when comparing bytecode', async function () {
+        const { implementation } = await loadFixture(registryFixture)
+        const local = await localBytecode(hre, 'contracts/v3/ZTLNPrime.sol:ZTLNPrime')
+        const onChain = await ethers.provider.getCode(await implementation.getAddress())
+        const stripped = stripMetadata(local.bytecode)
+        expect(stripped.length).to.be.lessThan(local.bytecode.length)
+
+        // A rebuild from other paths or comments only changes the metadata, before its length
+        const metadata = local.bytecode.slice(stripped.length)
+        const rebuilt = stripped + metadata.slice(0, -8) + 'ffff' + metadata.slice(-4)
+        expect(rebuilt).to.not.equal(local.bytecode)
+        expect(bytecodeMatches(onChain, { ...local, bytecode: rebuilt })).to.be.true
+        expect(bytecodeMatches(onChain + '00', local)).to.be.false
+    })
+
+    it('passes a deployment that matches the registry and skips placeholders', async function () {
+        const { deployment } = await loadFixture(registryFixture)
+
+        const results: ChainDriftResult[] = await hre.run('deployments:verify', {
+            registry: writeRegistry(deployment)
+        })
+        expect(results.map(({ chainId, result }) => [chainId, result])).to.deep.equal([
+            [169, 'SKIP'],
+            [chainId, 'PASS']
+        ])
+    })
+
+    it('fails on every kind of drift', async function () {
+        const { ztlnPrime, deployment, investor, outsider } = await loadFixture(registryFixture)
+        await ztlnPrime.grantRole(await ztlnPrime.OPERATOR_ROLE(), outsider.address)
+
+        const drifted: ChainDeployment = {
+            ...deployment,
+            kycManager: { address: investor.address },
+            implementations: [
+                { ...deployment.implementations[0], status: 'retired' },
+                { address: await ztlnPrime.getAddress(), status: 'active' }
+            ],
+            proxy: { ...deployment.proxy!, bytecodeHash: ethers.ZeroHash }
+        }
+        const error = await hre
+            .run('deployments:verify', { registry: writeRegistry(drifted, false) })
+            .catch((error: Error) => error)
+        expect(error.message).to.equal('Deployment drift on hardhat (31337)')
+
+        const checks = await checkDeployment(ethers.provider, drifted, {
+            ZTLNPrime: await localBytecode(hre, 'contracts/v3/ZTLNPrime.sol:ZTLNPrime'),
+            KycManager: await localBytecode(hre, 'contracts/KycManager.sol:KycManager')
+        })
+        expect(checks.filter(({ passed }) => !passed).map(({ name }) => name)).to.deep.equal([
+            'proxy bytecode hash',
+            'implementation slot',
+            'implementation bytecode',
+            '_kycManager',
+            'kycManager code',
+            'roles.OPERATOR_ROLE'
+        ])
+        expect(checks.find(({ name }) => name === 'roles.OPERATOR_ROLE')!.detail).to.equal(
+            `unexpected ${outsider.address}`
+        )
+
+        // Without recorded roles there is nothing to compare the members with
+        const unrecorded = await checkDeployment(
+            ethers.provider,
+            { ...deployment, roles: undefined },
+            {
+                ZTLNPrime: await localBytecode(hre, 'contracts/v3/ZTLNPrime.sol:ZTLNPrime'),
+                KycManager: await localBytecode(hre, 'contracts/KycManager.sol:KycManager')
+            }
+        )
+        expect(unrecorded.filter(({ passed }) => !passed)).to.deep.equal([
+            {
+                name: 'roles',
+                passed: false,
+                detail: 'not recorded in the registry, so role members cannot be compared'
+            }
+        ])
+    })
+})
@@ -0,0 +1,132 @@
+import { expect } from 'chai'
+import { ethers } from 'ethers'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+import {
+    currentImplementation,
+    getDeployment,
+    loadRegistry,
+    recordImplementation,
+    REGISTRY_PATH,
+    requireDeployment,
+    updateDeployment,
+    validateRegistry
+} from '../deployment_config'
+
+describe('Deployment registry', function () {
+    const address = (label: string) => ethers.getAddress(ethers.dataSlice(ethers.id(label), 12))
+
+    function tempRegistry(contents: object = {}) {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'registry-')), 'registry.json')
+        fs.writeFileSync(file, JSON.stringify(contents))
+        return file
+    }
+
+    it('loads the checked-in registry', function () {
+        const registry = loadRegistry()
+        expect(Object.keys(registry)).to.include.members(['1', '80002'])
+        expect(currentImplementation(requireDeployment(1))?.address).to.equal(
+            '0x982dAA73B74a9cE2b02bB0f0E7A15592f26dA318'
+        )
+        expect(() => requireDeployment(169)).to.throw(/No ZTLNPrime proxy recorded/)
+        expect(() => requireDeployment(31337, tempRegistry())).to.throw(
+            /Config not found for chain ID 31337/
+        )
+        expect(REGISTRY_PATH.endsWith('deployment_registry.json')).to.be.true
+    })
+
+    it('reports every schema error', function () {
+        const errors = validateRegistry({
+            '1': {
+                network: 'mainnet',
+                chainId: 5,
+                deployer: '0x1234',
+                proxy: { address: address('proxy'), txHash: '0xabc', blockNumber: -1 },
+                implementations: [
+                    { address: address('a'), status: 'active' },
+                    { address: address('b'), status: 'active', deployedAt: 'yesterday' },
+                    { address: address('c'), status: 'pending' }
+                ]
+            },
+            '2': { network: '', chainId: 2 },
+            '17000': { network: 'goerli', chainId: 17000, implementations: [] }
+        })
+        expect(errors).to.deep.equal([
+            '1.chainId: does not match the key',
+            '1.deployer: invalid address',
+            '1.proxy.txHash: expected a 32 byte hex string',
+            '1.proxy.blockNumber: expected a block number',
+            '1.implementations[1].deployedAt: expected an ISO 8601 timestamp',
+            '1.implementations[2].status: expected one of active, proposed, retired',
+            '1.implementations: more than one active',
+            '2.network: expected a network name',
+            '2.implementations: expected a list',
+            '17000.network: chain ID 17000 is holesky in network_config.ts'
+        ])
+        expect(() => loadRegistry(tempRegistry({ '1': { chainId: 1 } }))).to.throw(
+            /Invalid deployment registry/
+        )
+    })
+
+    it('writes atomically and refuses invalid updates', function () {
+        const file = tempRegistry()
+        updateDeployment(
+            31337,
+            'hardhat',
+            deployment => ({ ...deployment, proxy: { address: address('proxy') } }),
+            file
+        )
+        expect(getDeployment(31337, file)?.proxy?.address).to.equal(address('proxy'))
+        expect(fs.readdirSync(path.dirname(file))).to.deep.equal(['registry.json'])
+
+        const before = fs.readFileSync(file, 'utf8')
+        expect(() =>
+            updateDeployment(
+                31337,
+                'hardhat',
+                deployment => ({ ...deployment, kycManager: { address: 'not an address' } }),
+                file
+            )
+        ).to.throw(/Refusing to write an invalid deployment registry/)
+        expect(fs.readFileSync(file, 'utf8')).to.equal(before)
+    })
+
+    it('keeps the implementation history across upgrades', function () {
+        const file = tempRegistry()
+        const [v1, v2, v3] = ['v1', 'v2', 'v3'].map(address)
+        const txHash = ethers.id('v3 deployment')
+
+        recordImplementation(31337, 'hardhat', { address: v1, status: 'active' }, file)
+        recordImplementation(31337, 'hardhat', { address: v2, status: 'active' }, file)
+        recordImplementation(
+            31337,
+            'hardhat',
+            { address: v3, txHash, status: 'proposed', proposal: 'safe-proposals/upgrade.json' },
+            file
+        )
+        let deployment = getDeployment(31337, file)!
+        expect(deployment.implementations.map(({ status }) => status)).to.deep.equal([
+            'retired',
+            'active',
+            'proposed'
+        ])
+        expect(currentImplementation(deployment)?.address).to.equal(v2)
+
+        // Executing the proposal promotes the same entry rather than adding another
+        recordImplementation(31337, 'hardhat', { address: v3, status: 'active' }, file)
+        deployment = getDeployment(31337, file)!
+        expect(
+            deployment.implementations.map(({ address, status }) => [address, status])
+        ).to.deep.equal([
+            [v1, 'retired'],
+            [v2, 'retired'],
+            [v3, 'active']
+        ])
+        expect(currentImplementation(deployment)).to.include({
+            txHash,
+            proposal: 'safe-proposals/upgrade.json'
+        })
+    })
+})
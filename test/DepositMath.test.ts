@@ -0,0 +1,158 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+
+import { depositForShares, quoteDeposit, quoteRedemption } from '../sdk/math'
+import { deployAsset, deployZtlnFixture } from './fixtures'
+
+// Set MATH_FUZZ_SEED to replay a failing run, MATH_FUZZ_RUNS to change the number of cases
+const SEED = BigInt(process.env.MATH_FUZZ_SEED || Date.now())
+const RUNS = Number(process.env.MATH_FUZZ_RUNS || 200)
+
+const DECIMALS = [0, 2, 6, 8, 18, 24]
+
+// xorshift64*, deterministic for a given seed
+function createRandom(seed: bigint) {
+    const MASK = (1n << 64n) - 1n
+    let state = seed & MASK || 1n
+    const next = () => {
+        state ^= state >> 12n
+        state ^= (state << 25n) & MASK
+        state ^= state >> 27n
+        return (state * 0x2545f4914f6cdd1dn) & MASK
+    }
+    // Uniform in [0, 2^bits), with bits drawn uniformly so small and large values both show up
+    const bigint = (maxBits: number) => {
+        const bits = Number(next() % BigInt(maxBits + 1))
+        let value = 0n
+        for (let i = 0; i < bits; i += 64) value = (value << 64n) | next()
+        return value & ((1n << BigInt(bits)) - 1n)
+    }
+    const pick = <T>(values: T[]) => values[Number(next() % BigInt(values.length))]
+    return { bigint, pick }
+}
+
+describe('Deposit math', function () {
+    async function deployFixture() {
+        const { ztlnPrime, investor } = await deployZtlnFixture()
+        const vault = await ztlnPrime.getAddress()
+
+        const assets = new Map<number, Awaited<ReturnType<typeof deployAsset>>>()
+        for (const decimals of DECIMALS) {
+            assets.set(
+                decimals,
+                await deployAsset(vault, decimals, [investor], ethers.MaxUint256 / 2n)
+            )
+        }
+
+        return { ztlnPrime, assets, investor }
+    }
+
+    // Shares the contract mints for `amount` at `price`, without changing state
+    async function contractShares(
+        fixture: Awaited<ReturnType<typeof deployFixture>>,
+        decimals: number,
+        amount: bigint,
+        price: bigint
+    ) {
+        const { ztlnPrime, assets, investor } = fixture
+        await ztlnPrime.setPrice(price)
+        return ztlnPrime
+            .connect(investor)
+            .deposit.staticCall(await assets.get(decimals)!.getAddress(), amount)
+    }
+
+    it(`matches ZTLNPrime.deposit on random inputs (seed ${SEED})`, async function () {
+        const fixture = await loadFixture(deployFixture)
+        const random = createRandom(SEED)
+
+        for (let run = 0; run < RUNS; run++) {
+            const decimals = random.pick(DECIMALS)
+            const amount = random.bigint(decimals + 60)
+            const price = random.bigint(64) + 1n
+
+            const quote = quoteDeposit(amount, decimals, price)
+            expect(
+                await contractShares(fixture, decimals, amount, price),
+                `amount ${amount}, decimals ${decimals}, price ${price}`
+            ).to.equal(quote.shares)
+        }
+    })
+
+    it('matches ZTLNPrime.deposit at the edges of each truncation', async function () {
+        const fixture = await loadFixture(deployFixture)
+
+        for (const decimals of DECIMALS) {
+            for (const price of [1n, 99_999_999n, 10n ** 8n, 10n ** 8n + 1n, 123_456_789n]) {
+                for (const amount of [0n, 1n, 10n ** BigInt(decimals) - 1n, 10n ** 18n + 7n]) {
+                    expect(await contractShares(fixture, decimals, amount, price)).to.equal(
+                        quoteDeposit(amount, decimals, price).shares
+                    )
+                }
+            }
+        }
+    })
+
+    it('finds the smallest deposit for a number of shares', async function () {
+        const fixture = await loadFixture(deployFixture)
+        const random = createRandom(SEED + 1n)
+
+        for (let run = 0; run < RUNS / 4; run++) {
+            const decimals = random.pick(DECIMALS)
+            const shares = random.bigint(64) + 1n
+            const price = random.bigint(40) + 1n
+
+            const amount = depositForShares(shares, decimals, price)
+            expect(await contractShares(fixture, decimals, amount, price)).to.be.gte(shares)
+            expect(await contractShares(fixture, decimals, amount - 1n, price)).to.be.lt(shares)
+        }
+    })
+
+    it('accounts for every unit of a deposit as shares or dust', function () {
+        const random = createRandom(SEED + 2n)
+
+        for (let run = 0; run < RUNS * 10; run++) {
+            const decimals = random.pick(DECIMALS)
+            const unit = 10n ** BigInt(decimals)
+            const price = random.bigint(64) + 1n
+            const quote = quoteDeposit(random.bigint(decimals + 60), decimals, price)
+
+            // amount = scaledAmount at asset decimals + scalingDust, when the asset has >= 6 decimals
+            if (decimals >= 6) {
+                expect((quote.scaledAmount * unit) / 10n ** 6n + quote.scalingDust).to.equal(
+                    quote.amount
+                )
+            } else {
+                expect(quote.scalingDust).to.equal(0n)
+            }
+            expect(quote.shares * price + quote.pricingDust).to.equal(
+                quote.scaledAmount * 10n ** 8n
+            )
+            expect(quote.pricingDust).to.be.lt(price)
+        }
+    })
+
+    it('never pays out more than the shares are worth on redemption', function () {
+        const random = createRandom(SEED + 3n)
+
+        for (let run = 0; run < RUNS * 10; run++) {
+            const decimals = random.pick(DECIMALS)
+            const shares = random.bigint(80)
+            const price = random.bigint(64) + 1n
+            const quote = quoteRedemption(shares, decimals, price)
+
+            expect(quote.scaledAmount * 10n ** 8n + quote.pricingDust).to.equal(shares * price)
+            expect(
+                (quote.amount * 10n ** 6n) / 10n ** BigInt(decimals) + quote.scalingDust
+            ).to.equal(quote.scaledAmount)
+            // Depositing the payout back never mints more shares than were redeemed
+            expect(quoteDeposit(quote.amount, decimals, price).shares).to.be.lte(shares)
+        }
+    })
+
+    it('rejects a zero price like the contract', async function () {
+        const fixture = await loadFixture(deployFixture)
+        expect(() => quoteDeposit(1n, 6, 0n)).to.throw('Price is not set')
+        await expect(contractShares(fixture, 6, 1n, 0n)).to.be.revertedWithPanic(0x12)
+    })
+})
@@ -0,0 +1,161 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import {
+    executePlan,
+    IncidentLogEntry,
+    loadPlaybook,
+    planPlaybook
+} from '../scripts/utils/incident'
+import { deployZtlnFixture } from './fixtures'
+
+describe('Incident playbooks', function () {
+    // The operator key leaked while the vault holds deposited USDC
+    async function incidentFixture() {
+        const fixture = await deployZtlnFixture({ separateRoles: true, fundInvestors: true })
+        const { ztlnPrime, kycManager, usdc, operator, investor } = fixture
+        await kycManager.grantRole(await kycManager.OPERATOR_ROLE(), operator.address)
+        await ztlnPrime.connect(investor).deposit(await usdc.getAddress(), 5_000n * 10n ** 6n)
+        return fixture
+    }
+
+    function writePlaybook(playbook: object) {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'incident-'))
+        const file = path.join(dir, 'playbook.json')
+        fs.writeFileSync(file, JSON.stringify(playbook))
+        return { file, log: path.join(dir, 'incident.jsonl') }
+    }
+
+    function readLog(file: string) {
+        return fs
+            .readFileSync(file, 'utf8')
+            .trim()
+            .split('\n')
+            .map(line => JSON.parse(line))
+    }
+
+    it('rejects invalid playbooks with every problem', function () {
+        const { file } = writePlaybook({
+            name: 'key leak',
+            pause: 'yes',
+            unpause: true,
+            sweep: ['0x1234'],
+            mint: []
+        })
+        expect(() => loadPlaybook(file)).to.throw(
+            [
+                'name: expected letters, digits, - or _',
+                'pause: expected true or false',
+                'sweep[0]: invalid address',
+                'mint: unknown step'
+            ].join('\n')
+        )
+        const valid = writePlaybook({ pause: true, ban: [ethers.ZeroAddress] })
+        expect(loadPlaybook(valid.file)).to.deep.equal({
+            name: 'playbook',
+            pause: true,
+            ban: [ethers.ZeroAddress]
+        })
+    })
+
+    it('responds to an incident, logs each step and recovers', async function () {
+        const { ztlnPrime, kycManager, usdc, custodian, operator, outsider } =
+            await loadFixture(incidentFixture)
+        const proxy = await ztlnPrime.getAddress()
+        const asset = await usdc.getAddress()
+        const operatorRole = await ztlnPrime.OPERATOR_ROLE()
+        const vaultBalance = await usdc.balanceOf(proxy)
+        const custodianBalance = await usdc.balanceOf(custodian.address)
+        const { file, log } = writePlaybook({
+            name: 'operator-key-leak',
+            pause: true,
+            sweep: [asset],
+            revokeOperators: [operator.address],
+            ban: [outsider.address]
+        })
+
+        const { entries }: { entries: IncidentLogEntry[] } = await hre.run('incident:playbook', {
+            playbook: file,
+            proxy,
+            log
+        })
+        expect(entries.map(({ action, contract }) => `${action} ${contract}`)).to.deep.equal([
+            'pause ztlnPrime',
+            'revokeOperator ztlnPrime',
+            'revokeOperator kycManager',
+            'sweep ztlnPrime',
+            'ban kycManager'
+        ])
+        expect(await ztlnPrime.paused()).to.be.true
+        expect(await ztlnPrime.hasRole(operatorRole, operator.address)).to.be.false
+        expect(await kycManager.hasRole(operatorRole, operator.address)).to.be.false
+        expect(await usdc.balanceOf(proxy)).to.equal(0n)
+        expect(await usdc.balanceOf(custodian.address)).to.equal(custodianBalance + vaultBalance)
+        expect(await kycManager.isBanned(outsider.address)).to.be.true
+        const logged = readLog(log)
+        expect(logged.map(({ status }) => status)).to.deep.equal(Array(5).fill('sent'))
+        expect(logged.map(({ txHash }) => txHash)).to.deep.equal(
+            entries.map(({ txHash }) => txHash)
+        )
+
+        // Running it again finds everything done
+        const again = await hre.run('incident:playbook', { playbook: file, proxy, log })
+        expect(again.entries).to.be.empty
+        expect(
+            readLog(log)
+                .slice(5)
+                .map(({ status }) => status)
+        ).to.deep.equal(Array(5).fill('skipped'))
+
+        const recoveryFile = log.replace(/\.jsonl$/, '-recovery.json')
+        expect(JSON.parse(fs.readFileSync(recoveryFile, 'utf8'))).to.deep.equal({
+            name: 'operator-key-leak-recovery',
+            unpause: true,
+            grantOperators: [operator.address],
+            grantKycOperators: [operator.address],
+            unban: [outsider.address]
+        })
+        const recovery: { entries: IncidentLogEntry[] } = await hre.run('incident:playbook', {
+            playbook: recoveryFile,
+            proxy,
+            log: path.join(path.dirname(log), 'recovery.jsonl')
+        })
+        expect(recovery.entries.map(({ action }) => action)).to.deep.equal([
+            'grantOperator',
+            'grantOperator',
+            'unban',
+            'unpause'
+        ])
+        expect(await ztlnPrime.paused()).to.be.false
+        expect(await ztlnPrime.hasRole(operatorRole, operator.address)).to.be.true
+        expect(await kycManager.hasRole(operatorRole, operator.address)).to.be.true
+        expect(await kycManager.isBanned(outsider.address)).to.be.false
+    })
+
+    it('logs a failed step and runs the rest', async function () {
+        const { ztlnPrime, operator } = await loadFixture(incidentFixture)
+        // Signed by the operator, who may pause but not revoke roles
+        const { file, log } = writePlaybook({
+            revokeOperators: [operator.address],
+            pause: true
+        })
+        const playbook = loadPlaybook(file)
+        const plan = await planPlaybook(ethers.provider, await ztlnPrime.getAddress(), playbook)
+        const entries = await executePlan(operator, playbook, plan, {
+            logFile: log,
+            network: 'hardhat',
+            chainId: 31337
+        })
+        expect(entries.map(({ action, status }) => `${action} ${status}`)).to.deep.equal([
+            'pause sent',
+            'revokeOperator failed',
+            'revokeOperator failed'
+        ])
+        expect(await ztlnPrime.paused()).to.be.true
+        expect(readLog(log)[1].detail).to.be.a('string')
+    })
+})
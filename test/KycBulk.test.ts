@@ -0,0 +1,145 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import { batchKycChanges, parseKycCsv, planKycChanges } from '../scripts/utils/kyc'
+import { KycType } from '../sdk/constants'
+import { deployZtlnFixture } from './fixtures'
+
+describe('Bulk KYC', function () {
+    const investors = Array.from({ length: 40 }, (_, i) =>
+        ethers.getAddress(ethers.dataSlice(ethers.id(`investor ${i}`), 12))
+    )
+
+    function writeCsv(rows: string[]) {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'kyc-')), 'kyc.csv')
+        fs.writeFileSync(file, ['address,kycType,action', ...rows].join('\n'))
+        return file
+    }
+
+    describe('parseKycCsv', function () {
+        it('parses grants, revocations, bans and unbans', function () {
+            const { instructions, errors } = parseKycCsv(
+                [
+                    'address,kycType,action',
+                    `${investors[0]},US,grant`,
+                    `${investors[1]},non_us,GRANT`,
+                    `${investors[2]},,revoke`,
+                    `${investors[3]},,ban`,
+                    `${investors[4]},,unban`
+                ].join('\n')
+            )
+            expect(errors).to.be.empty
+            expect(instructions.map(({ action, kycType }) => [action, kycType])).to.deep.equal([
+                ['grant', KycType.US_KYC],
+                ['grant', KycType.GENERAL_KYC],
+                ['revoke', undefined],
+                ['ban', undefined],
+                ['unban', undefined]
+            ])
+        })
+
+        it('reports every invalid row', function () {
+            // Flip the case of one letter to break the EIP-55 checksum
+            const badChecksum = investors[0].replace(/[a-fA-F]/, c =>
+                c === c.toLowerCase() ? c.toUpperCase() : c.toLowerCase()
+            )
+            const { errors, warnings } = parseKycCsv(
+                [
+                    `${badChecksum},US,grant`,
+                    `${ethers.ZeroAddress},US,grant`,
+                    `${investors[1]},EU,grant`,
+                    `${investors[2]},US,approve`,
+                    `${investors[3]},US,grant`,
+                    `${investors[3]},,ban`,
+                    `${investors[4].toLowerCase()},US,grant`
+                ].join('\n')
+            )
+            expect(errors).to.have.length(5)
+            expect(errors[0]).to.match(/Line 1: invalid address or checksum/)
+            expect(errors[1]).to.match(/Line 2: zero address/)
+            expect(errors[2]).to.match(/Line 3: unknown KYC type/)
+            expect(errors[3]).to.match(/Line 4: unknown action/)
+            expect(errors[4]).to.match(/Line 6: .* already appears on line 5/)
+            expect(warnings).to.have.length(1)
+        })
+    })
+
+    it('skips rows that match the on-chain state', async function () {
+        const { kycManager, investor, investor2 } = await loadFixture(deployZtlnFixture)
+        await kycManager.bulkBan([investors[0]])
+
+        const { instructions } = parseKycCsv(
+            [
+                `${investor.address},US,grant`,
+                `${investor2.address},NON_US,grant`,
+                `${investors[0]},,ban`,
+                `${investors[1]},,unban`,
+                `${investors[2]},,revoke`,
+                `${investors[3]},US,grant`
+            ].join('\n')
+        )
+        const { changes, skipped } = await planKycChanges(kycManager, instructions)
+
+        expect(changes.map(({ investor }) => investor)).to.deep.equal([
+            investor2.address,
+            investors[3]
+        ])
+        expect(skipped.map(({ reason }) => reason)).to.deep.equal([
+            'already US_KYC',
+            'already banned',
+            'not banned',
+            'not KYCed'
+        ])
+    })
+
+    it('splits changes into batches under the gas limit', async function () {
+        const { kycManager, admin } = await loadFixture(deployZtlnFixture)
+        const { instructions } = parseKycCsv(
+            investors.map(address => `${address},US,grant`).join('\n')
+        )
+
+        const single = await batchKycChanges(kycManager, instructions, {
+            maxGas: 30_000_000n,
+            maxBatchSize: 100,
+            from: admin.address
+        })
+        expect(single).to.have.length(1)
+
+        const maxGas = single[0].gas / 3n
+        const batches = await batchKycChanges(kycManager, instructions, {
+            maxGas,
+            maxBatchSize: 100,
+            from: admin.address
+        })
+        expect(batches.length).to.be.greaterThan(2)
+        expect(batches.every(({ gas }) => gas <= maxGas)).to.be.true
+        expect(batches.flatMap(({ investors }) => investors)).to.deep.equal(investors)
+    })
+
+    it('applies the file with the kyc:bulk task and is idempotent', async function () {
+        const { kycManager } = await loadFixture(deployZtlnFixture)
+        const file = writeCsv([
+            ...investors.slice(0, 10).map(address => `${address},NON_US,grant`),
+            `${investors[10]},,ban`
+        ])
+        const args = { file, kycManager: await kycManager.getAddress(), batchSize: 4 }
+
+        await hre.run('kyc:bulk', { ...args, dryRun: true })
+        expect(await kycManager.isKyc(investors[0])).to.be.false
+
+        await hre.run('kyc:bulk', args)
+        expect(await kycManager.isNonUSKyc(investors[9])).to.be.true
+        expect(await kycManager.isBanned(investors[10])).to.be.true
+
+        // The same parameters from a --config-file
+        const configFile = path.join(path.dirname(file), 'kyc-bulk.json')
+        fs.writeFileSync(configFile, JSON.stringify({ kycManager: args.kycManager, batchSize: 4 }))
+        const blockNumber = await ethers.provider.getBlockNumber()
+        await hre.run('kyc:bulk', { file, configFile })
+        expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber)
+    })
+})
@@ -0,0 +1,149 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import {
+    KycMigrationResult,
+    loadMigrationState,
+    readKycSnapshot,
+    saveMigrationState,
+    verifyKycParity
+} from '../scripts/utils/kyc-migration'
+import { KycType } from '../sdk/constants'
+import { deployZtlnFixture } from './fixtures'
+
+describe('KycManager migration', function () {
+    const shares = (amount: bigint) => amount * 10n ** 6n
+    const bannedOnly = ethers.getAddress(ethers.dataSlice(ethers.id('banned only'), 12))
+
+    // Holders, a revoked holder, banned-only addresses and strict mode off
+    async function migrationFixture() {
+        const fixture = await deployZtlnFixture({ separateRoles: true, fundInvestors: true })
+        const { ztlnPrime, kycManager, usdc, investor, nonUsInvestor, outsider } = fixture
+        const asset = await usdc.getAddress()
+        await ztlnPrime.connect(investor).deposit(asset, shares(1_000n))
+        await ztlnPrime.connect(nonUsInvestor).deposit(asset, shares(500n))
+        await kycManager.bulkRevokeKyc([nonUsInvestor.address])
+        await kycManager.bulkBan([outsider.address, bannedOnly])
+        await kycManager.setStrict(false)
+        return fixture
+    }
+
+    function migrateArgs(proxy: string) {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kyc-migration-'))
+        return { proxy, state: path.join(dir, 'state.json'), out: 'report', reportDir: dir }
+    }
+
+    it('reads users, banned-only addresses and holders', async function () {
+        const { ztlnPrime, kycManager, investor, investor2, nonUsInvestor, outsider } =
+            await loadFixture(migrationFixture)
+        const snapshot = await readKycSnapshot(
+            ethers.provider,
+            await kycManager.getAddress(),
+            await ztlnPrime.getAddress()
+        )
+        expect(snapshot.isStrict).to.be.false
+        expect(
+            snapshot.records.map(({ address, kycType, isBanned, listed, holder }) => [
+                address,
+                KycType[kycType],
+                isBanned,
+                listed,
+                holder
+            ])
+        ).to.deep.equal([
+            [investor.address, 'US_KYC', false, true, true],
+            [investor2.address, 'US_KYC', false, true, false],
+            [nonUsInvestor.address, 'NON_KYC', false, true, true],
+            [outsider.address, 'NON_KYC', true, false, false],
+            [bannedOnly, 'NON_KYC', true, false, false]
+        ])
+    })
+
+    it('kyc:migrate copies every record and switches after checking parity', async function () {
+        const { ztlnPrime, kycManager } = await loadFixture(migrationFixture)
+        const args = migrateArgs(await ztlnPrime.getAddress())
+        const result: KycMigrationResult = await hre.run('kyc:migrate', args)
+
+        const { state } = result
+        expect(result.switched).to.be.true
+        expect(result.mismatches).to.be.empty
+        expect(state.batches.map(({ action, investors }) => [action, investors])).to.deep.equal([
+            ['grant', 2],
+            ['ban', 2]
+        ])
+        expect(await ztlnPrime._kycManager()).to.equal(state.newKycManager)
+        const newKycManager = await ethers.getContractAt('KycManager', state.newKycManager!)
+        expect(await newKycManager.isStrict()).to.be.false
+        expect(await verifyKycParity(kycManager, newKycManager, result.snapshot!)).to.be.empty
+        expect(loadMigrationState(args.state)).to.deep.equal(state)
+        const csv = fs
+            .readFileSync(path.join(args.reportDir, `${args.out}-records.csv`), 'utf8')
+            .trim()
+            .split('\n')
+        expect(csv[0]).to.equal('address,kycType,isBanned,listed,holder')
+        expect(csv).to.have.lengthOf(6)
+
+        // Once switched, another run has nothing left to do
+        const again = await hre.run('kyc:migrate', args)
+        expect(again.switched).to.be.true
+        expect(again.sent).to.be.empty
+    })
+
+    it('resumes with the same KycManager after a failed batch', async function () {
+        const { ztlnPrime, kycManager, admin, investor, outsider } =
+            await loadFixture(migrationFixture)
+        const args = migrateArgs(await ztlnPrime.getAddress())
+        // A previous run deployed the new KycManager and copied the grant, but the signer lacks
+        // the operator role for the rest
+        const newKycManager = await ethers.deployContract('KycManager', [false], outsider)
+        await newKycManager.bulkGrantKyc([investor.address], [KycType.US_KYC])
+        saveMigrationState(args.state, {
+            chainId: 31337,
+            proxy: await ztlnPrime.getAddress(),
+            oldKycManager: await kycManager.getAddress(),
+            newKycManager: await newKycManager.getAddress(),
+            batches: []
+        })
+
+        const error = await hre.run('kyc:migrate', args).catch((error: Error) => error)
+        expect((error as Error).message).to.match(/A KYC batch failed: .*\n.*run the task again/)
+        expect(loadMigrationState(args.state)?.failed).to.be.a('string')
+        expect(await ztlnPrime._kycManager()).to.equal(await kycManager.getAddress())
+
+        await newKycManager.grantRole(await newKycManager.OPERATOR_ROLE(), admin.address)
+        const result: KycMigrationResult = await hre.run('kyc:migrate', args)
+        expect(result.switched).to.be.true
+        expect(result.state.failed).to.be.undefined
+        expect(result.sent.map(({ action }) => action)).to.deep.equal(['grant', 'ban'])
+        expect(await ztlnPrime._kycManager()).to.equal(await newKycManager.getAddress())
+    })
+
+    it('reports every difference between two KycManagers', async function () {
+        const { ztlnPrime, kycManager, investor, investor2, outsider } =
+            await loadFixture(migrationFixture)
+        const snapshot = await readKycSnapshot(
+            ethers.provider,
+            await kycManager.getAddress(),
+            await ztlnPrime.getAddress()
+        )
+        const newKycManager = await ethers.deployContract('KycManager', [true])
+        await newKycManager.bulkGrantKyc([investor.address], [KycType.GENERAL_KYC])
+        await newKycManager.bulkBan([bannedOnly])
+
+        expect(await verifyKycParity(kycManager, newKycManager, snapshot)).to.deep.equal([
+            { field: 'isStrict', expected: 'false', actual: 'true' },
+            {
+                address: investor.address,
+                field: 'kycType',
+                expected: 'US_KYC',
+                actual: 'GENERAL_KYC'
+            },
+            { address: investor2.address, field: 'kycType', expected: 'US_KYC', actual: 'NON_KYC' },
+            { address: outsider.address, field: 'isBanned', expected: 'true', actual: 'false' }
+        ])
+    })
+})
@@ -0,0 +1,177 @@
+import { loadFixture, takeSnapshot } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import {
+    DEFAULT_RULES,
+    initMonitorState,
+    loadMonitorRules,
+    loadMonitorState,
+    pollOnce
+} from '../scripts/utils/monitor'
+import { deployZtlnFixture } from './fixtures'
+import { startWebhookStub } from './webhook-stub'
+
+describe('Monitor', function () {
+    // Separate admin, operator and custodian accounts, investors holding USDC
+    function fundFixture() {
+        return deployZtlnFixture({ separateRoles: true, fundInvestors: true })
+    }
+
+    const shares = (amount: bigint) => amount * 10n ** 6n
+
+    function tempDir() {
+        return fs.mkdtempSync(path.join(os.tmpdir(), 'monitor-'))
+    }
+
+    async function startMonitor(proxy: string) {
+        const fromBlock = (await ethers.provider.getBlockNumber()) + 1
+        return initMonitorState(ethers.provider, proxy, fromBlock)
+    }
+
+    it('reads rules with percentages and share amounts', function () {
+        const file = path.join(tempDir(), 'rules.json')
+        fs.writeFileSync(
+            file,
+            JSON.stringify({ kyc: false, maxPriceChange: '2.5', maxShares: '10' })
+        )
+        expect(loadMonitorRules(file)).to.deep.equal({
+            ...DEFAULT_RULES,
+            kyc: false,
+            maxPriceChangeBps: 250n,
+            maxShares: shares(10n)
+        })
+
+        fs.writeFileSync(file, JSON.stringify({ pause: 'yes', maxPriceChange: 2, paused: true }))
+        expect(() => loadMonitorRules(file)).to.throw(
+            [
+                'pause: expected true or false',
+                'maxPriceChange: expected a percentage with up to 2 decimals',
+                'paused: unknown rule'
+            ].join('\n')
+        )
+    })
+
+    it('alerts on admin actions, large moves and direct mints and burns', async function () {
+        const { ztlnPrime, kycManager, usdc, operator, investor, nonUsInvestor, outsider } =
+            await loadFixture(fundFixture)
+        const proxy = await ztlnPrime.getAddress()
+        const asset = await usdc.getAddress()
+        const state = await startMonitor(proxy)
+        const rules = { ...DEFAULT_RULES, maxPriceChangeBps: 200n, maxShares: shares(10_000n) }
+
+        await ztlnPrime.connect(operator).pause()
+        await ztlnPrime.connect(operator).unpause()
+        await ztlnPrime.setCustodian(outsider.address)
+        await ztlnPrime.connect(operator).setPrice(101_000_000n)
+        await ztlnPrime.connect(operator).setPrice(105_000_000n)
+        await ztlnPrime.connect(investor).deposit(asset, shares(5_000n))
+        await ztlnPrime.connect(nonUsInvestor).deposit(asset, shares(20_000n))
+        await ztlnPrime.connect(investor).redeem(shares(1_000n), asset)
+        await ztlnPrime
+            .connect(operator)
+            .processRedemption(investor.address, asset, shares(1_000n), shares(1_000n))
+        await ztlnPrime.connect(operator).mint(investor.address, shares(1n))
+        await ztlnPrime.connect(operator).burnFrom(investor.address, shares(1n))
+        await kycManager.bulkBan([nonUsInvestor.address])
+        const implementation = await ethers.deployContract('ZTLNPrime')
+        await ztlnPrime.upgradeToAndCall(await implementation.getAddress(), '0x')
+        const newKycManager = await ethers.deployContract('KycManager', [true])
+        await ztlnPrime.setKycManager(await newKycManager.getAddress())
+        // Only the KycManager in use is watched
+        await kycManager.setStrict(false)
+        await newKycManager.setStrict(false)
+
+        const alerts = await pollOnce(ethers.provider, state, rules)
+        expect(alerts.map(({ rule, message }) => [rule, message])).to.deep.equal([
+            ['pause', `ZTLNPrime paused by ${operator.address}`],
+            ['pause', `ZTLNPrime unpaused by ${operator.address}`],
+            ['admin', `Custodian set to ${outsider.address}`],
+            ['price', 'Price moved 3.96% from 1.01 to 1.05'],
+            [
+                'flow',
+                `Deposit of 19047.619047 ZTLN-P by ${nonUsInvestor.address}, ` +
+                    'the limit is 10000.0 ZTLN-P'
+            ],
+            ['supply', `Direct mint of 1.0 ZTLN-P to ${investor.address}`],
+            ['supply', `Direct burn of 1.0 ZTLN-P from ${investor.address}`],
+            ['kyc', `${nonUsInvestor.address} banned on the KycManager`],
+            ['upgrade', `Proxy upgraded to ${await implementation.getAddress()}`],
+            ['admin', `KycManager set to ${await newKycManager.getAddress()}`],
+            ['kyc', 'KycManager strict mode turned off']
+        ])
+        expect(alerts.at(-1)?.address).to.equal(await newKycManager.getAddress())
+        expect(state).to.include({
+            kycManager: await newKycManager.getAddress(),
+            price: '105000000',
+            lastBlock: await ethers.provider.getBlockNumber()
+        })
+        expect(await pollOnce(ethers.provider, state, rules)).to.be.empty
+    })
+
+    it('processes replaced blocks again after a reorg', async function () {
+        const { ztlnPrime, operator } = await loadFixture(fundFixture)
+        const state = await startMonitor(await ztlnPrime.getAddress())
+        const snapshot = await takeSnapshot()
+
+        await ztlnPrime.setCustodian(operator.address)
+        expect(
+            (await pollOnce(ethers.provider, state, DEFAULT_RULES)).map(({ rule }) => rule)
+        ).to.deep.equal(['admin'])
+
+        // The same height is replaced by a block that pauses instead
+        await snapshot.restore()
+        await ztlnPrime.connect(operator).pause()
+        const alerts = await pollOnce(ethers.provider, state, DEFAULT_RULES)
+        expect(alerts.map(({ rule }) => rule)).to.deep.equal(['reorg', 'pause'])
+        expect(alerts[0].message).to.match(/Reorg replaced 1 processed block\(s\)/)
+        expect(state.blocks.map(({ number }) => number)).to.deep.equal([
+            state.lastBlock - 1,
+            state.lastBlock
+        ])
+    })
+
+    it('monitor:watch delivers alerts to a webhook and a file and resumes', async function () {
+        const { ztlnPrime, kycManager, operator } = await loadFixture(fundFixture)
+        const dir = tempDir()
+        const stub = await startWebhookStub()
+        try {
+            const args = {
+                proxy: await ztlnPrime.getAddress(),
+                webhook: stub.url,
+                alertFile: path.join(dir, 'alerts.jsonl'),
+                state: path.join(dir, 'state.json'),
+                fromBlock: (await ethers.provider.getBlockNumber()) + 1,
+                once: true
+            }
+            await ztlnPrime.connect(operator).pause()
+            await hre.run('monitor:watch', args)
+            expect(stub.received).to.have.lengthOf(1)
+            expect(stub.received[0]).to.include({ rule: 'pause', event: 'Paused' })
+            const lines = fs.readFileSync(args.alertFile, 'utf8').trim().split('\n')
+            expect(lines.map(line => JSON.parse(line))).to.deep.equal(stub.received)
+
+            // Undelivered alerts keep the state where it was, so they are sent on the next run
+            await kycManager.setStrict(false)
+            stub.respond(503)
+            const error = await hre.run('monitor:watch', args).catch((error: Error) => error)
+            expect((error as Error).message).to.match(/Alert delivery failed:\n.* answered 503/)
+            expect(loadMonitorState(args.state)?.lastBlock).to.equal(
+                (await ethers.provider.getBlockNumber()) - 1
+            )
+
+            stub.respond(200)
+            const state = await hre.run('monitor:watch', { ...args, fromBlock: undefined })
+            expect(state.lastBlock).to.equal(await ethers.provider.getBlockNumber())
+            expect(stub.received.map(alert => (alert as { event: string }).event)).to.deep.equal([
+                'Paused',
+                'SetStrict'
+            ])
+        } finally {
+            await stub.close()
+        }
+    })
+})
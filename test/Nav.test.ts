@@ -0,0 +1,238 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import {
+    fileSource,
+    lastPublishedNav,
+    NavQuote,
+    navSource,
+    parseNavPayload,
+    planNavUpdate,
+    publishNav,
+    signNav,
+    toPrice
+} from '../scripts/utils/nav'
+import { deployZtlnFixture } from './fixtures'
+import { startNavStub } from './nav-stub'
+
+describe('NAV publisher', function () {
+    const navSigner = ethers.Wallet.createRandom()
+    const bounds = { maxChangeBps: 500n, maxAge: 3600 }
+    const target = { chainId: 31337, proxy: ethers.Wallet.createRandom().address }
+
+    function tempDir() {
+        return fs.mkdtempSync(path.join(os.tmpdir(), 'nav-'))
+    }
+
+    function quote(nav: string, asOf = new Date().toISOString()): NavQuote {
+        return { nav, asOf, source: 'test', payloadHash: ethers.ZeroHash }
+    }
+
+    it('converts NAVs to the 1e8 price precision', function () {
+        expect(toPrice('1')).to.equal(100_000_000n)
+        expect(toPrice('1.0234')).to.equal(102_340_000n)
+        expect(toPrice('12.34567891')).to.equal(1_234_567_891n)
+        expect(() => toPrice('1.000000001')).to.throw(/more than 8 decimals/)
+        expect(() => toPrice('-1')).to.throw(/positive decimal/)
+        expect(() => toPrice('1e3')).to.throw(/positive decimal/)
+        expect(() => toPrice('0.0')).to.throw(/greater than zero/)
+    })
+
+    it('only accepts files signed by a trusted signer', async function () {
+        const file = path.join(tempDir(), 'nav.json')
+        const payload = await signNav(navSigner, '1.0234', '2026-10-19T16:00:00Z', target)
+        fs.writeFileSync(file, JSON.stringify(payload))
+
+        const accepted = await fileSource(file, target, [navSigner.address]).fetch()
+        expect(accepted).to.include({ nav: '1.0234', signer: navSigner.address })
+        expect(accepted.payloadHash).to.equal(ethers.id(JSON.stringify(payload)))
+
+        const other = ethers.Wallet.createRandom().address
+        const untrusted = await fileSource(file, target, [other])
+            .fetch()
+            .catch((error: Error) => error)
+        expect((untrusted as Error).message).to.match(/not a trusted signer/)
+        expect(() => fileSource(file, target, [])).to.throw(/needs trusted signers/)
+
+        // The signature covers the NAV and its date
+        const tampered = JSON.stringify({ ...payload, nav: '1.5' })
+        expect(() => parseNavPayload(tampered, 'tampered', target, [navSigner.address])).to.throw(
+            /not a trusted signer/
+        )
+        const unsigned = JSON.stringify({ nav: '1.5', asOf: payload.asOf })
+        expect(() => parseNavPayload(unsigned, 'unsigned', target, [navSigner.address])).to.throw(
+            /not signed/
+        )
+
+        // and the fund it is for, so it cannot be replayed on another chain or proxy
+        const raw = JSON.stringify(payload)
+        for (const other of [
+            { ...target, chainId: 1 },
+            { ...target, proxy: ethers.Wallet.createRandom().address }
+        ]) {
+            expect(() => parseNavPayload(raw, 'replayed', other, [navSigner.address])).to.throw(
+                `not a trusted signer for ${other.proxy} on chain ${other.chainId}`
+            )
+        }
+    })
+
+    it('fetches NAVs over HTTP', async function () {
+        const payload = await signNav(navSigner, '1.01', new Date().toISOString(), target)
+        const stub = await startNavStub(payload)
+        try {
+            const fetched = await navSource(stub.url, target, [navSigner.address]).fetch()
+            expect(fetched).to.include({ nav: '1.01', source: stub.url })
+
+            stub.respond({ nav: 1.01, asOf: payload.asOf })
+            const error = await navSource(stub.url, target)
+                .fetch()
+                .catch((error: Error) => error)
+            expect((error as Error).message).to.match(/nav must be a decimal string/)
+
+            stub.respond(503)
+            const unavailable = await navSource(stub.url, target)
+                .fetch()
+                .catch((error: Error) => error)
+            expect((unavailable as Error).message).to.match(/answered 503/)
+        } finally {
+            await stub.close()
+        }
+    })
+
+    it('rejects large moves and stale or future NAVs', async function () {
+        const { ztlnPrime } = await loadFixture(deployZtlnFixture)
+        const now = Date.parse('2026-10-19T16:00:00Z')
+
+        const within = await planNavUpdate(
+            ztlnPrime,
+            quote('1.05', '2026-10-19T15:30:00Z'),
+            bounds,
+            now
+        )
+        expect(within).to.include({ price: 105_000_000n, changeBps: 500n, age: 1800 })
+        expect(within.violations).to.be.empty
+
+        const down = await planNavUpdate(
+            ztlnPrime,
+            quote('0.9499', '2026-10-19T16:00:00Z'),
+            bounds,
+            now
+        )
+        expect(down.changeBps).to.equal(-501n)
+        expect(down.violations).to.have.lengthOf(1)
+        expect(down.violations[0]).to.match(/moves -5.01% from 1.0, the limit is 5.0%/)
+
+        const stale = await planNavUpdate(
+            ztlnPrime,
+            quote('1', '2026-10-19T14:59:59Z'),
+            bounds,
+            now
+        )
+        expect(stale.violations).to.deep.equal([
+            'NAV as of 2026-10-19T14:59:59Z is 3601s old, the limit is 3600s'
+        ])
+        const future = await planNavUpdate(
+            ztlnPrime,
+            quote('1', '2026-10-19T16:10:00Z'),
+            bounds,
+            now
+        )
+        expect(future.violations[0]).to.match(/dated in the future/)
+    })
+
+    it('publishes the price and records the SetPrice event', async function () {
+        const { ztlnPrime } = await loadFixture(deployZtlnFixture)
+        const dir = tempDir()
+
+        const update = await planNavUpdate(ztlnPrime, quote('1.0234'), bounds)
+        const entry = await publishNav(ztlnPrime, update, {
+            chainId: 31337,
+            network: 'hardhat',
+            dir
+        })
+        expect(await ztlnPrime.price()).to.equal(102_340_000n)
+
+        const receipt = await ethers.provider.getTransactionReceipt(entry.txHash)
+        const log = receipt!.logs[entry.logIndex - receipt!.logs[0].index]
+        expect(ztlnPrime.interface.parseLog(log)?.args.newPrice).to.equal(102_340_000n)
+        expect(entry).to.include({ nav: '1.0234', price: '102340000', previousPrice: '100000000' })
+
+        const history = fs
+            .readFileSync(path.join(dir, 'chain-31337.jsonl'), 'utf8')
+            .trim()
+            .split('\n')
+            .map(line => JSON.parse(line))
+        expect(history).to.deep.equal([JSON.parse(JSON.stringify(entry))])
+        expect(lastPublishedNav(31337, await ztlnPrime.getAddress(), dir)).to.deep.equal(
+            JSON.parse(JSON.stringify(entry))
+        )
+        expect(lastPublishedNav(31337, target.proxy, dir)).to.be.undefined
+
+        // The same NAV, or an older one, is not published again while it is still fresh
+        const replayed = await planNavUpdate(ztlnPrime, update.quote, {
+            ...bounds,
+            lastAsOf: entry.asOf
+        })
+        expect(replayed.violations).to.deep.equal([
+            `NAV as of ${entry.asOf} is not later than the last published NAV, as of ${entry.asOf}`
+        ])
+
+        // Checked against the old price, so it is not sent once the price has moved
+        const rejected = await publishNav(ztlnPrime, update, {
+            chainId: 31337,
+            network: 'hardhat',
+            dir
+        }).catch((error: Error) => error)
+        expect((rejected as Error).message).to.match(/price changed since/)
+
+        const tooLarge = await planNavUpdate(ztlnPrime, quote('2'), bounds)
+        const blocked = await publishNav(ztlnPrime, tooLarge, {
+            chainId: 31337,
+            network: 'hardhat',
+            dir
+        }).catch((error: Error) => error)
+        expect((blocked as Error).message).to.match(/NAV update rejected/)
+        expect(await ztlnPrime.price()).to.equal(102_340_000n)
+    })
+
+    it('nav:publish checks the HTTP feed in a dry run', async function () {
+        const { ztlnPrime } = await loadFixture(deployZtlnFixture)
+        const proxy = await ztlnPrime.getAddress()
+        const stub = await startNavStub(
+            await signNav(navSigner, '1.2', new Date().toISOString(), { chainId: 31337, proxy })
+        )
+        try {
+            const historyDir = tempDir()
+            const args = { source: stub.url, signers: navSigner.address, proxy, historyDir }
+            const error = await hre
+                .run('nav:publish', { ...args, dryRun: true })
+                .catch((error: Error) => error)
+            expect((error as Error).message).to.match(/outside the safety bounds/)
+
+            const update = await hre.run('nav:publish', { ...args, dryRun: true, maxChange: 20 })
+            expect(update.price).to.equal(120_000_000n)
+            expect(await ztlnPrime.price()).to.equal(100_000_000n)
+
+            // A numeric maxChange in the config file
+            const configFile = path.join(historyDir, 'nav.json')
+            fs.writeFileSync(configFile, JSON.stringify({ maxChange: 20 }))
+            await hre.run('nav:publish', { ...args, configFile })
+            expect(await ztlnPrime.price()).to.equal(120_000_000n)
+            expect(lastPublishedNav(31337, proxy, historyDir)?.nav).to.equal('1.2')
+
+            // The feed still serves the same NAV, which must not be published again
+            await ztlnPrime.setPrice(100_000_000n)
+            const replay = await hre
+                .run('nav:publish', { ...args, configFile })
+                .catch((error: Error) => error)
+            expect((replay as Error).message).to.match(/outside the safety bounds/)
+            expect(await ztlnPrime.price()).to.equal(100_000_000n)
+        } finally {
+            await stub.close()
+        }
+    })
+})
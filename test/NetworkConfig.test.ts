@@ -0,0 +1,67 @@
+import { expect } from 'chai'
+
+import {
+    assertNetworkEnv,
+    etherscanConfig,
+    hardhatNetworks,
+    networkForChain,
+    NETWORKS,
+    requiredEnv
+} from '../network_config'
+
+describe('Network config', function () {
+    const env = {
+        ALCHEMY_API_KEY: 'alchemy-key',
+        LEDGER_ACCOUNT: '0x0000000000000000000000000000000000000001',
+        ETHERSCAN_API_KEY: 'etherscan-key',
+        POLYGONSCAN_API_KEY: 'polygonscan-key'
+    }
+
+    it('generates a Hardhat network for every registry entry', function () {
+        const networks = hardhatNetworks(env)
+        expect(Object.keys(networks)).to.deep.equal(Object.keys(NETWORKS))
+        expect(networks.mainnet).to.deep.equal({
+            chainId: 1,
+            url: 'https://eth-mainnet.g.alchemy.com/v2/alchemy-key',
+            ledgerAccounts: [env.LEDGER_ACCOUNT]
+        })
+        expect(hardhatNetworks({}).mainnet).to.include({
+            url: 'https://eth-mainnet.g.alchemy.com/v2/'
+        })
+        expect(hardhatNetworks({}).amoy).to.deep.include({ ledgerAccounts: [] })
+    })
+
+    it('generates explorer keys and custom chains', function () {
+        const { apiKey, customChains } = etherscanConfig(env)
+        expect(apiKey).to.deep.equal({
+            polygon: 'polygonscan-key',
+            mainnet: 'etherscan-key',
+            holesky: 'etherscan-key',
+            amoy: 'polygonscan-key',
+            manta: 'none',
+            berachain: 'none'
+        })
+        expect(customChains?.map(({ network, chainId }) => [network, chainId])).to.deep.equal([
+            ['holesky', 17000],
+            ['amoy', 80002],
+            ['manta', 169],
+            ['berachain', 80084]
+        ])
+    })
+
+    it('names the environment variables the selected network is missing', function () {
+        expect(requiredEnv(NETWORKS.mainnet)).to.deep.equal(['ALCHEMY_API_KEY', 'LEDGER_ACCOUNT'])
+        expect(() => assertNetworkEnv('mainnet', {})).to.throw(
+            'Network mainnet needs ALCHEMY_API_KEY, LEDGER_ACCOUNT, see .env.example'
+        )
+        expect(() => assertNetworkEnv('amoy', { ALCHEMY_API_KEY: 'key' })).to.throw(
+            'Network amoy needs LEDGER_ACCOUNT'
+        )
+        expect(() => assertNetworkEnv('mainnet', env)).not.to.throw()
+        // Networks outside the registry, like hardhat and localhost, need nothing
+        expect(() => assertNetworkEnv('hardhat', {})).not.to.throw()
+        expect(networkForChain(80084n)).to.include({ name: 'berachain', nativeToken: 'BERA' })
+        expect(networkForChain(169)).to.include({ name: 'manta', mainnet: true })
+        expect(networkForChain(31337)).to.be.undefined
+    })
+})
@@ -0,0 +1,108 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+
+import {
+    buildProcessCalls,
+    buildRedemptionQueue,
+    queueWarnings
+} from '../scripts/utils/redemptions'
+import { deployAsset, deployZtlnFixture } from './fixtures'
+
+describe('Redemption queue', function () {
+    async function redemptionFixture() {
+        const fixture = await deployZtlnFixture()
+        const { ztlnPrime, investor, investor2 } = fixture
+        const vault = await ztlnPrime.getAddress()
+        const usdc = await deployAsset(vault, 6, [investor, investor2], 10_000n * 10n ** 6n)
+
+        // 1000 ZTLN-P each at a price of 1
+        for (const account of [investor, investor2]) {
+            await ztlnPrime.connect(account).deposit(await usdc.getAddress(), 1000n * 10n ** 6n)
+            await ztlnPrime.connect(account).approve(vault, ethers.MaxUint256)
+        }
+        await ztlnPrime.connect(investor).redeem(300n * 10n ** 6n, await usdc.getAddress())
+        await ztlnPrime.connect(investor).redeem(200n * 10n ** 6n, await usdc.getAddress())
+        await ztlnPrime.connect(investor2).redeem(100n * 10n ** 6n, await usdc.getAddress())
+
+        return { ...fixture, usdc, vault }
+    }
+
+    it('rebuilds outstanding shares per investor and prices them at the current price', async function () {
+        const { ztlnPrime, investor, investor2, usdc, vault } = await loadFixture(redemptionFixture)
+        await ztlnPrime.processRedemption(
+            investor.address,
+            await usdc.getAddress(),
+            200n * 10n ** 6n,
+            200n * 10n ** 6n
+        )
+        await ztlnPrime.setPrice(125_000_000n)
+
+        const queue = await buildRedemptionQueue(ethers.provider, vault, { fromBlock: 0 })
+        const byInvestor = Object.fromEntries(queue.entries.map(e => [e.investor, e]))
+
+        expect(byInvestor[investor.address]).to.include({
+            requests: 2,
+            requestedShares: '500000000',
+            processedShares: '200000000',
+            outstandingShares: '300000000',
+            payout: '375000000'
+        })
+        expect(byInvestor[investor2.address]).to.include({
+            outstandingShares: '100000000',
+            payout: '125000000'
+        })
+        expect(queue.outstandingShares).to.equal('400000000')
+        expect(queue.vaultShares).to.equal('400000000')
+    })
+
+    it('produces processRedemption calls that settle the queue', async function () {
+        const { ztlnPrime, usdc, vault } = await loadFixture(redemptionFixture)
+
+        const calls = buildProcessCalls(
+            await buildRedemptionQueue(ethers.provider, vault, { fromBlock: 0 })
+        )
+        expect(calls).to.have.length(2)
+        for (const { investor, asset, amount, shares } of calls) {
+            await ztlnPrime.processRedemption(investor, asset, amount, shares)
+        }
+
+        const settled = await buildRedemptionQueue(ethers.provider, vault, { fromBlock: 0 })
+        expect(settled.outstandingShares).to.equal('0')
+        expect(buildProcessCalls(settled)).to.be.empty
+        expect(await usdc.balanceOf(vault)).to.equal(1400n * 10n ** 6n)
+    })
+
+    it('flags over-processing and leaves it out of the batch', async function () {
+        const { ztlnPrime, investor2, usdc, vault } = await loadFixture(redemptionFixture)
+        // investor2 requested 100 but is processed for 150, burning shares queued by investor
+        await ztlnPrime.processRedemption(
+            investor2.address,
+            await usdc.getAddress(),
+            150n * 10n ** 6n,
+            150n * 10n ** 6n
+        )
+
+        const queue = await buildRedemptionQueue(ethers.provider, vault, { fromBlock: 0 })
+        expect(queue.entries.find(e => e.investor === investor2.address)?.overProcessed).to.be.true
+        expect(buildProcessCalls(queue).map(c => c.investor)).not.to.include(investor2.address)
+
+        const warnings = queueWarnings(queue)
+        expect(warnings.some(w => w.startsWith('Over-processed'))).to.be.true
+        expect(warnings.some(w => w.includes('ZTLN-P but'))).to.be.true
+    })
+
+    it('flags assets the vault cannot pay out', async function () {
+        const { ztlnPrime, usdc, vault } = await loadFixture(redemptionFixture)
+        await ztlnPrime.transferToCustodian(await usdc.getAddress(), 1950n * 10n ** 6n)
+
+        const queue = await buildRedemptionQueue(ethers.provider, vault, { fromBlock: 0 })
+        expect(queue.assets[0]).to.include({
+            vaultBalance: '50000000',
+            payoutDue: '600000000',
+            shortfall: '550000000'
+        })
+        expect(buildProcessCalls(queue)).to.be.empty
+        expect(queueWarnings(queue).some(w => w.startsWith('Insufficient'))).to.be.true
+    })
+})
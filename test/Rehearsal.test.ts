@@ -0,0 +1,168 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { Manifest, ManifestData } from '@openzeppelin/upgrades-core'
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers, upgrades } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import { readManifest, rehearseUpgrade, runSmokeTests, StateDump } from '../scripts/utils/rehearsal'
+import { deployZtlnFixture } from './fixtures'
+
+describe('Upgrade rehearsal', function () {
+    // The dump stands in for amoy, whose manifest loadStateDump reads the deployed layout from
+    const sourceChainId = 80002
+
+    async function dumpedFundFixture() {
+        const fromBlock = (await ethers.provider.getBlockNumber()) + 1
+        const fixture = await deployZtlnFixture()
+        const { ztlnPrime, kycManager, implementation, investor2 } = fixture
+        // The smoke transactions send to the third signer expecting it to lack KYC
+        await kycManager.bulkRevokeKyc([investor2.address])
+
+        const contracts = await Promise.all(
+            [ztlnPrime, kycManager, implementation].map(contract => contract.getAddress())
+        )
+        const slots = await writtenSlots(fromBlock)
+        const dump: StateDump = { accounts: {} }
+        for (const address of contracts) {
+            const storage: Record<string, string> = {}
+            for (const slot of slots.get(address.toLowerCase()) ?? []) {
+                storage[slot] = await ethers.provider.getStorage(address, slot)
+            }
+            dump.accounts[address] = {
+                nonce: 1,
+                code: await ethers.provider.getCode(address),
+                storage
+            }
+        }
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rehearsal-'))
+        const file = path.join(dir, 'dump.json')
+        fs.writeFileSync(file, JSON.stringify(dump))
+        const manifestDir = path.join(dir, 'manifests')
+        const snapshotDir = path.join(dir, 'snapshots')
+
+        // The proxy's layout as registered on the chain the dump comes from
+        await upgrades.forceImport(contracts[0], await ethers.getContractFactory('ZTLNPrime'), {
+            kind: 'uups'
+        })
+        const local = await Manifest.forNetwork(ethers.provider)
+        const source = await local.read()
+        const implementationKey = Object.keys(source.impls).find(
+            key => source.impls[key]?.address === contracts[2]
+        )!
+        writeSourceManifest(manifestDir, source)
+
+        // Wipe what the dump holds, so only loading it brings the fund back
+        await local.lockedRun(async () => {
+            const data = await local.read()
+            delete data.impls[implementationKey]
+            await local.write(data)
+        })
+        for (const address of contracts) {
+            await ethers.provider.send('hardhat_setCode', [address, '0x'])
+            for (const slot of Object.keys(dump.accounts[address].storage!)) {
+                await ethers.provider.send('hardhat_setStorageAt', [address, slot, ethers.ZeroHash])
+            }
+        }
+
+        const registry = path.join(dir, 'registry.json')
+        fs.writeFileSync(
+            registry,
+            JSON.stringify({
+                [sourceChainId]: {
+                    network: 'amoy',
+                    chainId: sourceChainId,
+                    kycManager: { address: contracts[1] },
+                    implementations: [{ address: contracts[2], status: 'active' }],
+                    proxy: { address: contracts[0] }
+                }
+            })
+        )
+        return {
+            ...fixture,
+            implementationKey,
+            rehearsal: { stateDump: file, registry, manifestDir, snapshotDir, fromBlock: 0 }
+        }
+    }
+
+    function writeSourceManifest(dir: string, data: ManifestData) {
+        fs.mkdirSync(dir, { recursive: true })
+        fs.writeFileSync(path.join(dir, `unknown-${sourceChainId}.json`), JSON.stringify(data))
+    }
+
+    // Storage slots written by the transactions since `fromBlock`, per contract. Each SSTORE in
+    // the trace writes to the contract at its call depth, a DELEGATECALL keeps the caller's.
+    async function writtenSlots(fromBlock: number) {
+        const slots = new Map<string, Set<string>>()
+        const word = (value: string) => ethers.toBeHex(BigInt(`0x${value.replace(/^0x/, '')}`))
+        for (let number = fromBlock; number <= (await ethers.provider.getBlockNumber()); number++) {
+            for (const hash of (await ethers.provider.getBlock(number))!.transactions) {
+                const receipt = (await ethers.provider.getTransactionReceipt(hash))!
+                const trace = await ethers.provider.send('debug_traceTransaction', [hash])
+                const context = [(receipt.contractAddress ?? receipt.to)!.toLowerCase()]
+                for (const { op, depth, stack } of trace.structLogs) {
+                    context.length = depth
+                    const address = context[depth - 1]
+                    const top = (index: number) => stack[stack.length - 1 - index]
+                    if (op === 'SSTORE') {
+                        if (!slots.has(address)) slots.set(address, new Set())
+                        slots.get(address)!.add(ethers.zeroPadValue(word(top(0)), 32))
+                    } else if (op === 'CALL' || op === 'STATICCALL') {
+                        context[depth] = ethers.zeroPadValue(word(top(1)), 20).toLowerCase()
+                    } else if (op === 'DELEGATECALL' || op === 'CALLCODE') {
+                        context[depth] = address
+                    }
+                }
+            }
+        }
+        return slots
+    }
+
+    it('loads a state dump, upgrades and passes the smoke transactions', async function () {
+        const { ztlnPrime, admin, investor, rehearsal } = await loadFixture(dumpedFundFixture)
+        expect(await ethers.provider.getCode(await ztlnPrime.getAddress())).to.equal('0x')
+
+        await rehearseUpgrade(hre, { ...rehearsal, targetNetwork: 'amoy', admin: admin.address })
+        expect(await ztlnPrime.hasRole(await ztlnPrime.DEFAULT_ADMIN_ROLE(), admin.address)).to.be
+            .true
+        expect(await ztlnPrime.price()).to.equal(10n ** 8n)
+        // The smoke deposit went through and half of it was redeemed
+        expect(await ztlnPrime.balanceOf(investor.address)).to.equal(500n * 10n ** 6n)
+        expect(fs.readdirSync(rehearsal.snapshotDir)).to.have.lengthOf(2)
+    })
+
+    it('fails when the upgrade breaks the storage layout', async function () {
+        const { admin, rehearsal, implementationKey } = await loadFixture(dumpedFundFixture)
+        // The deployed implementation had one more variable ahead of those the build still has
+        const source = readManifest(sourceChainId, rehearsal.manifestDir)
+        const { storage } = source.impls[implementationKey]!.layout
+        storage.forEach(item => (item.slot = String(Number(item.slot) + 1)))
+        storage.unshift({
+            ...storage[0],
+            label: '_removed',
+            slot: String(Number(storage[0].slot) - 1)
+        })
+        writeSourceManifest(rehearsal.manifestDir, source)
+
+        const error = await rehearseUpgrade(hre, {
+            ...rehearsal,
+            targetNetwork: 'amoy',
+            admin: admin.address
+        }).catch((error: Error) => error)
+        expect((error as Error).message).to.include('New storage layout is incompatible')
+    })
+
+    it('leaves the smoke price in place on a fund without a price', async function () {
+        const { ztlnPrime, kycManager, admin, investor2 } = await loadFixture(deployZtlnFixture)
+        await kycManager.bulkRevokeKyc([investor2.address])
+        await ztlnPrime.setPrice(0n)
+
+        const results = await runSmokeTests(hre, await ztlnPrime.getAddress(), admin, admin)
+        expect(results.filter(({ passed }) => !passed)).to.be.empty
+        expect(results.find(({ name }) => name === 'setPrice')?.detail).to.include(
+            'the fund had no price'
+        )
+        expect(await ztlnPrime.price()).to.equal(10n ** 8n + 1n)
+    })
+})
@@ -0,0 +1,177 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import {
+    auditRoles,
+    convergeRoles,
+    loadRolePolicy,
+    replayRoles,
+    RolePolicy
+} from '../scripts/utils/roles'
+import { deployZtlnFixture } from './fixtures'
+
+describe('Role audit', function () {
+    const OPERATOR_ROLE = ethers.id('OPERATOR_ROLE')
+
+    // An extra ZTLNPrime operator, and a KycManager operator that was granted, revoked and replaced
+    async function rolesFixture() {
+        const fixture = await deployZtlnFixture({ separateRoles: true, fundInvestors: true })
+        const { ztlnPrime, kycManager, operator, investor, outsider } = fixture
+        await ztlnPrime.grantRole(OPERATOR_ROLE, outsider.address)
+        await kycManager.grantRole(OPERATOR_ROLE, investor.address)
+        await kycManager.revokeRole(OPERATOR_ROLE, investor.address)
+        await kycManager.grantRole(OPERATOR_ROLE, operator.address)
+        return fixture
+    }
+
+    function writePolicy(policy: unknown) {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'roles-')), 'policy.json')
+        fs.writeFileSync(file, JSON.stringify({ 31337: policy }))
+        return file
+    }
+
+    async function replay(fixture: Awaited<ReturnType<typeof rolesFixture>>) {
+        const { ztlnPrime, kycManager } = fixture
+        return [
+            await replayRoles(ethers.provider, 'ztlnPrime', await ztlnPrime.getAddress()),
+            await replayRoles(ethers.provider, 'kycManager', await kycManager.getAddress())
+        ]
+    }
+
+    it('rebuilds current and past role holders from the logs', async function () {
+        const fixture = await loadFixture(rolesFixture)
+        const { admin, operator, investor, outsider } = fixture
+        const [ztlnPrime, kycManager] = await replay(fixture)
+
+        expect(
+            ztlnPrime.roles.map(({ name, adminRole, members }) => [name, adminRole, members])
+        ).to.deep.equal([
+            ['DEFAULT_ADMIN_ROLE', 'DEFAULT_ADMIN_ROLE', [admin.address]],
+            ['OPERATOR_ROLE', 'DEFAULT_ADMIN_ROLE', [operator.address, outsider.address].sort()]
+        ])
+
+        const operators = kycManager.roles.find(({ name }) => name === 'OPERATOR_ROLE')!
+        expect(operators.members).to.deep.equal([operator.address])
+        expect(operators.history.map(({ account }) => account)).to.deep.equal([
+            investor.address,
+            operator.address
+        ])
+        expect(operators.history[0]).to.include({
+            grantedBy: admin.address,
+            revokedBy: admin.address
+        })
+        expect(operators.history[0].revokedBlock).to.be.greaterThan(
+            operators.history[0].grantedBlock
+        )
+        expect(operators.history[1].revokedBlock).to.be.undefined
+    })
+
+    it('refuses a replay that starts after the deployment', async function () {
+        const { kycManager } = await loadFixture(rolesFixture)
+        const error = await replayRoles(
+            ethers.provider,
+            'kycManager',
+            await kycManager.getAddress(),
+            {
+                fromBlock: await ethers.provider.getBlockNumber()
+            }
+        ).catch((error: Error) => error)
+        expect((error as Error).message).to.match(/replay from the contract's deployment block/)
+    })
+
+    it('reports deviations from the policy and converges to it', async function () {
+        const fixture = await loadFixture(rolesFixture)
+        const { ztlnPrime, usdc, admin, operator, outsider } = fixture
+        // Any contract stands in for the admin Safe
+        const safe = await usdc.getAddress()
+        const policy: RolePolicy = {
+            ztlnPrime: {
+                DEFAULT_ADMIN_ROLE: { members: [safe], multisig: true },
+                OPERATOR_ROLE: { members: [operator.address] }
+            },
+            kycManager: {
+                DEFAULT_ADMIN_ROLE: { members: [admin.address] },
+                OPERATOR_ROLE: { members: [operator.address] }
+            }
+        }
+
+        const findings = await auditRoles(ethers.provider, await replay(fixture), policy)
+        expect(
+            findings.map(({ contract, role, issue, account }) => [contract, role, issue, account])
+        ).to.deep.equal([
+            ['ztlnPrime', 'DEFAULT_ADMIN_ROLE', 'unexpected', admin.address],
+            ['ztlnPrime', 'DEFAULT_ADMIN_ROLE', 'missing', safe],
+            ['ztlnPrime', 'DEFAULT_ADMIN_ROLE', 'eoa', admin.address],
+            ['ztlnPrime', 'OPERATOR_ROLE', 'unexpected', outsider.address]
+        ])
+
+        // Grants first and the sender's own admin role last, so the batch runs from the admin
+        const calls = convergeRoles(await replay(fixture), findings)
+        expect(calls.map(({ method, role, account }) => [method, role, account])).to.deep.equal([
+            ['grantRole', 'DEFAULT_ADMIN_ROLE', safe],
+            ['revokeRole', 'OPERATOR_ROLE', outsider.address],
+            ['revokeRole', 'DEFAULT_ADMIN_ROLE', admin.address]
+        ])
+        for (const { transaction } of calls) {
+            await admin.sendTransaction({ to: transaction.to, data: transaction.data })
+        }
+        expect(await ztlnPrime.hasRole(ethers.ZeroHash, safe)).to.be.true
+        expect(await auditRoles(ethers.provider, await replay(fixture), policy)).to.be.empty
+    })
+
+    it('rejects policies without an admin or with invalid members', async function () {
+        const file = writePolicy({
+            ztlnPrime: { DEFAULT_ADMIN_ROLE: { members: [] } },
+            kycManager: { DEFAULT_ADMIN_ROLE: { members: ['0x1234'] }, OPERATOR_ROLE: {} },
+            vault: {}
+        })
+        expect(() => loadRolePolicy(file, 31337)).to.throw(
+            [
+                'vault: unknown contract',
+                'ztlnPrime.DEFAULT_ADMIN_ROLE: needs a member',
+                'kycManager.DEFAULT_ADMIN_ROLE.members[0]: invalid address',
+                'kycManager.OPERATOR_ROLE.members: expected a list of addresses'
+            ].join('\n')
+        )
+        expect(() => loadRolePolicy(file, 1)).to.throw(/no policy for chain ID 1/)
+    })
+
+    it('roles:audit writes the report and fails on findings', async function () {
+        const { ztlnPrime, admin, operator, outsider } = await loadFixture(rolesFixture)
+        const reportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'roles-'))
+        const policy = {
+            ztlnPrime: {
+                DEFAULT_ADMIN_ROLE: { members: [admin.address] },
+                OPERATOR_ROLE: { members: [operator.address] }
+            },
+            kycManager: {
+                DEFAULT_ADMIN_ROLE: { members: [admin.address] },
+                OPERATOR_ROLE: { members: [operator.address] }
+            }
+        }
+        const args = {
+            policy: writePolicy(policy),
+            proxy: await ztlnPrime.getAddress(),
+            out: 'roles',
+            reportDir
+        }
+
+        const error = await hre.run('roles:audit', args).catch((error: Error) => error)
+        expect((error as Error).message).to.equal('Role audit found 1 issue(s)')
+        const calls = fs
+            .readFileSync(path.join(reportDir, 'roles-calls.csv'), 'utf8')
+            .trim()
+            .split('\n')
+        expect(calls[0]).to.equal('contract,to,method,role,account,data')
+        expect(calls[1]).to.match(/^ztlnPrime,0x\w+,revokeRole,OPERATOR_ROLE,/)
+
+        await ztlnPrime.revokeRole(OPERATOR_ROLE, outsider.address)
+        const audit = await hre.run('roles:audit', args)
+        expect(audit.findings).to.be.empty
+        expect(audit.calls).to.be.empty
+    })
+})
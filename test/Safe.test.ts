@@ -0,0 +1,138 @@
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+
+import {
+    buildProposal,
+    computeSafeTxHash,
+    encodeCall,
+    MULTISEND_CALL_ONLY,
+    Operation,
+    toSafeTransaction
+} from '../scripts/utils/safe'
+
+describe('Safe proposals', function () {
+    const ztlnPrime = new ethers.Interface([
+        'function setPrice(uint256 price)',
+        'function setCustodian(address newAddress)'
+    ])
+    const setPrice = encodeCall(
+        '0x00000000000000000000000000000000000000aa',
+        ztlnPrime,
+        'setPrice',
+        [101_000_000n]
+    )
+    const setCustodian = encodeCall(
+        '0x00000000000000000000000000000000000000bb',
+        ztlnPrime,
+        'setCustodian',
+        ['0x00000000000000000000000000000000000000cc']
+    )
+
+    async function safeMock(nonce = 0n) {
+        const mock = await ethers.deployContract('SafeMock')
+        await mock.setNonce(nonce)
+        return mock
+    }
+
+    // What a Safe v1.3.0 at `mock` signs for `transaction` with no gas refund
+    function safeTxHashOf(
+        mock: Awaited<ReturnType<typeof safeMock>>,
+        transaction: { to: string; value: string; data: string; operation: Operation },
+        nonce: bigint
+    ) {
+        const { to, value, data, operation } = transaction
+        return mock.getTransactionHash(
+            to,
+            value,
+            data,
+            operation,
+            0,
+            0,
+            0,
+            ethers.ZeroAddress,
+            ethers.ZeroAddress,
+            nonce
+        )
+    }
+
+    it('computes the safeTxHash the Safe contract computes', async function () {
+        const mock = await safeMock()
+        const address = await mock.getAddress()
+        const { chainId } = await ethers.provider.getNetwork()
+        for (const transaction of [
+            toSafeTransaction([setPrice]),
+            toSafeTransaction([setPrice, setCustodian])
+        ]) {
+            expect(computeSafeTxHash(chainId, address, transaction, 7n)).to.equal(
+                await safeTxHashOf(mock, transaction, 7n)
+            )
+        }
+
+        // Chain and nonce are part of the hash, so a proposal cannot be replayed elsewhere
+        const single = toSafeTransaction([setPrice])
+        expect(computeSafeTxHash(137, address, single, 7)).to.not.equal(
+            computeSafeTxHash(chainId, address, single, 7)
+        )
+        expect(computeSafeTxHash(chainId, address, single, 8)).to.not.equal(
+            computeSafeTxHash(chainId, address, single, 7)
+        )
+    })
+
+    it('sends one call directly and batches through a MultiSend delegatecall', function () {
+        expect(toSafeTransaction([setPrice])).to.deep.equal({
+            to: setPrice.to,
+            value: '0',
+            data: setPrice.data,
+            operation: Operation.Call
+        })
+
+        const batch = toSafeTransaction([setPrice, setCustodian])
+        expect(batch.to).to.equal(ethers.getAddress(MULTISEND_CALL_ONLY))
+        expect(batch.operation).to.equal(Operation.DelegateCall)
+        const [packed] = new ethers.Interface([
+            'function multiSend(bytes transactions)'
+        ]).decodeFunctionData('multiSend', batch.data)
+        // Each call is packed as operation, to, value, data length and data
+        expect(packed).to.equal(
+            ethers.concat(
+                [setPrice, setCustodian].flatMap(({ to, data }) => [
+                    '0x00',
+                    to,
+                    ethers.toBeHex(0, 32),
+                    ethers.toBeHex(ethers.dataLength(data), 32),
+                    data
+                ])
+            )
+        )
+    })
+
+    describe('nonce', function () {
+        const savedNonce = process.env.SAFE_NONCE
+
+        afterEach(function () {
+            if (savedNonce === undefined) delete process.env.SAFE_NONCE
+            else process.env.SAFE_NONCE = savedNonce
+        })
+
+        it('takes SAFE_NONCE, then the Safe nonce on chain, unless one is passed', async function () {
+            const mock = await safeMock(7n)
+            const proposal = (nonce?: bigint) =>
+                buildProposal(ethers.provider, mock.target as string, 'test', '', [setPrice], nonce)
+
+            delete process.env.SAFE_NONCE
+            const { safeTransaction } = await proposal()
+            expect(safeTransaction.nonce).to.equal('7')
+            expect(safeTransaction.safeTxHash).to.equal(
+                await safeTxHashOf(mock, toSafeTransaction([setPrice]), 7n)
+            )
+
+            process.env.SAFE_NONCE = '12'
+            expect((await proposal()).safeTransaction.nonce).to.equal('12')
+            expect((await proposal(3n)).safeTransaction.nonce).to.equal('3')
+
+            // An empty SAFE_NONCE, as .env.example leaves it, falls back to the chain
+            process.env.SAFE_NONCE = ''
+            expect((await proposal()).safeTransaction.nonce).to.equal('7')
+        })
+    })
+})
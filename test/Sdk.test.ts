@@ -0,0 +1,191 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+
+import {
+    ContractRevertError,
+    decodeError,
+    DEPLOYMENTS,
+    KycType,
+    PermissionDeniedError,
+    RestrictionCode,
+    SdkRegistry,
+    TransferRestrictedError,
+    UserBannedError,
+    UserMissingKycError,
+    ZtlnClient
+} from '../sdk'
+import { deployZtlnFixture } from './fixtures'
+
+const USDC = (amount: bigint) => amount * 10n ** 6n
+const SHARES = USDC
+
+describe('SDK', function () {
+    // deployZtlnFixture plus a 6 decimal asset the investor holds but has not approved
+    async function clientFixture() {
+        const fixture = await deployZtlnFixture()
+        const asset = await ethers.deployContract('MockERC20', ['USD Coin', 'USDC', 6])
+        await asset.mint(fixture.investor.address, USDC(10_000n))
+        const proxy = await fixture.ztlnPrime.getAddress()
+        return {
+            ...fixture,
+            asset,
+            client: new ZtlnClient(proxy, fixture.investor),
+            operatorClient: new ZtlnClient(proxy, fixture.admin)
+        }
+    }
+
+    describe('ZtlnClient', function () {
+        it('finds the proxy for a chain in the bundled or a given registry', async function () {
+            const { ztlnPrime, investor } = await loadFixture(clientFixture)
+
+            expect(await ZtlnClient.forChain(1, investor).ztlnPrime.getAddress()).to.equal(
+                DEPLOYMENTS[1].proxy!.address
+            )
+            const registry: SdkRegistry = {
+                31337: {
+                    network: 'hardhat',
+                    chainId: 31337,
+                    proxy: { address: await ztlnPrime.getAddress() }
+                }
+            }
+            const client = ZtlnClient.forChain(31337, investor, registry)
+            expect(await client.price()).to.equal(10n ** 8n)
+            expect(() => ZtlnClient.forChain(31337, investor)).to.throw(
+                'No ZTLNPrime proxy deployed on chain 31337'
+            )
+        })
+
+        it('previews deposits and redemptions at the current NAV', async function () {
+            const { client, operatorClient, asset } = await loadFixture(clientFixture)
+            await operatorClient.setNav('1.05')
+
+            expect(await client.nav()).to.equal('1.05')
+            expect(await client.previewDeposit(await asset.getAddress(), '1050')).to.equal(
+                SHARES(1_000n)
+            )
+            expect(await client.previewRedemption(await asset.getAddress(), '1000')).to.equal(
+                USDC(1_050n)
+            )
+        })
+
+        it('reads KYC status and transfer restrictions', async function () {
+            const { client, kycManager, investor, investor2, outsider } =
+                await loadFixture(clientFixture)
+            await kycManager.bulkBan([investor2.address])
+
+            expect(await client.kycStatus(investor.address)).to.deep.equal({
+                kycType: KycType.US_KYC,
+                isBanned: false
+            })
+            expect(await client.kycStatus(investor2.address)).to.deep.equal({
+                kycType: KycType.US_KYC,
+                isBanned: true
+            })
+            expect(await client.canTransfer(investor.address, outsider.address)).to.deep.equal({
+                allowed: false,
+                code: RestrictionCode.DISALLOWED_OR_STOP,
+                message: 'User is not KYCed'
+            })
+            expect(await client.canTransfer(investor.address, investor2.address)).to.deep.equal({
+                allowed: false,
+                code: RestrictionCode.REVOKED_OR_BANNED,
+                message: 'User is banned'
+            })
+        })
+
+        it('approves the vault only when the allowance is short', async function () {
+            const { client, ztlnPrime, asset, investor } = await loadFixture(clientFixture)
+            const vault = await ztlnPrime.getAddress()
+            const nonce = () => ethers.provider.getTransactionCount(investor.address)
+
+            // No allowance yet: approve, then deposit
+            let before = await nonce()
+            const { shares } = await client.deposit(await asset.getAddress(), '1000')
+            expect(shares).to.equal(SHARES(1_000n))
+            expect(await nonce()).to.equal(before + 2)
+            expect(await asset.allowance(investor.address, vault)).to.equal(0n)
+
+            // Enough allowance already: deposit only
+            await asset.connect(investor).approve(vault, ethers.MaxUint256)
+            before = await nonce()
+            await client.deposit(await asset.getAddress(), '500')
+            expect(await nonce()).to.equal(before + 1)
+
+            // Redemption requests approve the vault for the shares the same way
+            before = await nonce()
+            await expect(client.requestRedemption('600', await asset.getAddress()))
+                .to.emit(ztlnPrime, 'RequestRedemption')
+                .withArgs(investor.address, SHARES(600n), await asset.getAddress())
+            expect(await nonce()).to.equal(before + 2)
+            expect(await ztlnPrime.balanceOf(investor.address)).to.equal(SHARES(900n))
+        })
+    })
+
+    describe('decodeError', function () {
+        it('decodes each transfer restriction into a TransferRestrictedError', async function () {
+            const { ztlnPrime, kycManager, investor, investor2, outsider } =
+                await loadFixture(clientFixture)
+            await ztlnPrime.mint(investor.address, SHARES(100n))
+
+            const transfer = (to: string) =>
+                ztlnPrime
+                    .connect(investor)
+                    .transfer(to, SHARES(1n))
+                    .catch((error: Error) => decodeError(error))
+
+            const disallowed = await transfer(outsider.address)
+            expect(disallowed).to.be.instanceOf(TransferRestrictedError)
+            expect((disallowed as TransferRestrictedError).code).to.equal(
+                RestrictionCode.DISALLOWED_OR_STOP
+            )
+            expect((disallowed as TransferRestrictedError).message).to.equal('User is not KYCed')
+
+            await kycManager.bulkBan([investor2.address])
+            const banned = await transfer(investor2.address)
+            expect(banned).to.be.instanceOf(TransferRestrictedError)
+            expect((banned as TransferRestrictedError).code).to.equal(
+                RestrictionCode.REVOKED_OR_BANNED
+            )
+            expect((banned as TransferRestrictedError).message).to.equal('User is banned')
+        })
+
+        it('decodes Errors.sol reverts into typed errors', async function () {
+            const { client, kycManager, asset, investor, outsider } =
+                await loadFixture(clientFixture)
+            const outsiderClient = new ZtlnClient(await client.ztlnPrime.getAddress(), outsider)
+
+            const missingKyc = await outsiderClient
+                .deposit(await asset.getAddress(), '1')
+                .catch((error: Error) => error)
+            expect(missingKyc).to.be.instanceOf(UserMissingKycError)
+            expect((missingKyc as UserMissingKycError).user).to.equal(outsider.address)
+
+            await kycManager.bulkBan([investor.address])
+            const banned = await client
+                .deposit(await asset.getAddress(), '1')
+                .catch((error: Error) => error)
+            expect(banned).to.be.instanceOf(UserBannedError)
+            expect((banned as UserBannedError).user).to.equal(investor.address)
+
+            const denied = await outsiderClient.setNav('2').catch((error: Error) => error)
+            expect(denied).to.be.instanceOf(PermissionDeniedError)
+        })
+
+        it('keeps other reverts generic and leaves unrelated errors alone', async function () {
+            const { ztlnPrime, investor } = await loadFixture(clientFixture)
+
+            // An OpenZeppelin ERC20 error from the ZTLNPrime ABI
+            const insufficient = await ztlnPrime
+                .burnFrom(investor.address, SHARES(1n))
+                .catch((error: Error) => decodeError(error))
+            expect(insufficient).to.be.instanceOf(ContractRevertError)
+            expect((insufficient as ContractRevertError).errorName).to.equal(
+                'ERC20InsufficientBalance'
+            )
+
+            const unrelated = new Error('network down')
+            expect(decodeError(unrelated)).to.equal(unrelated)
+        })
+    })
+})
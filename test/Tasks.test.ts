@@ -0,0 +1,151 @@
+import { expect } from 'chai'
+import fs from 'fs'
+import hre, { ethers } from 'hardhat'
+import os from 'os'
+import path from 'path'
+
+import { ZTLN_SALT } from '../scripts/utils/deploy'
+import { resolveParams } from '../scripts/utils/task-runner'
+
+describe('Deployment tasks', function () {
+    const address = (label: string) => ethers.getAddress(ethers.dataSlice(ethers.id(label), 12))
+
+    function writeConfig(contents: object) {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'task-')), 'config.json')
+        fs.writeFileSync(file, JSON.stringify(contents))
+        return file
+    }
+
+    describe('resolveParams', function () {
+        const spec = {
+            operator: { type: 'address', env: 'TEST_OPERATOR' },
+            salt: { type: 'salt' },
+            confirmations: { type: 'int' },
+            price: { type: 'float' },
+            dryRun: { type: 'boolean' }
+        } as const
+
+        afterEach(function () {
+            delete process.env.TEST_OPERATOR
+        })
+
+        it('prefers the command line, then the config file, then the environment', function () {
+            process.env.TEST_OPERATOR = address('env')
+            const config = writeConfig({
+                operator: address('file'),
+                confirmations: 3,
+                dryRun: true
+            })
+
+            expect(resolveParams({ dryRun: false }, spec, config)).to.deep.equal({
+                operator: address('file'),
+                confirmations: 3,
+                dryRun: true
+            })
+            expect(
+                resolveParams({ operator: address('cli'), confirmations: 5 }, spec, config)
+            ).to.include({ operator: address('cli'), confirmations: 5 })
+            expect(resolveParams({}, spec)).to.deep.equal({ operator: address('env') })
+        })
+
+        it('reads decimal numbers from the command line and the config file', function () {
+            expect(resolveParams({ price: '3150.75' }, spec).price).to.equal(3150.75)
+            expect(resolveParams({}, spec, writeConfig({ price: 0.45 })).price).to.equal(0.45)
+        })
+
+        it('hashes salt labels and keeps 32-byte salts', function () {
+            expect(resolveParams({ salt: 'ZTLN-P' }, spec).salt).to.equal(ZTLN_SALT)
+            expect(resolveParams({ salt: ZTLN_SALT }, spec).salt).to.equal(ZTLN_SALT)
+        })
+
+        it('rejects invalid values and unknown config keys', function () {
+            expect(() => resolveParams({ operator: '0x1234' }, spec)).to.throw(
+                /--operator must be an address/
+            )
+            expect(() => resolveParams({}, spec, writeConfig({ confirmations: -1 }))).to.throw(
+                /confirmations in .* must be a non-negative integer/
+            )
+            expect(() => resolveParams({ price: 'cheap' }, spec)).to.throw(
+                /--price must be a non-negative number/
+            )
+            process.env.TEST_OPERATOR = '0x...'
+            expect(() => resolveParams({}, spec)).to.throw(/TEST_OPERATOR must be an address/)
+            expect(() => resolveParams({}, spec, writeConfig({ custodian: '0x' }))).to.throw(
+                /Unknown keys in .*: custodian/
+            )
+        })
+    })
+
+    describe('ztln:deploy', function () {
+        it('sends nothing in a dry run', async function () {
+            const blockNumber = await ethers.provider.getBlockNumber()
+            const result = await hre.run('ztln:deploy', { dryRun: true })
+            expect(result).to.be.undefined
+            expect(await ethers.provider.getBlockNumber()).to.equal(blockNumber)
+        })
+
+        it('deploys with values from the config file', async function () {
+            const [, operator, custodian] = await ethers.getSigners()
+            const config = writeConfig({
+                operator: operator.address,
+                custodian: custodian.address,
+                salt: 'ZTLN-P-test',
+                skipVerify: true
+            })
+            const deployed = await hre.run('ztln:deploy', { configFile: config })
+
+            const ztlnPrime = await ethers.getContractAt('ZTLNPrime', deployed.ZTLN_Prime)
+            expect(await ztlnPrime.hasRole(await ztlnPrime.OPERATOR_ROLE(), operator.address)).to.be
+                .true
+            expect(await ztlnPrime._custodian()).to.equal(custodian.address)
+            const factory = await ethers.getContractAt('Create3Factory', deployed.create3Factory)
+            expect(await factory.addressOf(ethers.id('ZTLN-P-test'))).to.equal(deployed.ZTLN_Prime)
+        })
+    })
+
+    it('ztln:estimate-cost prices the simulated deployment on each network', async function () {
+        const prices = writeConfig({ ETH: 2000 })
+        const reportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cost-'))
+        const report = await hre.run('ztln:estimate-cost', {
+            networks: 'hardhat,localhost',
+            prices,
+            // Overrides the ETH price in the prices file
+            ethPrice: 3150.75,
+            out: 'cost',
+            reportDir
+        })
+
+        const { gas } = report
+        expect(gas.proxy > 200_000n).to.be.true
+        expect(gas.upgrade > gas.implementation).to.be.true
+        expect(gas.deployment).to.equal(gas.kycManager + gas.implementation + gas.proxy)
+
+        const [local, unreachable] = report.networks
+        expect(local).to.include({
+            network: 'hardhat',
+            chainId: 31337,
+            token: 'ETH',
+            tokenUsd: 3150.75
+        })
+        const { fees, costs } = local
+        expect(fees.eip1559).to.be.true
+        expect(fees.expectedGasPrice).to.equal(fees.baseFeePerGas + fees.priorityFeePerGas)
+        expect(costs.proxy.expected).to.equal(gas.proxy * fees.expectedGasPrice)
+        expect(costs.proxy.max).to.equal(
+            gas.proxy * (2n * fees.baseFeePerGas + fees.priorityFeePerGas)
+        )
+        expect(costs.proxy.expectedUsd).to.equal(
+            Number((Number(ethers.formatEther(costs.proxy.expected)) * 3150.75).toFixed(2))
+        )
+        expect(unreachable.network).to.equal('localhost')
+        expect(unreachable.error).to.match(/ECONNREFUSED/)
+
+        const saved = JSON.parse(fs.readFileSync(path.join(reportDir, 'cost.json'), 'utf8'))
+        expect(saved.gas.proxy).to.equal(gas.proxy.toString())
+        const csv = fs
+            .readFileSync(path.join(reportDir, 'cost-costs.csv'), 'utf8')
+            .trim()
+            .split('\n')
+        expect(csv).to.have.lengthOf(1 + Object.keys(gas).length + 1)
+    })
+})
@@ -0,0 +1,131 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import hre, { ethers } from 'hardhat'
+
+import { simulateTransfers } from '../scripts/utils/transfer-simulator'
+import { KycType, RestrictionCode } from '../sdk/constants'
+import { evaluateTransferRestriction, InvestorKyc } from '../sdk/restrictions'
+import { deployAsset, deployZtlnFixture } from './fixtures'
+
+// Every KYC state an investor can be in
+const STATES: InvestorKyc[] = [KycType.NON_KYC, KycType.US_KYC, KycType.GENERAL_KYC].flatMap(
+    kycType => [false, true].map(isBanned => ({ kycType, isBanned }))
+)
+
+describe('Transfer restrictions', function () {
+    // One account per KYC state, set up on the fixture's KycManager
+    async function statesFixture() {
+        const fixture = await deployZtlnFixture()
+        const { kycManager } = fixture
+        const accounts = STATES.map((_, i) =>
+            ethers.getAddress(ethers.dataSlice(ethers.id(`state ${i}`), 12))
+        )
+
+        for (const [i, { kycType, isBanned }] of STATES.entries()) {
+            if (kycType !== KycType.NON_KYC) await kycManager.bulkGrantKyc([accounts[i]], [kycType])
+            if (isBanned) await kycManager.bulkBan([accounts[i]])
+        }
+        return { ...fixture, accounts }
+    }
+
+    it('matches detectTransferRestriction for every combination of states', async function () {
+        const { ztlnPrime, kycManager, accounts } = await loadFixture(statesFixture)
+
+        for (const strict of [false, true]) {
+            await kycManager.setStrict(strict)
+            for (const [i, from] of STATES.entries()) {
+                for (const [j, to] of STATES.entries()) {
+                    const expected = await ztlnPrime.detectTransferRestriction(
+                        accounts[i],
+                        accounts[j],
+                        0
+                    )
+                    expect(
+                        evaluateTransferRestriction(from, to, strict).code,
+                        `${JSON.stringify(from)} -> ${JSON.stringify(to)}, strict ${strict}`
+                    ).to.equal(Number(expected))
+                }
+            }
+        }
+    })
+
+    it('reports the rule that fired and the contract message', async function () {
+        const { ztlnPrime, accounts } = await loadFixture(statesFixture)
+        const [nonKyc, , usKyc, usBanned] = accounts
+
+        const { transfers } = await simulateTransfers(
+            ethers.provider,
+            await ztlnPrime.getAddress(),
+            [
+                { from: usKyc, to: nonKyc },
+                { from: usBanned, to: usKyc },
+                { from: nonKyc, to: usKyc },
+                { from: usBanned, to: await ztlnPrime.getAddress() }
+            ]
+        )
+        expect(transfers.map(({ code, message, rule }) => [code, message, rule])).to.deep.equal([
+            [RestrictionCode.DISALLOWED_OR_STOP, 'User is not KYCed', 'strict-receiver-not-kyc'],
+            [RestrictionCode.REVOKED_OR_BANNED, 'User is banned', 'sender-banned'],
+            [RestrictionCode.DISALLOWED_OR_STOP, 'User is not KYCed', 'strict-sender-not-kyc'],
+            [RestrictionCode.SUCCESS, 'Success', 'exempt-vault-transfer']
+        ])
+    })
+
+    it('shows who a hypothetical strict toggle or KYC change would block', async function () {
+        const { ztlnPrime, kycManager, accounts } = await loadFixture(statesFixture)
+        await kycManager.setStrict(false)
+        const [nonKyc, , usKyc, , generalKyc] = accounts
+        const pairs = [
+            { from: generalKyc, to: nonKyc },
+            { from: usKyc, to: generalKyc }
+        ]
+
+        const strict = await simulateTransfers(
+            ethers.provider,
+            await ztlnPrime.getAddress(),
+            pairs,
+            { strict: true }
+        )
+        expect(strict.transfers.map(({ changed, rule }) => [changed, rule])).to.deep.equal([
+            [true, 'strict-receiver-not-kyc'],
+            [false, 'allowed-strict']
+        ])
+
+        const revoked = await simulateTransfers(
+            ethers.provider,
+            await ztlnPrime.getAddress(),
+            pairs,
+            { investors: { [generalKyc]: { kycType: KycType.NON_KYC } } }
+        )
+        expect(revoked.transfers.map(({ changed, rule }) => [changed, rule])).to.deep.equal([
+            [false, 'allowed-non-us-sender'],
+            [true, 'us-sender-receiver-not-kyc']
+        ])
+        expect(await kycManager.isStrict()).to.be.false
+    })
+
+    it('evaluates every holder pair with the transfers:simulate task', async function () {
+        const { ztlnPrime, kycManager, investor, investor2 } = await loadFixture(deployZtlnFixture)
+        const usdc = await deployAsset(
+            await ztlnPrime.getAddress(),
+            6,
+            [investor, investor2],
+            10n ** 9n
+        )
+        for (const account of [investor, investor2]) {
+            await ztlnPrime.connect(account).deposit(await usdc.getAddress(), 10n ** 6n)
+        }
+        await kycManager.bulkBan([investor2.address])
+
+        const simulation = await hre.run('transfers:simulate', {
+            proxy: await ztlnPrime.getAddress(),
+            allHolders: true,
+            fromBlock: 0
+        })
+        expect(simulation.transfers).to.have.length(2)
+        expect(simulation.transfers.map(({ rule }: { rule: string }) => rule)).to.have.members([
+            'receiver-banned',
+            'sender-banned'
+        ])
+    })
+})
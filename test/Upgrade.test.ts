@@ -0,0 +1,89 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import hre, { ethers, upgrades } from 'hardhat'
+
+import { diffSnapshots, takeSnapshot } from '../scripts/utils/snapshot'
+import { assertUpgradeSafe, importDeployedLayout } from '../scripts/utils/upgrade-flow'
+import { deployZtlnFixture } from './fixtures'
+
+describe('UUPS upgrade', function () {
+    // A fund with holders, a pending redemption, a swept vault and an extra operator
+    async function activeFundFixture() {
+        const fixture = await deployZtlnFixture({ separateRoles: true, fundInvestors: true })
+        const { ztlnPrime, usdc, admin, operator, investor, nonUsInvestor, outsider } = fixture
+        const asset = await usdc.getAddress()
+
+        await ztlnPrime.connect(investor).deposit(asset, 5_000n * 10n ** 6n)
+        await ztlnPrime.connect(nonUsInvestor).deposit(asset, 2_000n * 10n ** 6n)
+        await ztlnPrime.connect(investor).redeem(1_000n * 10n ** 6n, asset)
+        await ztlnPrime.connect(operator).transferToCustodian(asset, 3_000n * 10n ** 6n)
+        await ztlnPrime.connect(operator).setPrice(101_500_000n)
+        await ztlnPrime.connect(admin).grantRole(await ztlnPrime.OPERATOR_ROLE(), outsider.address)
+        return fixture
+    }
+
+    it('preserves state and keeps the fund working', async function () {
+        const { ztlnPrime, usdc, admin, operator, investor } = await loadFixture(activeFundFixture)
+        const proxy = await ztlnPrime.getAddress()
+        const before = await takeSnapshot(ethers.provider, proxy, { fromBlock: 0 })
+
+        const factory = await ethers.getContractFactory('ZTLNPrime')
+        await upgrades.forceImport(proxy, factory, { kind: 'uups' })
+        await assertUpgradeSafe(hre, proxy, factory)
+
+        const newImplementation = await ethers.deployContract('ZTLNPrime')
+        await expect(
+            ztlnPrime.connect(admin).upgradeToAndCall(await newImplementation.getAddress(), '0x')
+        )
+            .to.emit(ztlnPrime, 'Upgraded')
+            .withArgs(await newImplementation.getAddress())
+
+        const after = await takeSnapshot(ethers.provider, proxy, { fromBlock: 0 })
+        expect(after.implementation).to.equal(await newImplementation.getAddress())
+        expect(diffSnapshots(before, after)).to.be.empty
+
+        // Pending redemption can still be processed and new deposits still mint
+        await ztlnPrime
+            .connect(operator)
+            .processRedemption(
+                investor.address,
+                await usdc.getAddress(),
+                1_015n * 10n ** 6n,
+                1_000n * 10n ** 6n
+            )
+        await expect(
+            ztlnPrime.connect(investor).deposit(await usdc.getAddress(), 1_015n * 10n ** 6n)
+        ).to.changeTokenBalance(ztlnPrime, investor, 1_000n * 10n ** 6n)
+    })
+
+    it('only lets the admin upgrade, and only to a UUPS implementation', async function () {
+        const { ztlnPrime, usdc, admin, operator } = await loadFixture(activeFundFixture)
+        const newImplementation = await ethers.deployContract('ZTLNPrime')
+
+        await expect(
+            ztlnPrime.connect(operator).upgradeToAndCall(await newImplementation.getAddress(), '0x')
+        )
+            .to.be.revertedWithCustomError(ztlnPrime, 'AccessControlUnauthorizedAccount')
+            .withArgs(operator.address, await ztlnPrime.DEFAULT_ADMIN_ROLE())
+
+        await expect(
+            ztlnPrime.connect(admin).upgradeToAndCall(await usdc.getAddress(), '0x')
+        ).to.be.revertedWithCustomError(ztlnPrime, 'ERC1967InvalidImplementation')
+    })
+
+    it('imports the deployed layout only when the local build matches it', async function () {
+        const { ztlnPrime } = await loadFixture(activeFundFixture)
+        const proxy = await ztlnPrime.getAddress()
+        const implementation = await upgrades.erc1967.getImplementationAddress(proxy)
+        await importDeployedLayout(hre, proxy)
+
+        // Code built from another revision than the local source
+        const code = await ethers.provider.getCode(implementation)
+        const changed = code.slice(0, 202) + (code.slice(202, 204) === '00' ? '01' : '00')
+        await ethers.provider.send('hardhat_setCode', [implementation, changed + code.slice(204)])
+        const error = await importDeployedLayout(hre, proxy).catch((error: Error) => error)
+        expect((error as Error).message).to.include(
+            `The local ZTLNPrime build differs from the implementation at ${implementation}`
+        )
+    })
+})
@@ -0,0 +1,367 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { ethers } from 'hardhat'
+
+import { RestrictionCode } from '../sdk/constants'
+import { deployZtlnFixture } from './fixtures'
+
+const USDC = (amount: bigint) => amount * 10n ** 6n
+const SHARES = USDC
+
+describe('ZTLNPrime', function () {
+    // Separate admin, operator and custodian accounts, investors holding USDC
+    function fundFixture() {
+        return deployZtlnFixture({ separateRoles: true, fundInvestors: true })
+    }
+
+    describe('initialization', function () {
+        it('sets up the token, roles and addresses', async function () {
+            const { ztlnPrime, kycManager, admin, operator, custodian } =
+                await loadFixture(fundFixture)
+
+            expect(await ztlnPrime.name()).to.equal('Zoth Tokenized Liquid Notes Prime')
+            expect(await ztlnPrime.symbol()).to.equal('ZTLN-P')
+            expect(await ztlnPrime.decimals()).to.equal(6)
+            expect(await ztlnPrime.hasRole(await ztlnPrime.DEFAULT_ADMIN_ROLE(), admin.address)).to
+                .be.true
+            expect(await ztlnPrime.hasRole(await ztlnPrime.OPERATOR_ROLE(), operator.address)).to.be
+                .true
+            expect(await ztlnPrime.getRoleAdmin(await ztlnPrime.OPERATOR_ROLE())).to.equal(
+                await ztlnPrime.DEFAULT_ADMIN_ROLE()
+            )
+            expect(await ztlnPrime._custodian()).to.equal(custodian.address)
+            expect(await ztlnPrime._kycManager()).to.equal(await kycManager.getAddress())
+        })
+
+        it('cannot be initialized again, nor can the implementation', async function () {
+            const { ztlnPrime, implementation, kycManager, outsider } =
+                await loadFixture(fundFixture)
+            const args = [
+                outsider.address,
+                outsider.address,
+                outsider.address,
+                await kycManager.getAddress()
+            ] as const
+
+            await expect(ztlnPrime.initialize(...args)).to.be.revertedWithCustomError(
+                ztlnPrime,
+                'InvalidInitialization'
+            )
+            await expect(implementation.initialize(...args)).to.be.revertedWithCustomError(
+                implementation,
+                'InvalidInitialization'
+            )
+        })
+    })
+
+    describe('deposit', function () {
+        it('mints shares at the current price', async function () {
+            const { ztlnPrime, usdc, operator, investor } = await loadFixture(fundFixture)
+            await ztlnPrime.connect(operator).setPrice(105_000_000n)
+
+            const tx = ztlnPrime.connect(investor).deposit(await usdc.getAddress(), USDC(1_050n))
+            await expect(tx)
+                .to.emit(ztlnPrime, 'Deposit')
+                .withArgs(investor.address, await usdc.getAddress(), USDC(1_050n), SHARES(1_000n))
+            await expect(tx).to.changeTokenBalances(
+                usdc,
+                [investor, ztlnPrime],
+                [-USDC(1_050n), USDC(1_050n)]
+            )
+            expect(await ztlnPrime.balanceOf(investor.address)).to.equal(SHARES(1_000n))
+        })
+
+        it('scales assets with other decimals to 6 and rounds shares down', async function () {
+            const { ztlnPrime, operator, investor } = await loadFixture(fundFixture)
+            const dai = await ethers.deployContract('MockERC20', ['Dai', 'DAI', 18])
+            await dai.mint(investor.address, 10n ** 18n)
+            await dai.connect(investor).approve(await ztlnPrime.getAddress(), ethers.MaxUint256)
+            await ztlnPrime.connect(operator).setPrice(300_000_000n)
+
+            // 1 DAI scales to 1_000_000 and buys 333_333.33 shares at a price of 3
+            await ztlnPrime.connect(investor).deposit(await dai.getAddress(), 10n ** 18n)
+            expect(await ztlnPrime.balanceOf(investor.address)).to.equal(333_333n)
+        })
+
+        it('requires a KYCed, unbanned investor', async function () {
+            const { ztlnPrime, kycManager, usdc, investor, outsider } =
+                await loadFixture(fundFixture)
+            const asset = await usdc.getAddress()
+
+            await expect(ztlnPrime.connect(outsider).deposit(asset, USDC(1n)))
+                .to.be.revertedWithCustomError(kycManager, 'UserMissingKyc')
+                .withArgs(outsider.address)
+
+            await kycManager.bulkBan([investor.address])
+            await expect(ztlnPrime.connect(investor).deposit(asset, USDC(1n)))
+                .to.be.revertedWithCustomError(kycManager, 'UserBanned')
+                .withArgs(investor.address)
+        })
+    })
+
+    describe('redemption', function () {
+        async function depositedFixture() {
+            const fixture = await fundFixture()
+            const { ztlnPrime, usdc, investor } = fixture
+            await ztlnPrime.connect(investor).deposit(await usdc.getAddress(), USDC(1_000n))
+            return fixture
+        }
+
+        it('holds the redeemed shares in the vault until processed', async function () {
+            const { ztlnPrime, usdc, investor } = await loadFixture(depositedFixture)
+
+            const tx = ztlnPrime.connect(investor).redeem(SHARES(400n), await usdc.getAddress())
+            await expect(tx)
+                .to.emit(ztlnPrime, 'RequestRedemption')
+                .withArgs(investor.address, SHARES(400n), await usdc.getAddress())
+            await expect(tx).to.changeTokenBalances(
+                ztlnPrime,
+                [investor, ztlnPrime],
+                [-SHARES(400n), SHARES(400n)]
+            )
+        })
+
+        it('burns the shares and pays the investor on processRedemption', async function () {
+            const { ztlnPrime, usdc, operator, investor } = await loadFixture(depositedFixture)
+            const asset = await usdc.getAddress()
+            await ztlnPrime.connect(investor).redeem(SHARES(400n), asset)
+            await ztlnPrime.connect(operator).setPrice(110_000_000n)
+
+            const tx = ztlnPrime
+                .connect(operator)
+                .processRedemption(investor.address, asset, USDC(440n), SHARES(400n))
+            await expect(tx)
+                .to.emit(ztlnPrime, 'ProcessRedemption')
+                .withArgs(investor.address, SHARES(400n), asset, USDC(440n))
+            await expect(tx).to.changeTokenBalances(
+                usdc,
+                [ztlnPrime, investor],
+                [-USDC(440n), USDC(440n)]
+            )
+            expect(await ztlnPrime.balanceOf(await ztlnPrime.getAddress())).to.equal(0)
+            expect(await ztlnPrime.totalSupply()).to.equal(SHARES(600n))
+        })
+
+        it('cannot burn more shares than the vault holds', async function () {
+            const { ztlnPrime, usdc, operator, investor } = await loadFixture(depositedFixture)
+            await expect(
+                ztlnPrime
+                    .connect(operator)
+                    .processRedemption(investor.address, await usdc.getAddress(), 1n, 1n)
+            ).to.be.revertedWithCustomError(ztlnPrime, 'ERC20InsufficientBalance')
+        })
+    })
+
+    describe('custodian sweeps', function () {
+        async function fundedVaultFixture() {
+            const fixture = await fundFixture()
+            const { ztlnPrime, usdc, investor } = fixture
+            await ztlnPrime.connect(investor).deposit(await usdc.getAddress(), USDC(1_000n))
+            return fixture
+        }
+
+        it('sends part or all of an asset to the custodian', async function () {
+            const { ztlnPrime, usdc, operator, custodian } = await loadFixture(fundedVaultFixture)
+            const asset = await usdc.getAddress()
+
+            await expect(ztlnPrime.connect(operator).transferToCustodian(asset, USDC(300n)))
+                .to.emit(ztlnPrime, 'TransferToCustodian')
+                .withArgs(custodian.address, asset, USDC(300n))
+            await expect(
+                ztlnPrime.connect(operator).transferAllToCustodian(asset)
+            ).to.changeTokenBalances(usdc, [ztlnPrime, custodian], [-USDC(700n), USDC(700n)])
+        })
+
+        it('follows setCustodian and refuses the zero address', async function () {
+            const { ztlnPrime, usdc, admin, operator, outsider } =
+                await loadFixture(fundedVaultFixture)
+            const asset = await usdc.getAddress()
+
+            await expect(ztlnPrime.connect(admin).setCustodian(outsider.address))
+                .to.emit(ztlnPrime, 'SetCustodian')
+                .withArgs(outsider.address)
+            await expect(
+                ztlnPrime.connect(operator).transferToCustodian(asset, USDC(1n))
+            ).to.changeTokenBalance(usdc, outsider, USDC(1n))
+
+            await ztlnPrime.connect(admin).setCustodian(ethers.ZeroAddress)
+            await expect(ztlnPrime.connect(operator).transferAllToCustodian(asset))
+                .to.be.revertedWithCustomError(ztlnPrime, 'InvalidAddress')
+                .withArgs(ethers.ZeroAddress)
+        })
+    })
+
+    describe('pause', function () {
+        it('blocks deposits and redemption requests until unpaused', async function () {
+            const { ztlnPrime, usdc, operator, investor } = await loadFixture(fundFixture)
+            const asset = await usdc.getAddress()
+            await ztlnPrime.connect(investor).deposit(asset, USDC(10n))
+
+            await ztlnPrime.connect(operator).pause()
+            await expect(
+                ztlnPrime.connect(investor).deposit(asset, USDC(10n))
+            ).to.be.revertedWithCustomError(ztlnPrime, 'EnforcedPause')
+            await expect(
+                ztlnPrime.connect(investor).redeem(SHARES(1n), asset)
+            ).to.be.revertedWithCustomError(ztlnPrime, 'EnforcedPause')
+
+            await ztlnPrime.connect(operator).unpause()
+            await expect(ztlnPrime.connect(investor).deposit(asset, USDC(10n))).to.not.be.reverted
+        })
+
+        it('does not stop transfers between investors', async function () {
+            const { ztlnPrime, usdc, operator, investor, nonUsInvestor } =
+                await loadFixture(fundFixture)
+            await ztlnPrime.connect(investor).deposit(await usdc.getAddress(), USDC(10n))
+
+            await ztlnPrime.connect(operator).pause()
+            await expect(
+                ztlnPrime.connect(investor).transfer(nonUsInvestor.address, SHARES(1n))
+            ).to.changeTokenBalance(ztlnPrime, nonUsInvestor, SHARES(1n))
+        })
+    })
+
+    describe('transfer restrictions', function () {
+        // Both investors and an outsider hold shares; mints are not restricted
+        async function holdersFixture() {
+            const fixture = await fundFixture()
+            const { ztlnPrime, operator, investor, nonUsInvestor, outsider } = fixture
+            for (const holder of [investor, nonUsInvestor, outsider]) {
+                await ztlnPrime.connect(operator).mint(holder.address, SHARES(100n))
+            }
+            return fixture
+        }
+
+        it('blocks banned senders and receivers', async function () {
+            const { ztlnPrime, kycManager, investor, nonUsInvestor } =
+                await loadFixture(holdersFixture)
+            await kycManager.bulkBan([nonUsInvestor.address])
+
+            for (const [from, to] of [
+                [nonUsInvestor, investor],
+                [investor, nonUsInvestor]
+            ]) {
+                expect(
+                    await ztlnPrime.detectTransferRestriction(from.address, to.address, 0)
+                ).to.equal(RestrictionCode.REVOKED_OR_BANNED)
+                await expect(ztlnPrime.connect(from).transfer(to.address, 1n)).to.be.revertedWith(
+                    'User is banned'
+                )
+            }
+        })
+
+        it('requires both parties to be KYCed in strict mode', async function () {
+            const { ztlnPrime, investor, nonUsInvestor, outsider } =
+                await loadFixture(holdersFixture)
+
+            await expect(
+                ztlnPrime.connect(outsider).transfer(investor.address, 1n)
+            ).to.be.revertedWith('User is not KYCed')
+            await expect(
+                ztlnPrime.connect(nonUsInvestor).transfer(outsider.address, 1n)
+            ).to.be.revertedWith('User is not KYCed')
+            await expect(
+                ztlnPrime.connect(nonUsInvestor).transfer(investor.address, 1n)
+            ).to.changeTokenBalance(ztlnPrime, investor, 1n)
+        })
+
+        it('only checks the receiver of US senders outside strict mode', async function () {
+            const { ztlnPrime, kycManager, investor, nonUsInvestor, outsider } =
+                await loadFixture(holdersFixture)
+            await kycManager.setStrict(false)
+
+            await expect(
+                ztlnPrime.connect(investor).transfer(outsider.address, 1n)
+            ).to.be.revertedWith('User is not KYCed')
+            await expect(
+                ztlnPrime.connect(investor).transfer(nonUsInvestor.address, 1n)
+            ).to.changeTokenBalance(ztlnPrime, nonUsInvestor, 1n)
+            await expect(
+                ztlnPrime.connect(nonUsInvestor).transfer(outsider.address, 1n)
+            ).to.changeTokenBalance(ztlnPrime, outsider, 1n)
+            await expect(
+                ztlnPrime.connect(outsider).transfer(nonUsInvestor.address, 1n)
+            ).to.changeTokenBalance(ztlnPrime, nonUsInvestor, 1n)
+        })
+
+        it('lets anyone, even a banned holder, transfer to the vault', async function () {
+            const { ztlnPrime, kycManager, investor } = await loadFixture(holdersFixture)
+            await kycManager.bulkBan([investor.address])
+
+            await expect(
+                ztlnPrime.connect(investor).transfer(await ztlnPrime.getAddress(), 1n)
+            ).to.changeTokenBalance(ztlnPrime, ztlnPrime, 1n)
+        })
+    })
+
+    describe('administration', function () {
+        it('mints and burns shares for any account', async function () {
+            const { ztlnPrime, operator, outsider } = await loadFixture(fundFixture)
+
+            await ztlnPrime.connect(operator).mint(outsider.address, SHARES(5n))
+            await expect(
+                ztlnPrime.connect(operator).burnFrom(outsider.address, SHARES(2n))
+            ).to.changeTokenBalance(ztlnPrime, outsider, -SHARES(2n))
+            expect(await ztlnPrime.totalSupply()).to.equal(SHARES(3n))
+        })
+
+        it('switches KYC checks to a new KycManager', async function () {
+            const { ztlnPrime, usdc, admin, investor } = await loadFixture(fundFixture)
+            const kycManager = await ethers.deployContract('KycManager', [false])
+
+            await expect(ztlnPrime.connect(admin).setKycManager(await kycManager.getAddress()))
+                .to.emit(ztlnPrime, 'SetKycManager')
+                .withArgs(await kycManager.getAddress())
+            await expect(ztlnPrime.connect(investor).deposit(await usdc.getAddress(), USDC(1n)))
+                .to.be.revertedWithCustomError(kycManager, 'UserMissingKyc')
+                .withArgs(investor.address)
+        })
+    })
+
+    describe('roles', function () {
+        it('limits operations to the admin or operator', async function () {
+            const { ztlnPrime, usdc, investor, outsider } = await loadFixture(fundFixture)
+            const asset = await usdc.getAddress()
+            const asOutsider = ztlnPrime.connect(outsider)
+
+            for (const call of [
+                () => asOutsider.setPrice(1n),
+                () => asOutsider.pause(),
+                () => asOutsider.unpause(),
+                () => asOutsider.mint(outsider.address, 1n),
+                () => asOutsider.burnFrom(investor.address, 1n),
+                () => asOutsider.processRedemption(investor.address, asset, 0n, 0n),
+                () => asOutsider.transferToCustodian(asset, 0n),
+                () => asOutsider.transferAllToCustodian(asset)
+            ]) {
+                await expect(call()).to.be.revertedWithCustomError(ztlnPrime, 'PermissionDenied')
+            }
+        })
+
+        it('limits address changes and role grants to the admin', async function () {
+            const { ztlnPrime, admin, operator, outsider } = await loadFixture(fundFixture)
+            const OPERATOR_ROLE = await ztlnPrime.OPERATOR_ROLE()
+            const asOperator = ztlnPrime.connect(operator)
+
+            for (const call of [
+                () => asOperator.setCustodian(outsider.address),
+                () => asOperator.setKycManager(outsider.address),
+                () => asOperator.grantRole(OPERATOR_ROLE, outsider.address)
+            ]) {
+                await expect(call())
+                    .to.be.revertedWithCustomError(ztlnPrime, 'AccessControlUnauthorizedAccount')
+                    .withArgs(operator.address, await ztlnPrime.DEFAULT_ADMIN_ROLE())
+            }
+
+            await ztlnPrime.connect(admin).grantRole(OPERATOR_ROLE, outsider.address)
+            await expect(ztlnPrime.connect(outsider).setPrice(2n))
+                .to.emit(ztlnPrime, 'SetPrice')
+                .withArgs(2n)
+            await ztlnPrime.connect(admin).revokeRole(OPERATOR_ROLE, outsider.address)
+            await expect(ztlnPrime.connect(outsider).setPrice(3n)).to.be.revertedWithCustomError(
+                ztlnPrime,
+                'PermissionDenied'
+            )
+        })
+    })
+})
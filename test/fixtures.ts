@@ -0,0 +1,89 @@
+import { ethers } from 'hardhat'
+
+import { KycType } from '../sdk/constants'
+
+export interface ZtlnFixtureOptions {
+    // Give OPERATOR_ROLE and the custodian to their own accounts instead of the admin
+    separateRoles?: boolean
+    // Give the investors USDC and approve the vault for their USDC and shares
+    fundInvestors?: boolean
+}
+
+/**
+ * The fund as the ztln:deploy task sets it up locally: a USDC mock, a strict KycManager and
+ * ZTLNPrime behind an ERC1967Proxy. The first signer is admin, and operator and custodian unless
+ * `separateRoles` is set; `investor` and `investor2` are US-KYCed and `nonUsInvestor` non-US-KYCed.
+ * Wrap it in a named function to pass options to loadFixture.
+ */
+export async function deployZtlnFixture(options: ZtlnFixtureOptions = {}) {
+    const [admin, investor, investor2, outsider, operatorAccount, custodianAccount, nonUsInvestor] =
+        await ethers.getSigners()
+    const operator = options.separateRoles ? operatorAccount : admin
+    const custodian = options.separateRoles ? custodianAccount : admin
+
+    const kycManager = await ethers.deployContract('KycManager', [true])
+    await kycManager.bulkGrantKyc(
+        [investor.address, investor2.address, nonUsInvestor.address],
+        [KycType.US_KYC, KycType.US_KYC, KycType.GENERAL_KYC]
+    )
+
+    const implementation = await ethers.deployContract('ZTLNPrime')
+    const proxy = await ethers.deployContract('ERC1967Proxy', [
+        await implementation.getAddress(),
+        implementation.interface.encodeFunctionData('initialize', [
+            admin.address,
+            operator.address,
+            custodian.address,
+            await kycManager.getAddress()
+        ])
+    ])
+    const ztlnPrime = await ethers.getContractAt('ZTLNPrime', await proxy.getAddress())
+    await ztlnPrime.connect(operator).setPrice(10n ** 8n)
+
+    const usdc = await ethers.deployContract('USDC')
+    if (options.fundInvestors) {
+        for (const holder of [investor, investor2, nonUsInvestor]) {
+            await usdc.transfer(holder.address, 1_000_000n * 10n ** 6n)
+            await usdc.connect(holder).approve(await ztlnPrime.getAddress(), ethers.MaxUint256)
+            // redeem pulls the shares into the vault with transferFrom
+            await ztlnPrime.connect(holder).approve(await ztlnPrime.getAddress(), ethers.MaxUint256)
+        }
+    }
+
+    return {
+        ztlnPrime,
+        kycManager,
+        implementation,
+        admin,
+        operator,
+        custodian,
+        investor,
+        investor2,
+        nonUsInvestor,
+        outsider,
+        usdc
+    }
+}
+
+/**
+ * Deploys a mock asset with `decimals`, funds `holders` and approves the vault for them.
+ */
+export async function deployAsset(
+    vault: string,
+    decimals: number,
+    holders: { address: string }[],
+    amount: bigint
+) {
+    const asset = await ethers.deployContract('MockERC20', [
+        `Asset ${decimals}`,
+        `A${decimals}`,
+        decimals
+    ])
+    for (const holder of holders) {
+        await asset.mint(holder.address, amount)
+        await asset
+            .connect(await ethers.getSigner(holder.address))
+            .approve(vault, ethers.MaxUint256)
+    }
+    return asset
+}
@@ -0,0 +1,30 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+
+export interface NavStub {
+    url: string
+    // Payload served from now on, or an HTTP status to fail with
+    respond(body: object | number): void
+    close(): Promise<void>
+}
+
+/**
+ * Local HTTP endpoint standing in for the administrator's NAV feed.
+ */
+export async function startNavStub(body: object | number): Promise<NavStub> {
+    let response = body
+    const server = http.createServer((_, res) => {
+        if (typeof response === 'number') {
+            res.writeHead(response).end()
+        } else {
+            res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(response))
+        }
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    return {
+        url: `http://127.0.0.1:${port}/nav`,
+        respond: next => (response = next),
+        close: () => new Promise(resolve => server.close(() => resolve()))
+    }
+}
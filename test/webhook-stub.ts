@@ -0,0 +1,35 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+
+export interface WebhookStub {
+    url: string
+    // JSON bodies received so far, oldest first
+    received: unknown[]
+    // HTTP status to answer with from now on
+    respond(status: number): void
+    close(): Promise<void>
+}
+
+/**
+ * Local HTTP endpoint standing in for an alerting webhook.
+ */
+export async function startWebhookStub(): Promise<WebhookStub> {
+    let status = 200
+    const received: unknown[] = []
+    const server = http.createServer((req, res) => {
+        let body = ''
+        req.on('data', chunk => (body += chunk))
+        req.on('end', () => {
+            if (status === 200) received.push(JSON.parse(body))
+            res.writeHead(status).end()
+        })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    return {
+        url: `http://127.0.0.1:${port}/alerts`,
+        received,
+        respond: next => (status = next),
+        close: () => new Promise(resolve => server.close(() => resolve()))
+    }
+}